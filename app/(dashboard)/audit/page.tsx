@@ -0,0 +1,380 @@
+/**
+ * Audit page
+ * Browse, filter and export the audit log of writes and reducer calls
+ */
+
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronLeft, ChevronRight, Download, RefreshCw, ScrollText, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrentUser } from '@/hooks/use-users';
+import { auditSearchParams, useAuditLog, useAuditSettings, useUpdateAuditSettings } from '@/hooks/use-audit';
+import type { AuditFilter, AuditOutcome } from '@/types/audit';
+
+const PAGE_SIZE = 50;
+
+// Radix Select items can't have an empty value
+const ALL = '__all__';
+
+const OUTCOME_VARIANTS: Record<AuditOutcome, 'default' | 'secondary' | 'destructive'> = {
+  success: 'secondary',
+  denied: 'destructive',
+  error: 'destructive',
+};
+
+interface FilterForm {
+  username: string;
+  action: string;
+  outcome: string;
+  target: string;
+  from: string;  // datetime-local value
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = { username: ALL, action: ALL, outcome: ALL, target: '', from: '', to: '' };
+
+function toFilter(form: FilterForm): AuditFilter {
+  return {
+    username: form.username === ALL ? undefined : form.username,
+    action: form.action === ALL ? undefined : form.action,
+    outcome: form.outcome === ALL ? undefined : (form.outcome as AuditOutcome),
+    target: form.target.trim() || undefined,
+    from: form.from ? new Date(form.from).toISOString() : undefined,
+    to: form.to ? new Date(form.to).toISOString() : undefined,
+  };
+}
+
+export default function AuditPage() {
+  const { can, isLoading: isUserLoading } = useCurrentUser();
+  const canRead = can('audit:read');
+  const canConfigure = can('audit:configure');
+
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const filter = toFilter(form);
+  const { data, isLoading, isFetching, error, refetch } = useAuditLog(
+    { ...filter, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+    canRead
+  );
+
+  const { data: settings } = useAuditSettings(canRead);
+  const updateSettings = useUpdateAuditSettings();
+  const [retention, setRetention] = useState('');
+
+  useEffect(() => {
+    if (settings) setRetention(String(settings.retentionDays));
+  }, [settings]);
+
+  const entries = data?.entries ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const setField = (field: keyof FilterForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  const handleSaveRetention = async () => {
+    const retentionDays = Number(retention);
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      toast.error('Retention must be a whole number of days (0 keeps entries forever)');
+      return;
+    }
+    try {
+      await updateSettings.mutateAsync({ retentionDays });
+      toast.success(retentionDays === 0 ? 'Audit entries are kept forever' : `Audit entries are kept for ${retentionDays} days`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update retention');
+    }
+  };
+
+  if (!isUserLoading && !canRead) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <p className="text-sm text-muted-foreground">Only admins and owners can view the audit log.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <ScrollText className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-3xl font-bold">Audit Log</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Writes, reducer calls, backup restores and denied actions, with who made them and when
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/audit?${auditSearchParams({ ...filter, format: 'csv' })}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/audit?${auditSearchParams({ ...filter, format: 'ndjson' })}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export JSONL
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Filters</CardTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setForm(EMPTY_FILTERS);
+                setPage(0);
+              }}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Select value={form.username} onValueChange={(value) => setField('username', value)}>
+                <SelectTrigger id="audit-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {data?.facets.usernames.map((username) => (
+                    <SelectItem key={username} value={username}>{username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <Select value={form.action} onValueChange={(value) => setField('action', value)}>
+                <SelectTrigger id="audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {data?.facets.actions.map((action) => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-outcome">Outcome</Label>
+              <Select value={form.outcome} onValueChange={(value) => setField('outcome', value)}>
+                <SelectTrigger id="audit-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All outcomes</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="denied">Denied</SelectItem>
+                  <SelectItem value="error">Error</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-target">Table or reducer</Label>
+              <Input
+                id="audit-target"
+                value={form.target}
+                onChange={(e) => setField('target', e.target.value)}
+                placeholder="Contains..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="datetime-local"
+                value={form.from}
+                onChange={(e) => setField('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="datetime-local"
+                value={form.to}
+                onChange={(e) => setField('to', e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>
+            {total.toLocaleString()} {total === 1 ? 'entry' : 'entries'} match
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || isUserLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Loading audit log...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load audit log'}
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No audit entries match these filters.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {expanded === entry.id
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-xs">
+                          {new Date(entry.timestamp).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm">{entry.username ?? '—'}</span>
+                          {entry.role && (
+                            <span className="ml-1 text-xs capitalize text-muted-foreground">({entry.role})</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.target ?? '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant={OUTCOME_VARIANTS[entry.outcome]} className="capitalize">
+                            {entry.outcome}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right text-xs text-muted-foreground">
+                          {entry.durationMs !== null ? `${entry.durationMs} ms` : '—'}
+                        </TableCell>
+                      </TableRow>
+                      {expanded === entry.id && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs">
+                              {JSON.stringify(entry.details, null, 2) ?? 'No details'}
+                            </pre>
+                            {entry.ip && (
+                              <p className="mt-2 text-xs text-muted-foreground">IP: {entry.ip}</p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {/* Pagination */}
+              <div className="mt-4 flex items-center justify-between border-t pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Page {page + 1} of {pageCount}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Retention */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention</CardTitle>
+          <CardDescription>
+            Entries older than this are deleted. Use 0 to keep entries forever.
+            {!canConfigure && ' Only owners can change retention.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="audit-retention">Days</Label>
+              <Input
+                id="audit-retention"
+                type="number"
+                min={0}
+                className="w-32"
+                value={retention}
+                onChange={(e) => setRetention(e.target.value)}
+                disabled={!canConfigure}
+              />
+            </div>
+            {canConfigure && (
+              <Button
+                onClick={handleSaveRetention}
+                disabled={updateSettings.isPending || retention === String(settings?.retentionDays)}
+              >
+                {updateSettings.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -36,6 +36,8 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { readWireJson } from '@/lib/spacetime/json';
+import { useCurrentUser } from '@/hooks/use-users';
 
 interface Backup {
   backup_id: number;
@@ -61,6 +63,8 @@ interface RestoreLog {
 }
 
 export default function BackupPage() {
+  const { can } = useCurrentUser();
+  const canRestore = can('backups:restore');
   const [backups, setBackups] = useState<Backup[]>([]);
   const [restoreLogs, setRestoreLogs] = useState<RestoreLog[]>([]);
   const [loading, setLoading] = useState(false);
@@ -129,7 +133,7 @@ export default function BackupPage() {
         throw new Error(errorData.error || 'Failed to load backups');
       }
 
-      const data = await response.json();
+      const data = await readWireJson(response);
       console.log('Backup data loaded:', data);
       
       // Tables exist and query succeeded
@@ -152,7 +156,7 @@ export default function BackupPage() {
       });
 
       if (logsResponse.ok) {
-        const logsData = await logsResponse.json();
+        const logsData = await readWireJson(logsResponse);
         // Sort and limit in JavaScript
         const sortedLogs = (logsData.rows || []).sort((a: RestoreLog, b: RestoreLog) => {
           return (b.started_at_ms || 0) - (a.started_at_ms || 0);
@@ -419,7 +423,7 @@ export default function BackupPage() {
           <Button 
             className="w-full" 
             onClick={createBackup}
-            disabled={creating || !backupName.trim()}
+            disabled={creating || !backupName.trim() || !can('reducers:call')}
           >
             {creating ? (
               <>
@@ -501,7 +505,8 @@ export default function BackupPage() {
                           size="sm"
                           variant="outline"
                           onClick={() => initiateRestore(backup.backup_id)}
-                          disabled={!backup.is_complete}
+                          disabled={!backup.is_complete || !canRestore}
+                          title={canRestore ? undefined : 'Restoring backups requires the admin role'}
                         >
                           <Upload className="h-3 w-3 mr-1" />
                           Restore
@@ -510,6 +515,8 @@ export default function BackupPage() {
                           size="sm"
                           variant="outline"
                           onClick={() => initiateDelete(backup.backup_id)}
+                          disabled={!canRestore}
+                          title={canRestore ? undefined : 'Deleting backups requires the admin role'}
                         >
                           <Trash2 className="h-3 w-3" />
                         </Button>
@@ -9,7 +9,9 @@ import { useTables, useRefreshTables } from '@/hooks/use-tables';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { RefreshCw, Database, ArrowRight, AlertCircle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Database, ArrowRight, AlertCircle, Rows3, HardDrive, TrendingUp, TrendingDown } from 'lucide-react';
+import { formatBytes } from '@/lib/utils';
 import { toast } from 'sonner';
 import { RecentActivity } from '@/components/recent-activity';
 
@@ -93,6 +95,16 @@ export default function DashboardPage() {
   }
 
   const tables = data?.tables || [];
+  const totalRows = tables.reduce((sum, t) => sum + (t.stats?.rowCount ?? 0), 0);
+  const totalIsLowerBound = tables.some((t) => t.stats?.lowerBound);
+  const measuredTables = tables.filter((t) => t.stats?.approxBytes !== undefined);
+  const totalBytes = measuredTables.reduce((sum, t) => sum + (t.stats?.approxBytes ?? 0), 0);
+  const tablesBySize = [...tables]
+    .filter((t) => t.stats)
+    .sort((a, b) =>
+      (b.stats?.approxBytes ?? 0) - (a.stats?.approxBytes ?? 0) ||
+      (b.stats?.rowCount ?? 0) - (a.stats?.rowCount ?? 0)
+    );
 
   return (
     <div className="space-y-6">
@@ -117,7 +129,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Tables</CardTitle>
@@ -131,6 +143,32 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Rows</CardTitle>
+            <Rows3 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalIsLowerBound ? '≥ ' : ''}{totalRows.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              Across all tables
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Approx. Size</CardTitle>
+            <HardDrive className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatBytes(totalBytes)}</div>
+            <p className="text-xs text-muted-foreground">
+              SATS-JSON payload of {measuredTables.length} of {tables.length} tables
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Schema Cache</CardTitle>
@@ -149,6 +187,73 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Table Statistics */}
+      {tablesBySize.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Table Statistics</CardTitle>
+            <CardDescription>
+              Row counts and approximate payload size, largest first. Change is since the previous sample.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Approx. Size</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tablesBySize.map((table) => {
+                  const stats = table.stats!;
+                  return (
+                    <TableRow key={table.name}>
+                      <TableCell className="font-medium">{table.name}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {stats.lowerBound ? '≥ ' : ''}{stats.rowCount.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {stats.approxBytes !== undefined ? formatBytes(stats.approxBytes) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {stats.rowDelta ? (
+                          <span
+                            className={`inline-flex items-center gap-1 ${
+                              stats.rowDelta > 0 ? 'text-green-600 dark:text-green-500' : 'text-destructive'
+                            }`}
+                          >
+                            {stats.rowDelta > 0 ? (
+                              <TrendingUp className="h-3 w-3" />
+                            ) : (
+                              <TrendingDown className="h-3 w-3" />
+                            )}
+                            {stats.rowDelta > 0 ? '+' : ''}
+                            {stats.rowDelta.toLocaleString()}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/tables/${table.name}`}>
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <ArrowRight className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Activity / Logs */}
       <RecentActivity />
     </div>
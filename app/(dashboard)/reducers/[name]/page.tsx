@@ -1,35 +1,162 @@
 /**
  * Reducer detail page
- * Displays reducer information and allows calling it
+ * Displays reducer information, allows calling it (with typed arguments or a saved
+ * preset) and lists its recorded calls
  */
 
 'use client';
 
-import { useState } from 'react';
-import { useParams } from 'next/navigation';
-import { useReducers } from '@/hooks/use-reducers';
+import { use, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { useReducers, type Reducer } from '@/hooks/use-reducers';
+import { useReducerCall, useReducerHistory } from '@/hooks/use-reducer-history';
+import {
+  useCreateReducerPreset,
+  useDeleteReducerPreset,
+  useReducerPresets,
+  useUpdateReducerPreset,
+} from '@/hooks/use-reducer-presets';
+import { useTables } from '@/hooks/use-tables';
+import { useCurrentUser } from '@/hooks/use-users';
+import { useReducerMetadata } from '@/hooks/use-reducer-metadata';
+import { canCallReducer, canEditReducerPreset, reducerRole } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Zap, Loader2, AlertCircle, CheckCircle2, Play, Info } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ReducerArgInput } from '@/components/reducer-arg-input';
+import { ReducerCallHistory } from '@/components/reducer-call-history';
+import { ReducerPresetDialog } from '@/components/reducer-preset-dialog';
+import { PresetVariablesDialog } from '@/components/preset-variables-dialog';
+import { TableChanges } from '@/components/table-changes';
+import {
+  Zap,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  Play,
+  Info,
+  Lock,
+  Camera,
+  History,
+  Bookmark,
+  Pencil,
+  Trash2,
+  Save,
+} from 'lucide-react';
 import { toast } from 'sonner';
+import { readWireJson, stringifyWire, toDisplayJson } from '@/lib/spacetime/json';
+import {
+  argFormValue,
+  argValue,
+  emptyArgValue,
+  presetVariables,
+  promptVariables,
+  type ArgFormValue,
+} from '@/lib/spacetime/reducer-args';
+import { encodeValue } from '@/lib/spacetime/sats';
+import type { ReducerCallEntry, ReducerPreset, ReducerPresetInput } from '@/types/api';
+import type { SatsTypespace } from '@/types/sats';
 
-export default function ReducerPage() {
+// Tables one call can snapshot (matches /api/reducers/call)
+const MAX_SNAPSHOT_TABLES = 10;
+
+// Radix Select items can't have an empty value
+const NO_PRESET = '__none__';
+
+interface ReducerPageProps {
+  // ?replay=<id> loads a recorded call's arguments
+  searchParams: Promise<{
+    replay?: string;
+  }>;
+}
+
+/**
+ * Form values holding recorded or preset arguments
+ */
+function formValues(reducer: Reducer, typespace: SatsTypespace, args: unknown[]): Record<string, ArgFormValue> {
+  return Object.fromEntries(
+    reducer.params.map((param, idx) => [
+      param.name || `param_${idx}`,
+      argFormValue(param.algebraicType, typespace, args[idx]),
+    ])
+  );
+}
+
+export default function ReducerPage({ searchParams }: ReducerPageProps) {
+  const { replay: replayParam } = use(searchParams);
   const params = useParams();
+  const router = useRouter();
+  const queryClient = useQueryClient();
   const reducerName = params.name as string;
   const { data, isLoading, error } = useReducers();
+  const { user, can } = useCurrentUser();
+  const { data: metadata } = useReducerMetadata();
+  const { data: tablesData } = useTables();
+  const { data: historyData, isLoading: isHistoryLoading } = useReducerHistory(reducerName);
+  const { data: replayEntry, error: replayError } = useReducerCall(replayParam ?? null);
+  const { data: presetsData } = useReducerPresets(reducerName);
+  const createPreset = useCreateReducerPreset();
+  const updatePreset = useUpdateReducerPreset();
+  const deletePreset = useDeleteReducerPreset();
   
-  const [paramValues, setParamValues] = useState<Record<string, string>>({});
+  const [paramValues, setParamValues] = useState<Record<string, ArgFormValue>>({});
+  const [snapshotTables, setSnapshotTables] = useState<string[]>([]);
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionResult, setExecutionResult] = useState<{
     success: boolean;
     message: string;
     data?: any;
   } | null>(null);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [presetTarget, setPresetTarget] = useState<{ preset: ReducerPreset | null; args: unknown[] } | null>(null);
+  // Preset waiting for its variable values before it runs
+  const [pendingPreset, setPendingPreset] = useState<ReducerPreset | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ReducerPreset | null>(null);
+  const replayed = useRef<string | null>(null);
+
+  const replay = (target: Reducer, entry: ReducerCallEntry) => {
+    setParamValues(formValues(target, data?.typespace ?? [], entry.args));
+    setSnapshotTables(entry.changes?.map((changes) => changes.table) ?? []);
+    setExecutionResult(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    toast.success('Arguments loaded from the recorded call');
+  };
+
+  // Load the call named by ?replay once the reducer and the call are known
+  useEffect(() => {
+    if (!replayParam || replayed.current === replayParam) return;
+    if (replayError) {
+      replayed.current = replayParam;
+      toast.error('Recorded call not found');
+      router.replace(`/reducers/${encodeURIComponent(reducerName)}`);
+      return;
+    }
+    const target = data?.reducers.find((r) => r.name === reducerName);
+    if (!target || !replayEntry) return;
+    replayed.current = replayParam;
+    replay(target, replayEntry);
+    router.replace(`/reducers/${encodeURIComponent(reducerName)}`);
+  }, [replayParam, replayEntry, replayError, data]);
 
   if (isLoading) {
     return (
@@ -70,51 +197,59 @@ export default function ReducerPage() {
     );
   }
 
-  const handleParamChange = (paramName: string, value: string) => {
+  // Mirrors the server-side check in /api/reducers/call
+  const requiredRole = metadata?.rows.find((row) => row.reducer_name === reducer.name)?.required_role ?? null;
+  const minimumRole = reducerRole(reducer.name, requiredRole);
+  const canCall = canCallReducer(user?.role, reducer.name, requiredRole);
+
+  const typespace = data?.typespace ?? [];
+  const paramForms = reducer.params.map((param, idx) => {
+    const paramKey = param.name || `param_${idx}`;
+    return paramValues[paramKey] ?? emptyArgValue(param.algebraicType, typespace);
+  });
+
+  const handleParamChange = (paramName: string, value: ArgFormValue) => {
     setParamValues((prev) => ({
       ...prev,
       [paramName]: value,
     }));
   };
 
-  const handleExecute = async () => {
+  // Arguments for the call, checked the way /api/reducers/call encodes them
+  let args: unknown[] = [];
+  let argsError: string | null = null;
+  try {
+    args = reducer.params.map((param, idx) => {
+      const paramKey = param.name || `param_${idx}`;
+      const value = argValue(param.algebraicType, typespace, paramForms[idx], paramKey);
+      encodeValue(param.algebraicType, value, typespace, paramKey);
+      return value;
+    });
+  } catch (error) {
+    argsError = error instanceof Error ? error.message : String(error);
+  }
+
+  // `variables` is sent for presets so the server resolves their `{{…}}` values
+  const execute = async (params: unknown[], variables?: Record<string, string>) => {
     setIsExecuting(true);
     setExecutionResult(null);
 
     try {
-      // Build parameters array
-      const params = reducer.params.map((param, idx) => {
-        const paramKey = param.name || `param_${idx}`;
-        const value = paramValues[paramKey];
-        
-        // Try to parse the value based on type
-        // Check for integer types (u8, u16, u32, u64, i8, i16, i32, i64, etc.)
-        if (/^[ui]\d+$/.test(param.type)) {
-          return parseInt(value, 10);
-        }
-        // Check for float types (f32, f64)
-        if (/^f\d+$/.test(param.type)) {
-          return parseFloat(value);
-        }
-        if (param.type === 'bool') {
-          return value === 'true';
-        }
-        // Return string value
-        return value || '';
-      });
       const response = await fetch('/api/reducers/call', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+        body: stringifyWire({
           reducer: reducerName,
           params,
+          snapshotTables,
+          variables,
         }),
       });
 
-      const result = await response.json();
+      const result = await readWireJson(response);
 
       if (!response.ok) {
-        throw new Error(result.message || 'Failed to execute reducer');
+        throw new Error(result.details || result.message || result.error || 'Failed to execute reducer');
       }
 
       setExecutionResult({
@@ -135,14 +270,54 @@ export default function ReducerPage() {
       toast.error('Failed to execute reducer');
     } finally {
       setIsExecuting(false);
+      queryClient.invalidateQueries({ queryKey: ['reducer-history'] });
     }
   };
 
-  const isFormValid = reducer.params.every((param, idx) => {
-    const paramKey = param.name || `param_${idx}`;
-    const value = paramValues[paramKey];
-    return value !== undefined && value !== '';
-  });
+  const presets = presetsData?.presets ?? [];
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId) ?? null;
+  const canEditPreset = !!user && !!selectedPreset && can('reducers:call') && canEditReducerPreset(user, selectedPreset);
+
+  const runPreset = (preset: ReducerPreset) => {
+    if (promptVariables(preset.args).length > 0) {
+      setPendingPreset(preset);
+    } else {
+      execute(preset.args, {});
+    }
+  };
+
+  const loadPreset = (preset: ReducerPreset) => {
+    setParamValues(formValues(reducer, typespace, preset.args));
+    setExecutionResult(null);
+    toast.success(`Arguments loaded from ${preset.name}`);
+  };
+
+  const handleSavePreset = async (values: ReducerPresetInput) => {
+    if (!presetTarget) return;
+    const preset = presetTarget.preset
+      ? await updatePreset.mutateAsync({ id: presetTarget.preset.id, ...values })
+      : await createPreset.mutateAsync(values);
+    setSelectedPresetId(preset.id);
+    toast.success(`Saved ${preset.name}`);
+  };
+
+  const handleDeletePreset = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deletePreset.mutateAsync(deleteTarget.id);
+      toast.success(`Deleted ${deleteTarget.name}`);
+      setSelectedPresetId(null);
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete preset');
+    }
+  };
+
+  const tableNames = (tablesData?.tables ?? []).map((table) => table.name).sort();
+  const toggleSnapshotTable = (name: string) => {
+    setSnapshotTables((prev) => (prev.includes(name) ? prev.filter((table) => table !== name) : [...prev, name]));
+  };
+  const history = historyData?.entries ?? [];
 
   return (
     <div className="space-y-6">
@@ -152,16 +327,27 @@ export default function ReducerPage() {
           <div className="flex items-center gap-2">
             <Zap className="h-6 w-6" />
             <h1 className="text-3xl font-bold">{reducerName}</h1>
+            {user && !canCall && (
+              <Lock className="h-5 w-5 text-muted-foreground" aria-label="Locked" />
+            )}
           </div>
           <p className="text-muted-foreground">
             Call this reducer to execute actions on your SpacetimeDB module
           </p>
         </div>
-        {reducer.isLifecycle && (
-          <Badge variant="secondary">
-            Lifecycle: {reducer.lifecycleType}
-          </Badge>
-        )}
+        <div className="flex items-center gap-2">
+          {minimumRole !== 'operator' && (
+            <Badge variant="outline" className="capitalize" title="Minimum portal role">
+              <Lock className="mr-1 h-3 w-3" />
+              {minimumRole}
+            </Badge>
+          )}
+          {reducer.isLifecycle && (
+            <Badge variant="secondary">
+              Lifecycle: {reducer.lifecycleType}
+            </Badge>
+          )}
+        </div>
       </div>
 
       {/* Lifecycle Warning */}
@@ -177,53 +363,136 @@ export default function ReducerPage() {
 
       {/* Parameters */}
       <Card>
-        <CardHeader>
-          <CardTitle>Parameters</CardTitle>
-          <CardDescription>
-            {reducer.params.length === 0
-              ? 'This reducer does not accept any parameters'
-              : 'Provide values for the reducer parameters'}
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Parameters</CardTitle>
+            <CardDescription>
+              {reducer.params.length === 0
+                ? 'This reducer does not accept any parameters'
+                : 'Provide values for the reducer parameters, or pick a saved preset'}
+            </CardDescription>
+          </div>
+          {!reducer.isLifecycle && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={selectedPresetId ?? NO_PRESET}
+                onValueChange={(value) => setSelectedPresetId(value === NO_PRESET ? null : value)}
+              >
+                <SelectTrigger className="w-56" aria-label="Preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PRESET}>
+                    {presets.length === 0 ? 'No saved presets' : 'Choose a preset'}
+                  </SelectItem>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {can('reducers:call') && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    setPresetTarget({ preset: null, args: argsError ? reducer.params.map(() => null) : args })
+                  }
+                  title="Save the current arguments as a preset"
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save preset
+                </Button>
+              )}
+            </div>
+          )}
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-5">
+          {selectedPreset && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Bookmark className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{selectedPreset.name}</span>
+                <Badge variant="outline" className="capitalize">{selectedPreset.visibility}</Badge>
+                <span className="text-xs text-muted-foreground">by {selectedPreset.ownerUsername}</span>
+                {presetVariables(selectedPreset.args).map((variable) => (
+                  <Badge key={variable} variant="secondary" className="font-mono text-xs">
+                    {`{{${variable}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {selectedPreset.description && (
+                <p className="text-sm text-muted-foreground">{selectedPreset.description}</p>
+              )}
+              <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-xs">
+                {toDisplayJson(selectedPreset.args, 2)}
+              </pre>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button size="sm" onClick={() => runPreset(selectedPreset)} disabled={isExecuting || !canCall}>
+                  <Play className="mr-2 h-3 w-3" />
+                  Run preset
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => loadPreset(selectedPreset)}
+                  disabled={isExecuting || presetVariables(selectedPreset.args).length > 0}
+                  title={
+                    presetVariables(selectedPreset.args).length > 0
+                      ? 'Variables are only resolved when the preset runs'
+                      : 'Load these arguments into the form'
+                  }
+                >
+                  Load into form
+                </Button>
+                {canEditPreset && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPresetTarget({ preset: selectedPreset, args: selectedPreset.args })}
+                    >
+                      <Pencil className="mr-2 h-3 w-3" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setDeleteTarget(selectedPreset)}>
+                      <Trash2 className="mr-2 h-3 w-3" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
           {reducer.params.length === 0 ? (
             <p className="text-sm text-muted-foreground">
               No parameters required. Click execute to call this reducer.
             </p>
           ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Parameter</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Value</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {reducer.params.map((param, idx) => {
-                  const paramName = param.name || `param_${idx}`;
-                  return (
-                    <TableRow key={paramName}>
-                      <TableCell className="font-medium">
-                        {param.name || <span className="text-muted-foreground italic">unnamed</span>}
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{param.type}</Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Input
-                          type="text"
-                          placeholder={`Enter ${param.type} value`}
-                          value={paramValues[paramName] || ''}
-                          onChange={(e) => handleParamChange(paramName, e.target.value)}
-                          className="max-w-md"
-                        />
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
+            <div className="space-y-5">
+              {reducer.params.map((param, idx) => {
+                const paramName = param.name || `param_${idx}`;
+                const inputId = `param-${idx}`;
+                return (
+                  <div key={paramName} className="space-y-2">
+                    <Label htmlFor={inputId} className="flex items-center gap-2">
+                      {param.name || <span className="text-muted-foreground italic">unnamed</span>}
+                      <Badge variant="outline" className="font-mono font-normal">{param.type}</Badge>
+                    </Label>
+                    <div className="max-w-2xl">
+                      <ReducerArgInput
+                        id={inputId}
+                        type={param.algebraicType}
+                        typespace={typespace}
+                        value={paramForms[idx]}
+                        onChange={(value) => handleParamChange(paramName, value)}
+                        disabled={isExecuting}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           )}
         </CardContent>
       </Card>
@@ -232,8 +501,8 @@ export default function ReducerPage() {
       {!reducer.isLifecycle && (
         <div className="flex items-center gap-4">
           <Button
-            onClick={handleExecute}
-            disabled={isExecuting || (!isFormValid && reducer.params.length > 0)}
+            onClick={() => execute(args)}
+            disabled={isExecuting || !canCall || argsError !== null}
             size="lg"
           >
             {isExecuting ? (
@@ -248,9 +517,37 @@ export default function ReducerPage() {
               </>
             )}
           </Button>
-          {!isFormValid && reducer.params.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="lg" disabled={isExecuting}>
+                <Camera className="mr-2 h-4 w-4" />
+                {snapshotTables.length > 0 ? `Snapshot ${snapshotTables.length} table${snapshotTables.length === 1 ? '' : 's'}` : 'Snapshot tables'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="max-h-96 w-64 overflow-y-auto">
+              <DropdownMenuLabel>Show rows changed in</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {tableNames.map((name) => (
+                <DropdownMenuCheckboxItem
+                  key={name}
+                  checked={snapshotTables.includes(name)}
+                  disabled={!snapshotTables.includes(name) && snapshotTables.length >= MAX_SNAPSHOT_TABLES}
+                  onCheckedChange={() => toggleSnapshotTable(name)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  <span className="truncate font-mono text-xs">{name}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {user && !canCall ? (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4" />
+              Requires the {minimumRole} role (you are signed in as {user.role})
+            </p>
+          ) : argsError && (
             <p className="text-sm text-muted-foreground">
-              Please fill in all parameters
+              {argsError}
             </p>
           )}
         </div>
@@ -267,15 +564,82 @@ export default function ReducerPage() {
           <AlertDescription>
             <div className="space-y-2">
               <p className="font-medium">{executionResult.message}</p>
-              {executionResult.data && (
+              {executionResult.data?.result !== undefined && executionResult.data.result !== '' && (
                 <pre className="mt-2 rounded bg-muted p-2 text-xs overflow-auto">
-                  {JSON.stringify(executionResult.data, null, 2)}
+                  {toDisplayJson(executionResult.data.result, 2)}
                 </pre>
               )}
+              {executionResult.data && (
+                <p className="text-xs text-muted-foreground">
+                  {executionResult.data.durationMs} ms
+                  {executionResult.data.energyUsed !== null && ` · energy used: ${executionResult.data.energyUsed}`}
+                  {executionResult.data.executionMicros !== null && ` · execution: ${executionResult.data.executionMicros} µs`}
+                </p>
+              )}
+              {executionResult.data?.changes && <TableChanges changes={executionResult.data.changes} />}
             </div>
           </AlertDescription>
         </Alert>
       )}
+
+      {/* Call History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recent Calls
+          </CardTitle>
+          <CardDescription>Calls to this reducer made through the portal. Replay loads a call&apos;s arguments into the form.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isHistoryLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calls recorded yet.</p>
+          ) : (
+            <ReducerCallHistory entries={history} onReplay={(entry) => replay(reducer, entry)} />
+          )}
+        </CardContent>
+      </Card>
+
+      <PresetVariablesDialog
+        preset={pendingPreset}
+        onCancel={() => setPendingPreset(null)}
+        onRun={(values) => {
+          if (pendingPreset) execute(pendingPreset.args, values);
+          setPendingPreset(null);
+        }}
+      />
+
+      <ReducerPresetDialog
+        open={!!presetTarget}
+        onOpenChange={(open) => !open && setPresetTarget(null)}
+        reducer={reducer.name}
+        preset={presetTarget?.preset}
+        args={presetTarget?.args ?? []}
+        onSubmit={handleSavePreset}
+      />
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete preset</DialogTitle>
+            <DialogDescription>
+              <span className="font-medium">{deleteTarget?.name}</span> will be removed
+              {deleteTarget?.visibility === 'team' ? ' for everyone' : ''}. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={deletePreset.isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeletePreset} disabled={deletePreset.isPending}>
+              {deletePreset.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,98 @@
+/**
+ * Reducer calls page
+ * Recent reducer calls across every reducer; admins see everyone's, others their own
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ReducerCallHistory } from '@/components/reducer-call-history';
+import { useReducerHistory } from '@/hooks/use-reducer-history';
+import { useCurrentUser } from '@/hooks/use-users';
+import { AlertCircle, History, Loader2, RefreshCw } from 'lucide-react';
+
+// Radix Select items can't have an empty value
+const ALL = '__all__';
+
+export default function ReducerCallsPage() {
+  const router = useRouter();
+  const { can } = useCurrentUser();
+  const { data, isLoading, isFetching, error, refetch } = useReducerHistory();
+  const [reducer, setReducer] = useState(ALL);
+
+  const entries = data?.entries ?? [];
+  const reducerNames = [...new Set(entries.map((entry) => entry.reducer))].sort();
+  const visible = reducer === ALL ? entries : entries.filter((entry) => entry.reducer === reducer);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <History className="h-6 w-6" />
+            <h1 className="text-3xl font-bold">Reducer Calls</h1>
+          </div>
+          <p className="text-muted-foreground">
+            {can('audit:read')
+              ? 'Reducer calls made through the portal by every user'
+              : 'Reducer calls you made through the portal'}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={isFetching ? 'mr-2 h-4 w-4 animate-spin' : 'mr-2 h-4 w-4'} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>History</CardTitle>
+            <CardDescription>Expand a call to see its arguments and the rows it changed; Replay opens it on the reducer page.</CardDescription>
+          </div>
+          <Select value={reducer} onValueChange={setReducer}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All reducers</SelectItem>
+              {reducerNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading calls...
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error instanceof Error ? error.message : String(error)}</AlertDescription>
+            </Alert>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calls recorded yet.</p>
+          ) : (
+            <ReducerCallHistory
+              entries={visible}
+              showReducer
+              onReplay={(entry) =>
+                router.push(`/reducers/${encodeURIComponent(entry.reducer)}?replay=${encodeURIComponent(entry.id)}`)
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,14 +5,20 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Settings as SettingsIcon, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ActiveSessions } from '@/components/active-sessions';
+import { Settings as SettingsIcon, Save, Users } from 'lucide-react';
+import { ROLE_DESCRIPTIONS } from '@/lib/permissions';
+import { useCurrentUser } from '@/hooks/use-users';
 import { toast } from 'sonner';
 
 export default function SettingsPage() {
+  const { user, can } = useCurrentUser();
   const [settings, setSettings] = useState({
     uri: process.env.NEXT_PUBLIC_SPACETIME_URI || '',
     module: process.env.NEXT_PUBLIC_SPACETIME_MODULE || '',
@@ -122,6 +128,45 @@ export default function SettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Account */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Account</CardTitle>
+              <CardDescription>
+                {user ? (
+                  <>
+                    Signed in as <span className="font-medium">{user.username}</span>
+                  </>
+                ) : (
+                  'Loading account...'
+                )}
+              </CardDescription>
+            </div>
+            {can('users:manage') && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/settings/users">
+                  <Users className="mr-2 h-4 w-4" />
+                  Manage Users
+                </Link>
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        {user && (
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="capitalize">{user.role}</Badge>
+              <span className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[user.role]}</span>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Sessions */}
+      <ActiveSessions />
     </div>
   );
 }
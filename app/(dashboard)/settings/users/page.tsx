@@ -0,0 +1,263 @@
+/**
+ * Users page
+ * Manage portal accounts and their roles
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { UserDialog, type UserDialogValues } from '@/components/user-dialog';
+import { ArrowLeft, KeyRound, RefreshCw, Trash2, UserPlus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { ROLES, ROLE_DESCRIPTIONS, canAssignRole, isRole } from '@/lib/permissions';
+import { useCreateUser, useCurrentUser, useDeleteUser, useUpdateUser, useUsers } from '@/hooks/use-users';
+import type { PortalUser } from '@/types/auth';
+
+export default function UsersPage() {
+  const { user: currentUser, can, isLoading: isUserLoading } = useCurrentUser();
+  const canManage = can('users:manage');
+  const { data, isLoading, error } = useUsers(canManage);
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const deleteUser = useDeleteUser();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [passwordUser, setPasswordUser] = useState<PortalUser | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PortalUser | null>(null);
+
+  const users = data?.users ?? [];
+  const assignableRoles = currentUser ? ROLES.filter((role) => canAssignRole(currentUser.role, role)) : [];
+  const canEdit = (user: PortalUser) =>
+    !!currentUser && user.id !== currentUser.id && canAssignRole(currentUser.role, user.role);
+
+  const handleSubmit = async (values: UserDialogValues) => {
+    if (passwordUser) {
+      await updateUser.mutateAsync({ id: passwordUser.id, password: values.password });
+      toast.success(`Password updated for ${passwordUser.username}`);
+      return;
+    }
+    const { user } = await createUser.mutateAsync({
+      username: values.username,
+      password: values.password,
+      role: values.role,
+      name: values.name || undefined,
+      email: values.email || undefined,
+    });
+    toast.success(`Created ${user.username}`);
+  };
+
+  const handleRoleChange = async (user: PortalUser, role: string) => {
+    if (!isRole(role) || role === user.role) return;
+    try {
+      await updateUser.mutateAsync({ id: user.id, role });
+      toast.success(`${user.username} is now ${role === 'admin' || role === 'owner' ? 'an' : 'a'} ${role}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteUser.mutateAsync(deleteTarget.id);
+      toast.success(`Deleted ${deleteTarget.username}`);
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete user');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <Link
+            href="/settings"
+            className="mb-2 inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Settings
+          </Link>
+          <div className="flex items-center gap-2">
+            <Users className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-3xl font-bold">Users</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Accounts that can sign in to the portal and what each role may do
+          </p>
+        </div>
+        {canManage && (
+          <Button
+            onClick={() => {
+              setPasswordUser(null);
+              setDialogOpen(true);
+            }}
+          >
+            <UserPlus className="mr-2 h-4 w-4" />
+            Add User
+          </Button>
+        )}
+      </div>
+
+      {/* Roles */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Roles</CardTitle>
+          <CardDescription>Each role includes everything the roles above it can do.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-4">
+            {ROLES.map((role) => (
+              <div key={role} className="rounded-md border p-3">
+                <div className="font-medium capitalize">{role}</div>
+                <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Accounts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>
+            Role changes apply to the user&apos;s next request; deleting a user signs them out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isUserLoading || (canManage && isLoading) ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Loading users...
+            </div>
+          ) : !canManage ? (
+            <p className="text-sm text-muted-foreground">
+              Only admins and owners can manage users.
+            </p>
+          ) : error ? (
+            <p className="text-sm text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load users'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="w-40">Role</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{user.username}</span>
+                        {user.id === currentUser?.id && <Badge className="text-xs">You</Badge>}
+                      </div>
+                      {user.name !== user.username && (
+                        <div className="text-xs text-muted-foreground">{user.name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{user.email}</TableCell>
+                    <TableCell>
+                      {canEdit(user) ? (
+                        <Select value={user.role} onValueChange={(role) => handleRoleChange(user, role)}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                <span className="capitalize">{role}</span>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="capitalize">{user.role}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{new Date(user.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {canEdit(user) && (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Set password"
+                            onClick={() => {
+                              setPasswordUser(user);
+                              setDialogOpen(true);
+                            }}
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete user"
+                            onClick={() => setDeleteTarget(user)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <UserDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        user={passwordUser}
+        roles={assignableRoles}
+        onSubmit={handleSubmit}
+      />
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete user</DialogTitle>
+            <DialogDescription>
+              <span className="font-medium">{deleteTarget?.username}</span> will be signed out and can no
+              longer sign in. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={deleteUser.isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleteUser.isPending}>
+              {deleteUser.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+/**
+ * SQL Console page
+ * Multi-tab SQL editor with schema-aware completion and per-user query history
+ */
+
+'use client';
+
+import { use, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SqlEditor } from '@/components/sql-editor';
+import { SavedQueryDialog } from '@/components/saved-query-dialog';
+import { QueryParamsDialog } from '@/components/query-params-dialog';
+import { ExportMenu } from '@/components/export-menu';
+import {
+  AlertCircle,
+  BookMarked,
+  FilePlus2,
+  History,
+  Pencil,
+  Pin,
+  PinOff,
+  Play,
+  Plus,
+  RefreshCw,
+  Save,
+  Terminal,
+  Trash2,
+  Users,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatCellValue } from '@/lib/spacetime/column-values';
+import { queryPlaceholders } from '@/lib/spacetime/sql';
+import { isReadOnlySql, selectTable } from '@/lib/spacetime/sql-parser';
+import { canEditSavedQuery } from '@/lib/permissions';
+import { useTables } from '@/hooks/use-tables';
+import { useCurrentUser } from '@/hooks/use-users';
+import {
+  CONSOLE_MAX_ROWS,
+  useClearSqlHistory,
+  useDeleteSqlHistory,
+  usePinSqlHistory,
+  useRunSql,
+  useSqlHistory,
+  useSqlTabStore,
+} from '@/hooks/use-sql-console';
+import {
+  useCreateSavedQuery,
+  useDeleteSavedQuery,
+  useSavedQueries,
+  useUpdateSavedQuery,
+} from '@/hooks/use-saved-queries';
+import type { QueryResponse, SavedQuery, SavedQueryInput, SqlHistoryEntry, SqlParams, StatementResult } from '@/types/api';
+
+interface TabRun {
+  sql: string;
+  running: boolean;
+  durationMs?: number;
+  response?: QueryResponse;
+  error?: string;
+}
+
+interface SqlConsolePageProps {
+  // ?query=<id> opens and runs a saved query
+  searchParams: Promise<{
+    query?: string;
+  }>;
+}
+
+export default function SqlConsolePage({ searchParams }: SqlConsolePageProps) {
+  const { query: queryParam } = use(searchParams);
+  const router = useRouter();
+  const { user, can } = useCurrentUser();
+  const { data: tablesData } = useTables();
+  const { tabs, activeId, addTab, closeTab, updateTab, setActive } = useSqlTabStore();
+  const runSql = useRunSql();
+  const { data: historyData, isLoading: isHistoryLoading } = useSqlHistory();
+  const pinHistory = usePinSqlHistory();
+  const deleteHistory = useDeleteSqlHistory();
+  const clearHistory = useClearSqlHistory();
+  const { data: savedData } = useSavedQueries();
+  const createSavedQuery = useCreateSavedQuery();
+  const updateSavedQuery = useUpdateSavedQuery();
+  const deleteSavedQuery = useDeleteSavedQuery();
+
+  const [runs, setRuns] = useState<Record<string, TabRun>>({});
+  const [renaming, setRenaming] = useState<string | null>(null);
+  // SQL waiting for placeholder values before it runs
+  const [pendingRun, setPendingRun] = useState<{ tabId: string; sql: string; title?: string } | null>(null);
+  const [saveTarget, setSaveTarget] = useState<{ query: SavedQuery | null; sql: string; tabId?: string } | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<SavedQuery | null>(null);
+  const [savedFilter, setSavedFilter] = useState('');
+  const openedQuery = useRef<string | null>(null);
+
+  const activeTab = tabs.find((tab) => tab.id === activeId) ?? tabs[0];
+  const activeRun = runs[activeTab.id];
+  const tables = tablesData?.tables ?? [];
+  const history = historyData?.entries ?? [];
+  const savedQueries = savedData?.queries ?? [];
+  const activeSavedQuery = savedQueries.find((query) => query.id === activeTab.savedQueryId);
+  const filterText = savedFilter.trim().toLowerCase();
+  const visibleSavedQueries = savedQueries.filter(
+    (query) =>
+      !filterText ||
+      query.name.toLowerCase().includes(filterText) ||
+      query.tags.some((tag) => tag.includes(filterText))
+  );
+
+  const execute = async (tabId: string, sql: string, params?: SqlParams) => {
+    if (!sql.trim()) return;
+    const started = Date.now();
+    setRuns((prev) => ({ ...prev, [tabId]: { sql, running: true } }));
+    try {
+      const response = await runSql.mutateAsync({ sql, params });
+      setRuns((prev) => ({ ...prev, [tabId]: { sql, running: false, response, durationMs: Date.now() - started } }));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Query failed';
+      setRuns((prev) => ({ ...prev, [tabId]: { sql, running: false, error, durationMs: Date.now() - started } }));
+    }
+  };
+
+  // Queries with {{name}} placeholders ask for their values first
+  const requestRun = (tabId: string, sql: string, title?: string) => {
+    if (queryPlaceholders(sql).length > 0) {
+      setPendingRun({ tabId, sql, title });
+    } else {
+      execute(tabId, sql);
+    }
+  };
+
+  const rerun = (entry: SqlHistoryEntry) => {
+    updateTab(activeTab.id, { sql: entry.sql });
+    requestRun(activeTab.id, entry.sql);
+  };
+
+  const openSavedQuery = (query: SavedQuery, run: boolean) => {
+    const existing = tabs.find((tab) => tab.savedQueryId === query.id);
+    let tabId: string;
+    if (existing) {
+      setActive(existing.id);
+      tabId = existing.id;
+    } else {
+      tabId = addTab(query.sql, { title: query.name, savedQueryId: query.id });
+    }
+    if (run) requestRun(tabId, existing?.sql ?? query.sql, query.name);
+  };
+
+  // Links from the sidebar open the saved query once the list has loaded
+  useEffect(() => {
+    if (!queryParam) {
+      openedQuery.current = null;
+      return;
+    }
+    if (!savedData || openedQuery.current === queryParam) return;
+    openedQuery.current = queryParam;
+    const query = savedData.queries.find((saved) => saved.id === queryParam);
+    if (query) {
+      openSavedQuery(query, true);
+    } else {
+      toast.error('Saved query not found');
+    }
+    router.replace('/sql');
+  }, [queryParam, savedData]);
+
+  const handleSave = async (values: SavedQueryInput) => {
+    if (!saveTarget) return;
+    if (saveTarget.query) {
+      const query = await updateSavedQuery.mutateAsync({ id: saveTarget.query.id, ...values });
+      toast.success(`Saved ${query.name}`);
+      return;
+    }
+    const query = await createSavedQuery.mutateAsync(values);
+    if (saveTarget.tabId) updateTab(saveTarget.tabId, { title: query.name, savedQueryId: query.id });
+    toast.success(`Saved ${query.name}`);
+  };
+
+  const handleDeleteSaved = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteSavedQuery.mutateAsync(deleteTarget.id);
+      toast.success(`Deleted ${deleteTarget.name}`);
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete query');
+    }
+  };
+
+  const togglePin = async (entry: SqlHistoryEntry) => {
+    try {
+      await pinHistory.mutateAsync({ id: entry.id, pinned: !entry.pinned });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update history');
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      const { removed } = await clearHistory.mutateAsync();
+      toast.success(`Removed ${removed} history ${removed === 1 ? 'entry' : 'entries'}; pinned entries were kept`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to clear history');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <Terminal className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-3xl font-bold">SQL Console</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Run SQL against the module. Ctrl+Enter runs the selection, or the whole tab when nothing is selected.
+          </p>
+        </div>
+        {!can('data:write') && <Badge variant="outline">Read-only: SELECT statements only</Badge>}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_20rem]">
+        <div className="min-w-0 space-y-4">
+          {/* Tabs */}
+          <div className="flex items-center gap-1 overflow-x-auto border-b">
+            {tabs.map((tab) => (
+              <div
+                key={tab.id}
+                className={cn(
+                  'group flex shrink-0 items-center gap-1 rounded-t-md border border-b-0 px-3 py-1.5 text-sm',
+                  tab.id === activeTab.id ? 'bg-card font-medium' : 'border-transparent text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {renaming === tab.id ? (
+                  <Input
+                    autoFocus
+                    defaultValue={tab.title}
+                    className="h-6 w-32 px-1 text-sm"
+                    onBlur={(e) => {
+                      updateTab(tab.id, { title: e.target.value.trim() || tab.title });
+                      setRenaming(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setActive(tab.id)}
+                    onDoubleClick={() => setRenaming(tab.id)}
+                    title="Double-click to rename"
+                  >
+                    {tab.title}
+                  </button>
+                )}
+                {runs[tab.id]?.running && <RefreshCw className="h-3 w-3 animate-spin" />}
+                <button
+                  type="button"
+                  onClick={() => closeTab(tab.id)}
+                  className="rounded-sm opacity-50 hover:bg-muted hover:opacity-100"
+                  title="Close tab"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => addTab()} title="New tab">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Editor */}
+          <SqlEditor
+            key={activeTab.id}
+            value={activeTab.sql}
+            onChange={(sql) => updateTab(activeTab.id, { sql })}
+            onExecute={(sql) => requestRun(activeTab.id, sql)}
+            tables={tables}
+            className="h-56"
+          />
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => requestRun(activeTab.id, activeTab.sql)}
+              disabled={!activeTab.sql.trim() || activeRun?.running}
+            >
+              {activeRun?.running
+                ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                : <Play className="mr-2 h-4 w-4" />}
+              Run
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setSaveTarget({
+                  // Tabs opened from a query the user may edit save back to it
+                  query: activeSavedQuery && user && canEditSavedQuery(user, activeSavedQuery) ? activeSavedQuery : null,
+                  sql: activeTab.sql,
+                  tabId: activeTab.id,
+                })
+              }
+              disabled={!activeTab.sql.trim()}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Ctrl+Enter to run · Ctrl+Space for table and column suggestions
+            </span>
+          </div>
+
+          {/* Results */}
+          {activeRun && !activeRun.running && (
+            activeRun.error ? (
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                <pre className="whitespace-pre-wrap break-all font-mono text-xs">{activeRun.error}</pre>
+              </div>
+            ) : activeRun.response && (
+              <div className="space-y-4">
+                <p className="text-xs text-muted-foreground">
+                  {activeRun.response.results.length === 0
+                    ? 'Statement completed with no result set'
+                    : `${activeRun.response.results.length} ${activeRun.response.results.length === 1 ? 'result' : 'results'}`}
+                  {activeRun.durationMs !== undefined && ` in ${activeRun.durationMs} ms`}
+                </p>
+                {activeRun.response.results.map((result, index) => (
+                  <StatementResultCard
+                    key={index}
+                    index={index}
+                    result={result}
+                    sql={activeRun.response!.results.length === 1 ? activeRun.sql : undefined}
+                    showIndex={activeRun.response!.results.length > 1}
+                  />
+                ))}
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Saved queries and history */}
+        <div className="space-y-6">
+          {/* Saved Queries */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BookMarked className="h-4 w-4" />
+                Saved Queries
+              </CardTitle>
+              <CardDescription>Your private queries and queries shared with the team.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {savedQueries.length > 0 && (
+                <Input
+                  value={savedFilter}
+                  onChange={(e) => setSavedFilter(e.target.value)}
+                  placeholder="Filter by name or tag..."
+                  className="h-8"
+                />
+              )}
+              <div className="max-h-[40vh] space-y-2 overflow-y-auto">
+                {savedQueries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Save a tab&apos;s SQL to reuse it later.</p>
+                ) : visibleSavedQueries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No saved queries match.</p>
+                ) : (
+                  visibleSavedQueries.map((query) => (
+                    <div key={query.id} className="rounded-md border p-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-1 text-sm font-medium">
+                            <span className="truncate">{query.name}</span>
+                            {query.visibility === 'team' && (
+                              <Users className="h-3 w-3 shrink-0 text-muted-foreground" aria-label="Shared with the team" />
+                            )}
+                          </div>
+                          {query.description && (
+                            <p className="line-clamp-2 text-xs text-muted-foreground">{query.description}</p>
+                          )}
+                        </div>
+                        <div className="flex shrink-0 gap-0.5">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Run"
+                            onClick={() => openSavedQuery(query, true)}
+                          >
+                            <Play className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Open in a tab"
+                            onClick={() => openSavedQuery(query, false)}
+                          >
+                            <FilePlus2 className="h-3 w-3" />
+                          </Button>
+                          {user && canEditSavedQuery(user, query) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title="Edit"
+                                onClick={() => setSaveTarget({ query, sql: query.sql })}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title="Delete"
+                                onClick={() => setDeleteTarget(query)}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="mt-1 flex flex-wrap items-center gap-1 text-[10px] text-muted-foreground">
+                        {query.ownerId !== user?.id && <span>by {query.ownerUsername}</span>}
+                        {query.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="px-1 py-0 text-[10px]">{tag}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* History */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  History
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleClearHistory}
+                  disabled={clearHistory.isPending || !history.some((entry) => !entry.pinned)}
+                >
+                  Clear
+                </Button>
+              </div>
+              <CardDescription>Your queries, newest first. Pinned queries are kept when clearing.</CardDescription>
+            </CardHeader>
+            <CardContent className="max-h-[70vh] space-y-2 overflow-y-auto">
+              {isHistoryLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                  Loading history...
+                </div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Queries you run appear here.</p>
+              ) : (
+                history.map((entry) => (
+                  <div key={entry.id} className="group rounded-md border p-2">
+                    <pre
+                      className="line-clamp-3 cursor-pointer whitespace-pre-wrap break-all font-mono text-xs"
+                      title="Open in the current tab"
+                      onClick={() => updateTab(activeTab.id, { sql: entry.sql })}
+                    >
+                      {entry.sql}
+                    </pre>
+                    <div className="mt-2 flex items-center justify-between gap-2">
+                      <div className="flex min-w-0 items-center gap-1 text-[10px] text-muted-foreground">
+                        {entry.pinned && <Pin className="h-3 w-3 shrink-0" />}
+                        <span className="truncate">{new Date(entry.executedAt).toLocaleString()}</span>
+                        <span>·</span>
+                        {entry.error ? (
+                          <span className="text-destructive" title={entry.error}>failed</span>
+                        ) : (
+                          <span>{entry.rowCount} {entry.rowCount === 1 ? 'row' : 'rows'}</span>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-0.5">
+                        <Button variant="ghost" size="icon" className="h-6 w-6" title="Run again" onClick={() => rerun(entry)}>
+                          <Play className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title="Open in new tab"
+                          onClick={() => addTab(entry.sql)}
+                        >
+                          <FilePlus2 className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title={entry.pinned ? 'Unpin' : 'Pin'}
+                          onClick={() => togglePin(entry)}
+                        >
+                          {entry.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title="Remove from history"
+                          onClick={() => deleteHistory.mutate(entry.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <QueryParamsDialog
+        sql={pendingRun?.sql ?? null}
+        title={pendingRun?.title}
+        onCancel={() => setPendingRun(null)}
+        onRun={(sql, params) => {
+          if (pendingRun) execute(pendingRun.tabId, sql, params);
+          setPendingRun(null);
+        }}
+      />
+
+      <SavedQueryDialog
+        open={!!saveTarget}
+        onOpenChange={(open) => !open && setSaveTarget(null)}
+        query={saveTarget?.query}
+        sql={saveTarget?.sql ?? ''}
+        onSubmit={handleSave}
+      />
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete saved query</DialogTitle>
+            <DialogDescription>
+              <span className="font-medium">{deleteTarget?.name}</span> will be removed
+              {deleteTarget?.visibility === 'team' ? ' for everyone' : ''}. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={deleteSavedQuery.isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteSaved} disabled={deleteSavedQuery.isPending}>
+              {deleteSavedQuery.isPending && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function StatementResultCard({
+  index,
+  result,
+  sql,
+  showIndex,
+}: {
+  index: number;
+  result: StatementResult;
+  // Set for a single-statement run, so the whole result can be exported
+  sql?: string;
+  showIndex: boolean;
+}) {
+  const exportable = !!sql && isReadOnlySql(sql);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-sm">
+            {showIndex ? `Statement ${index + 1}` : 'Result'}
+            <span className="ml-2 font-normal text-muted-foreground">
+              {result.totalRows.toLocaleString()} {result.totalRows === 1 ? 'row' : 'rows'}
+            </span>
+          </CardTitle>
+          {result.columns.length > 0 && (
+            <ExportMenu
+              columns={result.columns}
+              table={exportable ? selectTable(sql) : null}
+              sources={exportable ? [{ label: 'Full result', sql }] : []}
+              rows={{ label: `Rows shown (${result.rows.length.toLocaleString()})`, rows: result.rows }}
+            />
+          )}
+        </div>
+        {result.truncated && (
+          <CardDescription>
+            Showing the first {CONSOLE_MAX_ROWS.toLocaleString()} rows of {result.totalRows.toLocaleString()}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {result.columns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No columns returned.</p>
+        ) : (
+          <div className="max-h-[28rem] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {result.columns.map((col) => (
+                    <TableHead key={col.name} className="whitespace-nowrap">
+                      {col.name}
+                      <span className="ml-1 text-xs font-normal text-muted-foreground">
+                        {col.type}{col.nullable ? '?' : ''}
+                      </span>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {result.columns.map((col) => (
+                      <TableCell key={col.name} className="max-w-xs truncate font-mono text-xs">
+                        {formatCellValue(row[col.name], col.type)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,54 +4,166 @@
 
 'use client';
 
-import { use, useState, useEffect } from 'react';
+import { use, useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { useTable } from '@/hooks/use-tables';
-import { useTableData } from '@/hooks/use-table-data';
+import { fetchQueryPage, useInsertRow, useTableData, useTableRows, useUpdateRow } from '@/hooks/use-table-data';
+import { useGridLayout } from '@/hooks/use-grid-layout';
+import { useSubscription } from '@/hooks/use-subscription';
+import { useReducers } from '@/hooks/use-reducers';
+import { useTableReducer } from '@/hooks/use-table-reducers';
+import { useCurrentUser } from '@/hooks/use-users';
 import { QueryBuilder } from '@/components/query-builder';
+import { TableStructure } from '@/components/table-structure';
+import { DataGrid, DataGridColumnMenu } from '@/components/data-grid';
+import { ExportMenu } from '@/components/export-menu';
+import { RowEditDrawer } from '@/components/row-edit-drawer';
+import { RowInsertDialog } from '@/components/row-insert-dialog';
+import { ImportDialog } from '@/components/import-dialog';
+import { ColumnInput, type ColumnFormValue } from '@/components/column-input';
+import { columnInputKind, formatCellValue, fromInputValue, toInputValue } from '@/lib/spacetime/column-values';
+import {
+  formatOrderBy,
+  isSqlWritable,
+  parseOrderBy,
+  quoteIdentifier,
+  rowWhereParams,
+  type OrderTerm,
+} from '@/lib/spacetime/sql';
+import { parseSql, selectTable } from '@/lib/spacetime/sql-parser';
+import {
+  applyGridView,
+  gridViewFromParams,
+  gridViewToParams,
+  isGridViewEmpty,
+  type GridColumn,
+  type GridView,
+} from '@/lib/spacetime/grid-view';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { RefreshCw, AlertCircle, ChevronLeft, ChevronRight, Database, AlertTriangle, Filter, Zap, Trash2 } from 'lucide-react';
+import { RefreshCw, AlertCircle, ChevronLeft, Database, AlertTriangle, Filter, Zap, Trash2, Pencil, Plus, Copy, Search, Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { readWireJson, stringifyWire } from '@/lib/spacetime/json';
 import Link from 'next/link';
+import type { SqlParams } from '@/types/api';
 
 interface TablePageProps {
   params: Promise<{
     name: string;
   }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export default function TablePage({ params }: TablePageProps) {
+const FILTER_HELP = 'text contains · =value equals · min..max range · null / !null · "text" literal';
+
+export default function TablePage({ params, searchParams }: TablePageProps) {
   const resolvedParams = use(params);
   const tableName = resolvedParams.name;
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
+  const router = useRouter();
+  // Sort, filters and search live in the URL so a view can be shared
+  const view = gridViewFromParams(use(searchParams));
+  const viewParams = gridViewToParams(view).toString();
+  const [searchDraft, setSearchDraft] = useState(view.search ?? '');
+  const [filterDrafts, setFilterDrafts] = useState<Record<string, string>>(view.filters ?? {});
+  const [showFilters, setShowFilters] = useState(Object.keys(view.filters ?? {}).length > 0);
+  // Rows the grid is rendering, as [start, end)
+  const [range, setRange] = useState<[number, number]>([0, 0]);
   const [showQueryBuilder, setShowQueryBuilder] = useState(false);
-  const [customQuery, setCustomQuery] = useState<string | null>(null);
-  const [queryResults, setQueryResults] = useState<any>(null);
+  const [customQuery, setCustomQuery] = useState<{ sql: string; params?: SqlParams } | null>(null);
   const [isExecutingQuery, setIsExecutingQuery] = useState(false);
   const [hasUpdates, setHasUpdates] = useState(false);
-  const [autoRefresh, setAutoRefresh] = useState(false);
-  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [liveMode, setLiveMode] = useState(false);
+  // Selected rows by position in the current view
+  const [selectedRows, setSelectedRows] = useState<Map<number, Record<string, unknown>>>(new Map());
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [editingRow, setEditingRow] = useState<Record<string, unknown> | null>(null);
+  const [showInsertDialog, setShowInsertDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [cloneSource, setCloneSource] = useState<Record<string, unknown> | null>(null);
+  const [editingCell, setEditingCell] = useState<{
+    row: Record<string, unknown>;
+    column: string;
+    initial: ColumnFormValue;
+    value: ColumnFormValue;
+  } | null>(null);
+  // Mirrors editingCell so Enter, Escape and blur settle an edit exactly once
+  const editingCellRef = useRef(editingCell);
+  editingCellRef.current = editingCell;
   const maxRows = 10000; // Maximum rows to fetch from server
 
-  // Reset page when table or page size changes
+  // Positions change with the table and view, so selections don't carry over
+  useEffect(() => {
+    setSelectedRows(new Map());
+  }, [tableName, viewParams]);
+
+  // Follow the URL when the view changes outside the inputs (back/forward, Clear view)
   useEffect(() => {
-    setPage(1);
-  }, [tableName, pageSize]);
+    setSearchDraft(view.search ?? '');
+    setFilterDrafts(view.filters ?? {});
+  }, [viewParams]);
+
+  const { data: schemaData, isLoading: isSchemaLoading } = useTable(tableName);
+
+  // Check the view against the table's columns before asking the server for it
+  const viewError = useMemo(() => {
+    if (customQuery || !schemaData) return null;
+    const columns: GridColumn[] = schemaData.table.columns.map((col) => ({ name: col.name, type: col.dataType }));
+    try {
+      applyGridView([], columns, view);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }, [customQuery, schemaData, viewParams]);
+
+  // Live mode needs every row for the subscription to patch; otherwise pages come from the server's result cache
+  const paged = !liveMode || !!customQuery;
+  const { data: tableData, isLoading: isDataLoading, error: dataError, refetch } = useTableData(tableName, maxRows, !paged);
+  const {
+    data: pageData,
+    rowCount: pageRowCount,
+    getRow: getPageRow,
+    isLoading: isPageLoading,
+    error: pageError,
+    refresh: refreshPage,
+  } = useTableRows(tableName, {
+    sql: customQuery?.sql,
+    params: customQuery?.params,
+    range,
+    orderBy: view.orderBy,
+    filters: view.filters,
+    search: view.search,
+    enabled: paged && !viewError,
+  });
+  const error = paged ? pageError : dataError;
+
+  // Live data is sorted and filtered here; cached rows arrive already in view order
+  const liveRows = useMemo(() => {
+    if (paged || !tableData) return [];
+    try {
+      return applyGridView(tableData.rows, tableData.columns, view);
+    } catch {
+      return tableData.rows;
+    }
+  }, [paged, tableData, viewParams]);
+
+  const live = useSubscription(tableName, {
+    enabled: liveMode && !isDataLoading,
+    primaryKey: schemaData?.table.primaryKey,
+    maxRows: Math.min(maxRows, Number(process.env.NEXT_PUBLIC_MAX_LIVE_ROWS || 10000)),
+  });
 
-  // Auto-refresh: Poll for changes every 10 seconds when enabled
+  // Fall back to polling every 10 seconds when the subscription can't be established
   useEffect(() => {
-    if (!autoRefresh) return;
+    if (!liveMode || !live.failed) return;
 
     const interval = setInterval(() => {
       if (!customQuery && !isExecutingQuery) {
@@ -60,45 +172,109 @@ export default function TablePage({ params }: TablePageProps) {
     }, 10000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh, customQuery, isExecutingQuery]);
-
-  const { data: schemaData, isLoading: isSchemaLoading } = useTable(tableName);
-  const { data: tableData, isLoading: isDataLoading, error, refetch } = useTableData(tableName, maxRows);
-
-  const isLoading = isSchemaLoading || isDataLoading;
+  }, [liveMode, live.failed, customQuery, isExecutingQuery]);
+
+  const { data: reducersData } = useReducers();
+  const { can } = useCurrentUser();
+  // Viewers and operators get a read-only grid
+  const canWrite = can('data:write');
+  const [updateReducerName, setUpdateReducerName] = useTableReducer(tableName, 'update');
+  const updateReducer = reducersData?.reducers.find((r) => r.name === updateReducerName);
+  const updateRow = useUpdateRow(tableName, {
+    columns: schemaData?.table.columns ?? [],
+    primaryKey: schemaData?.table.primaryKey ?? [],
+    reducer: updateReducer,
+  });
+
+  const [insertReducerName, setInsertReducerName] = useTableReducer(tableName, 'insert');
+  const insertReducer = reducersData?.reducers.find((r) => r.name === insertReducerName);
+  const insertRow = useInsertRow(tableName, {
+    columns: schemaData?.table.columns ?? [],
+    reducer: insertReducer,
+  });
+
+  const isLoading = isSchemaLoading || (paged ? isPageLoading : isDataLoading);
+
+  // Use the cached result's rows in view, or every row in live mode
+  const displayData = paged ? pageData : tableData;
+  const rowCount = paged ? pageRowCount : liveRows.length;
+  const getRow = (index: number) => (paged ? getPageRow(index) : liveRows[index]);
+  const layout = useGridLayout(
+    tableName,
+    (displayData?.columns ?? schemaData?.table.columns ?? []).map((col) => col.name),
+    schemaData?.table.primaryKey
+  );
 
-  // Use custom query results if available, otherwise use default table data
-  const displayData = queryResults || tableData;
+  // Reload after a write; the server drops its cached results when data changes
+  const reloadData = () => (paged ? refreshPage() : refetch());
 
   const handleRefresh = async () => {
     try {
-      // Clear custom query results and refetch default data
-      setQueryResults(null);
+      // Clear the custom query and re-run the default one
       setCustomQuery(null);
-      setPage(1);
-      await refetch();
+      await (liveMode ? refetch() : refreshPage());
       toast.success('Table data refreshed');
     } catch (error) {
       toast.error('Failed to refresh table data');
     }
   };
 
-  const handleAutoRefreshToggle = (enabled: boolean) => {
-    setAutoRefresh(enabled);
+  const updateView = (changes: Partial<GridView>) => {
+    const next = gridViewToParams({ ...view, ...changes }).toString();
+    if (next === viewParams) return;
+    router.replace(`/tables/${encodeURIComponent(tableName)}${next ? `?${next}` : ''}`, { scroll: false });
+  };
+
+  const sortTerms: OrderTerm[] = (() => {
+    try {
+      return parseOrderBy(view.orderBy ?? '');
+    } catch {
+      return [];
+    }
+  })();
+
+  // Click cycles a column through ascending, descending and unsorted; Shift+click keeps the other sort columns
+  const handleSort = (column: string, keepOthers: boolean) => {
+    const current = sortTerms.find((term) => term.column === column);
+    const next: OrderTerm | null = !current
+      ? { column, descending: false }
+      : !current.descending
+        ? { column, descending: true }
+        : null;
+
+    let terms: OrderTerm[];
+    if (!keepOthers) {
+      terms = next ? [next] : [];
+    } else if (current) {
+      terms = next
+        ? sortTerms.map((term) => (term.column === column ? next : term))
+        : sortTerms.filter((term) => term.column !== column);
+    } else {
+      terms = [...sortTerms, { column, descending: false }];
+    }
+    updateView({ orderBy: formatOrderBy(terms) || undefined });
+  };
+
+  const applyFilters = () => updateView({ filters: filterDrafts });
+  const applySearch = () => updateView({ search: searchDraft || undefined });
+  const clearView = () => updateView({ orderBy: undefined, filters: {}, search: undefined });
+
+  const handleLiveModeToggle = (enabled: boolean) => {
+    setLiveMode(enabled);
     if (enabled) {
-      toast.success('Auto-refresh enabled', {
-        description: 'Table will refresh every 10 seconds'
+      toast.success('Live updates enabled', {
+        description: 'Subscribed to table changes over WebSocket'
       });
     } else {
-      toast.info('Auto-refresh disabled');
+      toast.info('Live updates disabled');
     }
   };
 
-  const handleExecuteQuery = async (sql: string) => {
+  const handleExecuteQuery = async (sql: string, params?: SqlParams) => {
     setIsExecutingQuery(true);
     
     try {
-      const isDeleteQuery = sql.trim().toLowerCase().startsWith('delete');
+      const isDeleteQuery = parseSql(sql)[0]?.kind === 'delete';
       
       if (isDeleteQuery) {
         // Handle DELETE query
@@ -107,7 +283,7 @@ export default function TablePage({ params }: TablePageProps) {
         const response = await fetch('/api/sql/query', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sql, maxRows }),
+          body: stringifyWire({ sql, params, maxRows }),
         });
 
         if (!response.ok) {
@@ -115,38 +291,24 @@ export default function TablePage({ params }: TablePageProps) {
           throw new Error(errorData.error || 'Delete operation failed');
         }
 
-        const result = await response.json();
+        await readWireJson(response);
         
         toast.success('Rows deleted successfully!', {
           description: 'Data has been removed from the table'
         });
 
         // Refresh the table data
-        await refetch();
-        setQueryResults(null);
         setCustomQuery(null);
+        await reloadData();
       } else {
-        // Handle SELECT query
-        setCustomQuery(sql);
+        // Handle SELECT query: run it into the server cache, then scroll through it
         toast.info('Executing custom query...');
         
-        const response = await fetch('/api/sql/query', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sql, maxRows }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || 'Query failed');
-        }
-
-        const results = await response.json();
-        setQueryResults(results);
-        setPage(1); // Reset to first page
+        const results = await fetchQueryPage({ sql, params, page: 1, pageSize: 1, refresh: true });
+        setCustomQuery({ sql, params });
         
         toast.success(`Query executed successfully!`, {
-          description: `${results.rows?.length || 0} rows returned`
+          description: `${results.totalRows.toLocaleString()} rows returned`
         });
       }
     } catch (error) {
@@ -158,21 +320,89 @@ export default function TablePage({ params }: TablePageProps) {
     }
   };
 
-  const handleSelectRow = (index: number) => {
-    const newSelected = new Set(selectedRows);
+  const handleSaveRow = (original: Record<string, unknown>, changes: Record<string, unknown>) => {
+    updateRow.mutate(
+      { original, changes },
+      {
+        onSuccess: () => {
+          toast.success('Row updated', {
+            description: updateReducer ? `Saved via ${updateReducer.name}` : Object.keys(changes).join(', '),
+          });
+        },
+        onError: (error) => {
+          toast.error('Failed to update row', {
+            description: error instanceof Error ? error.message : String(error),
+          });
+        },
+      }
+    );
+  };
+
+  const handleInsertRow = async (values: Record<string, unknown>) => {
+    await insertRow.mutateAsync(values);
+    toast.success('Row inserted', {
+      description: insertReducer ? `Inserted via ${insertReducer.name}` : `Added to ${tableName}`,
+    });
+  };
+
+  const openInsertDialog = (source: Record<string, unknown> | null) => {
+    setCloneSource(source);
+    setShowInsertDialog(true);
+  };
+
+  // Double-click editing: simple types edit in place, structured values open the drawer
+  const handleCellDoubleClick = (row: Record<string, unknown>, columnName: string) => {
+    const column = schemaData?.table.columns.find((col) => col.name === columnName);
+    if (!column || !canWrite || customQuery || schemaData?.table.primaryKey.includes(columnName)) return;
+
+    if (columnInputKind(column.dataType) === 'json' || (!updateReducer && !isSqlWritable(column))) {
+      setEditingRow(row);
+      return;
+    }
+
+    const value = row[columnName];
+    const initial = value === null || value === undefined ? null : toInputValue(column, value);
+    setEditingCell({ row, column: columnName, initial, value: initial });
+  };
+
+  const cancelCellEdit = () => {
+    editingCellRef.current = null;
+    setEditingCell(null);
+  };
+
+  const commitCellEdit = () => {
+    const edit = editingCellRef.current;
+    if (!edit) return;
+    cancelCellEdit();
+
+    const column = schemaData?.table.columns.find((col) => col.name === edit.column);
+    if (!column || edit.value === edit.initial) return;
+
+    try {
+      handleSaveRow(edit.row, { [column.name]: fromInputValue(column, edit.value) });
+    } catch (error) {
+      toast.error('Invalid value', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleSelectRow = (index: number, row: Record<string, unknown>) => {
+    const newSelected = new Map(selectedRows);
     if (newSelected.has(index)) {
       newSelected.delete(index);
     } else {
-      newSelected.add(index);
+      newSelected.set(index, row);
     }
     setSelectedRows(newSelected);
   };
 
-  const handleSelectAll = () => {
-    if (selectedRows.size === rows.length) {
-      setSelectedRows(new Set());
+  // The header checkbox selects the rows currently in view
+  const handleSelectAll = (visibleRows: { index: number; row: Record<string, unknown> }[]) => {
+    if (visibleRows.length > 0 && visibleRows.every(({ index }) => selectedRows.has(index))) {
+      setSelectedRows(new Map());
     } else {
-      setSelectedRows(new Set(rows.map((_: any, idx: number) => idx)));
+      setSelectedRows(new Map([...selectedRows, ...visibleRows.map(({ index, row }) => [index, row] as const)]));
     }
   };
 
@@ -181,76 +411,19 @@ export default function TablePage({ params }: TablePageProps) {
     
     setIsDeleting(true);
     try {
-      // Get primary key column (if exists)
-      const primaryKeyCol = table?.columns.find(col => col.isPrimary);
-      
-      // Build DELETE queries for selected rows
-      const selectedRowsData = Array.from(selectedRows).map(idx => rows[idx]);
+      if (!table) throw new Error('Table schema is still loading');
+
+      // Build a parameterized DELETE for each selected row; the server binds the values by column type
+      const selectedRowsData = Array.from(selectedRows.values());
       
       const deletePromises = selectedRowsData.map(async (row) => {
-        let whereConditions: string[] = [];
-        
-        // Helper function to check if a column type is a simple/primitive type
-        const isSimpleType = (colType: string): boolean => {
-          const type = colType.toLowerCase();
-          // Exclude complex SpacetimeDB types that can't be used in WHERE clauses
-          const complexTypes = ['timestamp', 'identity', 'duration', 'struct', 'enum', 'complex'];
-          return !complexTypes.some(complex => type.includes(complex));
-        };
-        
-        if (primaryKeyCol) {
-          // Use primary key if available - but check if it's a simple type
-          const pkType = primaryKeyCol.dataType || '';
-          
-          if (isSimpleType(pkType)) {
-            const pkValue = row[primaryKeyCol.name];
-            const needsQuotes = pkType.toLowerCase().includes('string') || 
-                               pkType.toLowerCase().includes('text');
-            const value = needsQuotes ? `'${String(pkValue).replace(/'/g, "''")}'` : pkValue;
-            whereConditions.push(`${primaryKeyCol.name} = ${value}`);
-          }
-        }
-        
-        // If we don't have a WHERE condition yet (no PK or PK is complex type)
-        // Use simple columns to uniquely identify the row
-        if (whereConditions.length === 0) {
-          columns.forEach((col: any) => {
-            const colType = col.dataType || col.type || '';
-            
-            // Skip complex types that SpacetimeDB doesn't support in WHERE clauses
-            if (!isSimpleType(colType)) {
-              return;
-            }
-            
-            const colValue = row[col.name];
-            
-            if (colValue === null || colValue === undefined) {
-              whereConditions.push(`${col.name} IS NULL`);
-            } else {
-              const needsQuotes = colType.toLowerCase().includes('string') || 
-                                 colType.toLowerCase().includes('text');
-              
-              if (needsQuotes) {
-                const escapedValue = String(colValue).replace(/'/g, "''");
-                whereConditions.push(`${col.name} = '${escapedValue}'`);
-              } else {
-                whereConditions.push(`${col.name} = ${colValue}`);
-              }
-            }
-          });
-        }
-        
-        // Safety check: ensure we have at least one WHERE condition
-        if (whereConditions.length === 0) {
-          throw new Error('Cannot build WHERE clause: No simple columns available for deletion');
-        }
-        
-        const sql = `DELETE FROM ${tableName} WHERE ${whereConditions.join(' AND ')}`;
+        const { where, params } = rowWhereParams(table.columns, table.primaryKey, row);
+        const sql = `DELETE FROM ${quoteIdentifier(tableName)} WHERE ${where}`;
         
         const response = await fetch('/api/sql/query', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sql, maxRows: 1 }),
+          body: stringifyWire({ sql, params, maxRows: 1 }),
         });
 
         if (!response.ok) {
@@ -286,9 +459,9 @@ export default function TablePage({ params }: TablePageProps) {
       toast.success(`Successfully deleted ${selectedRows.size} row(s)`);
       
       // Clear selection and refresh
-      setSelectedRows(new Set());
+      setSelectedRows(new Map());
       setShowDeleteDialog(false);
-      await refetch();
+      await reloadData();
     } catch (error) {
       console.error('Bulk delete error:', error);
       
@@ -381,16 +554,12 @@ export default function TablePage({ params }: TablePageProps) {
   }
 
   const table = schemaData?.table;
-  const allRows = displayData?.rows || [];
-  const columns = displayData?.columns || table?.columns || [];
+  const columns: any[] = displayData?.columns || table?.columns || [];
   const totalRows = displayData?.totalRows || 0;
   const fetchedRows = displayData?.fetchedRows || 0;
   const truncated = displayData?.truncated || false;
-  
-  // Client-side pagination
-  const startIndex = (page - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-  const rows = allRows.slice(startIndex, endIndex);
+  const filterCount = Object.values(view.filters ?? {}).filter((expression) => expression.trim()).length;
+  const viewActive = !isGridViewEmpty(view);
 
   return (
     <div className="space-y-6">
@@ -422,7 +591,7 @@ export default function TablePage({ params }: TablePageProps) {
         </div>
         <div className="flex items-center gap-4">
           {/* Delete selected button */}
-          {selectedRows.size > 0 && (
+          {canWrite && selectedRows.size > 0 && (
             <Button 
               onClick={() => setShowDeleteDialog(true)} 
               variant="destructive"
@@ -433,17 +602,46 @@ export default function TablePage({ params }: TablePageProps) {
             </Button>
           )}
           
-          {/* Auto-refresh toggle */}
+          {table && canWrite && (
+            <Button onClick={() => openInsertDialog(null)} size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              Insert Row
+            </Button>
+          )}
+
+          {table && canWrite && (
+            <Button onClick={() => setShowImportDialog(true)} variant="outline" size="sm">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+
+          {/* Live updates toggle */}
           <div className="flex items-center gap-2 rounded-lg border px-3 py-2">
-            <Zap className={`h-4 w-4 ${autoRefresh ? 'text-green-600 animate-pulse' : 'text-muted-foreground'}`} />
-            <Label htmlFor="auto-refresh" className="cursor-pointer text-sm">
-              Auto-refresh (10s)
+            <Zap className={`h-4 w-4 ${live.isLive ? 'text-green-600 animate-pulse' : 'text-muted-foreground'}`} />
+            <Label htmlFor="live-mode" className="cursor-pointer text-sm">
+              Live
             </Label>
             <Switch
-              id="auto-refresh"
-              checked={autoRefresh}
-              onCheckedChange={handleAutoRefreshToggle}
+              id="live-mode"
+              checked={liveMode}
+              onCheckedChange={handleLiveModeToggle}
             />
+            {liveMode && (
+              <Badge
+                variant={live.isLive ? 'default' : live.failed ? 'destructive' : 'secondary'}
+                className="text-xs"
+                title={live.error}
+              >
+                {live.isLive
+                  ? 'Subscribed'
+                  : live.failed
+                    ? 'Polling (10s)'
+                    : live.status.retryCount > 0
+                      ? `Reconnecting (${live.status.retryCount})`
+                      : 'Connecting'}
+              </Badge>
+            )}
           </div>
           
           <Button onClick={handleRefresh} variant="outline" disabled={isLoading}>
@@ -459,226 +657,308 @@ export default function TablePage({ params }: TablePageProps) {
           <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-500" />
           <AlertDescription className="text-yellow-800 dark:text-yellow-200">
             <strong>Large Table Detected:</strong> This table has <strong>{totalRows.toLocaleString()}</strong> rows. 
-            Only the first <strong>{maxRows.toLocaleString()}</strong> rows are displayed to prevent performance issues.
-            {totalRows > maxRows && (
+            Only the first <strong>{fetchedRows.toLocaleString()}</strong> rows are displayed to prevent performance issues.
+            {totalRows > fetchedRows && (
               <span className="ml-1">
-                ({(totalRows - maxRows).toLocaleString()} rows hidden)
+                ({(totalRows - fetchedRows).toLocaleString()} rows hidden)
               </span>
             )}
           </AlertDescription>
         </Alert>
       )}
 
-      {/* Table Schema Info */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Schema</CardTitle>
-          <CardDescription>Column definitions and metadata</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
-            {table?.columns.map((col) => (
-              <div key={col.name} className="space-y-1">
-                <div className="flex items-center gap-2">
-                  <span className="font-medium">{col.name}</span>
-                  {col.isPrimary && (
-                    <Badge variant="default" className="text-xs">
-                      PK
-                    </Badge>
-                  )}
+      <Tabs defaultValue="data">
+        <TabsList>
+          <TabsTrigger value="data">Data</TabsTrigger>
+          <TabsTrigger value="structure">Structure</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="data" className="mt-4 space-y-6">
+          {/* Query Builder */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Query Builder</CardTitle>
+                  <CardDescription>
+                    Build custom queries using schema-based dropdowns
+                  </CardDescription>
                 </div>
-                <div className="flex items-center gap-2">
-                  <Badge variant="outline" className="text-xs">
-                    {col.dataType}
-                  </Badge>
-                  {col.nullable && (
-                    <span className="text-xs text-muted-foreground">nullable</span>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Query Builder */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Query Builder</CardTitle>
-              <CardDescription>
-                Build custom queries using schema-based dropdowns
-              </CardDescription>
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowQueryBuilder(!showQueryBuilder)}
-            >
-              <Filter className="mr-2 h-4 w-4" />
-              {showQueryBuilder ? 'Hide' : 'Show'} Query Builder
-            </Button>
-          </div>
-        </CardHeader>
-        {showQueryBuilder && (
-          <CardContent>
-            <QueryBuilder 
-              tableName={tableName} 
-              columns={columns} 
-              onExecute={handleExecuteQuery}
-            />
-          </CardContent>
-        )}
-      </Card>
-
-      {/* Data Table */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <div className="flex items-center gap-2">
-                <CardTitle>Data</CardTitle>
-                {customQuery && (
-                  <Badge variant="secondary" className="font-mono text-xs">
-                    Custom Query
-                  </Badge>
-                )}
-              </div>
-              <CardDescription>
-                {customQuery ? (
-                  <span className="flex items-center gap-2">
-                    Showing results from custom query
-                    <Button
-                      variant="link"
-                      size="sm"
-                      className="h-auto p-0 text-xs"
-                      onClick={handleRefresh}
-                    >
-                      Clear and show all data
-                    </Button>
-                  </span>
-                ) : (
-                  'Table data fetched via SQL queries'
-                )}
-              </CardDescription>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {rows.length === 0 && !isLoading ? (
-            <div className="flex flex-col items-center justify-center py-12 text-center">
-              <Database className="mb-4 h-12 w-12 text-muted-foreground" />
-              <h3 className="mb-2 text-lg font-medium">No data yet</h3>
-              <p className="mb-4 max-w-md text-sm text-muted-foreground">
-                This table doesn't have any rows yet.
-              </p>
-            </div>
-          ) : (
-            <>
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-12">
-                        <Checkbox
-                          checked={selectedRows.size === rows.length && rows.length > 0}
-                          onCheckedChange={handleSelectAll}
-                          aria-label="Select all rows"
-                        />
-                      </TableHead>
-                      <TableHead className="w-12">#</TableHead>
-                      {columns.map((col: any) => (
-                        <TableHead key={col.name || col.type}>
-                          <div className="flex flex-col">
-                            <span className="font-medium">{col.name}</span>
-                            <span className="text-xs text-muted-foreground">{col.dataType || col.type}</span>
-                          </div>
-                        </TableHead>
-                      ))}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {rows.map((row: any, index: number) => (
-                      <TableRow 
-                        key={index}
-                        className={selectedRows.has(index) ? 'bg-muted/50' : ''}
-                      >
-                        <TableCell>
-                          <Checkbox
-                            checked={selectedRows.has(index)}
-                            onCheckedChange={() => handleSelectRow(index)}
-                            aria-label={`Select row ${index + 1}`}
-                          />
-                        </TableCell>
-                        <TableCell className="text-muted-foreground">{(page - 1) * pageSize + index + 1}</TableCell>
-                        {columns.map((col: any) => (
-                          <TableCell key={col.name || col.type}>
-                            {formatCellValue(row[col.name])}
-                          </TableCell>
-                        ))}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowQueryBuilder(!showQueryBuilder)}
+                >
+                  <Filter className="mr-2 h-4 w-4" />
+                  {showQueryBuilder ? 'Hide' : 'Show'} Query Builder
+                </Button>
               </div>
-              
-              {/* Pagination */}
-              {fetchedRows > 0 && (
-                <div className="mt-4 flex items-center justify-between border-t pt-4">
-                  <div className="flex items-center gap-4">
-                    <p className="text-sm text-muted-foreground">
-                      Showing {(page - 1) * pageSize + 1} to {Math.min(page * pageSize, fetchedRows)} of {fetchedRows} {truncated && `(${totalRows} total)`} rows
-                    </p>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm text-muted-foreground">Rows per page:</span>
-                      <Select
-                        value={pageSize.toString()}
-                        onValueChange={(value: string) => setPageSize(Number(value))}
-                      >
-                        <SelectTrigger className="w-[70px] h-8">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="10">10</SelectItem>
-                          <SelectItem value="25">25</SelectItem>
-                          <SelectItem value="50">50</SelectItem>
-                          <SelectItem value="100">100</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+            </CardHeader>
+            {showQueryBuilder && (
+              <CardContent>
+                <QueryBuilder 
+                  tableName={tableName} 
+                  columns={columns} 
+                  onExecute={handleExecuteQuery}
+                />
+              </CardContent>
+            )}
+          </Card>
+
+          {/* Data Table */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <CardTitle>Data</CardTitle>
+                    {customQuery && (
+                      <Badge variant="secondary" className="font-mono text-xs">
+                        Custom Query
+                      </Badge>
+                    )}
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setPage(p => Math.max(1, p - 1))}
-                      disabled={page === 1}
-                    >
-                      <ChevronLeft className="h-4 w-4" />
-                      Previous
-                    </Button>
-                    <div className="flex items-center gap-2 px-2">
-                      <span className="text-sm text-muted-foreground">
-                        Page {page} of {Math.ceil(fetchedRows / pageSize)}
+                  <CardDescription>
+                    {viewError && (
+                      <span className="block text-xs text-destructive">
+                        {viewError}
                       </span>
-                    </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setPage(p => p + 1)}
-                      disabled={page * pageSize >= fetchedRows}
-                    >
-                      Next
-                      <ChevronRight className="h-4 w-4" />
-                    </Button>
+                    )}
+                    {live.failed && live.error && !customQuery && (
+                      <span className="block text-xs text-destructive">
+                        Live subscription unavailable: {live.error}
+                      </span>
+                    )}
+                    {customQuery ? (
+                      <span className="flex items-center gap-2">
+                        Showing results from custom query
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={handleRefresh}
+                        >
+                          Clear and show all data
+                        </Button>
+                      </span>
+                    ) : live.isLive ? (
+                      `Live via WebSocket subscription · last change ${live.info.lastUpdate?.toLocaleTimeString() ?? '—'}`
+                    ) : pageData && paged ? (
+                      `Paged from a server-side result cache · fetched ${new Date(pageData.cachedAt).toLocaleTimeString()}`
+                    ) : (
+                      'Table data fetched via SQL queries'
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="relative">
+                    <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      value={searchDraft}
+                      onChange={(e) => setSearchDraft(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && applySearch()}
+                      onBlur={applySearch}
+                      placeholder="Search all columns"
+                      className="h-9 w-56 pl-8"
+                      aria-label="Search all columns"
+                    />
                   </div>
+                  <Button
+                    variant={showFilters ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setShowFilters(!showFilters)}
+                  >
+                    <Filter className="mr-2 h-4 w-4" />
+                    Filters{filterCount > 0 && ` (${filterCount})`}
+                  </Button>
+                  <DataGridColumnMenu layout={layout} />
+                  <ExportMenu
+                    columns={displayData?.columns ?? []}
+                    table={customQuery ? selectTable(customQuery.sql) : tableName}
+                    sources={[
+                      ...(viewActive || customQuery
+                        ? [{ label: 'Current view', sql: customQuery?.sql ?? `SELECT * FROM ${quoteIdentifier(tableName)}`, params: customQuery?.params, view }]
+                        : []),
+                      { label: 'Entire table', sql: `SELECT * FROM ${quoteIdentifier(tableName)}` },
+                    ]}
+                    rows={{
+                      label: `Selected rows (${selectedRows.size})`,
+                      rows: [...selectedRows.entries()].sort(([a], [b]) => a - b).map(([, row]) => row),
+                    }}
+                    disabled={!displayData}
+                  />
+                  {viewActive && (
+                    <Button variant="ghost" size="sm" onClick={clearView}>
+                      <X className="mr-2 h-4 w-4" />
+                      Clear view
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {rowCount === 0 && !isLoading && !viewActive ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Database className="mb-4 h-12 w-12 text-muted-foreground" />
+                  <h3 className="mb-2 text-lg font-medium">No data yet</h3>
+                  <p className="mb-4 max-w-md text-sm text-muted-foreground">
+                    This table doesn't have any rows yet.
+                  </p>
                 </div>
+              ) : (
+                <>
+                  <DataGrid
+                    columns={columns.map((col: any) => ({
+                      name: col.name,
+                      type: col.dataType || col.type,
+                      nullable: col.nullable,
+                    }))}
+                    layout={layout}
+                    rowCount={rowCount}
+                    getRow={getRow}
+                    onRangeChange={(start, end) => setRange([start, end])}
+                    resetKey={`${viewParams}|${customQuery ? stringifyWire(customQuery) : ''}`}
+                    sortTerms={sortTerms}
+                    onSort={handleSort}
+                    renderFilter={
+                      showFilters
+                        ? (col) => (
+                            <Input
+                              value={filterDrafts[col.name] ?? ''}
+                              onChange={(e) => setFilterDrafts((drafts) => ({ ...drafts, [col.name]: e.target.value }))}
+                              onKeyDown={(e) => e.key === 'Enter' && applyFilters()}
+                              onBlur={applyFilters}
+                              placeholder="Filter…"
+                              title={FILTER_HELP}
+                              className="h-7 text-xs"
+                              aria-label={`Filter ${col.name}`}
+                            />
+                          )
+                        : undefined
+                    }
+                    selection={{
+                      isSelected: (index) => selectedRows.has(index),
+                      onToggle: handleSelectRow,
+                      onToggleAll: handleSelectAll,
+                    }}
+                    rowClassName={(row, index) => {
+                      const change = live.isLive && !customQuery ? live.changes.get(live.rowKey(row)) : undefined;
+                      return selectedRows.has(index)
+                        ? 'bg-muted/50'
+                        : change === 'inserted'
+                          ? 'bg-green-500/10 transition-colors'
+                          : change === 'updated'
+                            ? 'bg-yellow-500/10 transition-colors'
+                            : 'transition-colors hover:bg-muted/50';
+                    }}
+                    cellClassName={table && canWrite && !customQuery ? 'cursor-text' : undefined}
+                    onCellDoubleClick={(row, col) => handleCellDoubleClick(row, col.name)}
+                    renderCell={(row, col) => {
+                      const cellEdit = editingCell && editingCell.row === row && editingCell.column === col.name ? editingCell : null;
+                      const cellColumn = table?.columns.find((c) => c.name === col.name);
+                      return cellEdit && cellColumn ? (
+                        <ColumnInput
+                          column={cellColumn}
+                          value={cellEdit.value}
+                          onChange={(value) => setEditingCell({ ...cellEdit, value })}
+                          compact
+                          autoFocus
+                          onBlur={commitCellEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitCellEdit();
+                            if (e.key === 'Escape') cancelCellEdit();
+                          }}
+                        />
+                      ) : (
+                        formatCellValue(row[col.name], col.type)
+                      );
+                    }}
+                    renderRowActions={
+                      table && canWrite && !customQuery
+                        ? (row, index) => (
+                            <div className="flex">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setEditingRow(row)}
+                                aria-label={`Edit row ${index + 1}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openInsertDialog(row)}
+                                aria-label={`Clone row ${index + 1}`}
+                              >
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )
+                        : undefined
+                    }
+                    emptyMessage="No rows match the current filters and search."
+                  />
+                  <p className="mt-3 text-sm text-muted-foreground">
+                    {rowCount.toLocaleString()} {rowCount === 1 ? 'row' : 'rows'}
+                    {rowCount < fetchedRows && ` (filtered from ${fetchedRows.toLocaleString()})`}
+                    {truncated && ` · ${totalRows.toLocaleString()} in table`}
+                  </p>
+                </>
               )}
-            </>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="structure" className="mt-4">
+          {table ? (
+            <TableStructure table={table} zodSchema={schemaData?.zodSchema} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Schema not available for this table.</p>
           )}
-        </CardContent>
-      </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Row Edit Drawer */}
+      {table && (
+        <RowEditDrawer
+          table={table}
+          row={editingRow}
+          onOpenChange={(open) => !open && setEditingRow(null)}
+          onSave={handleSaveRow}
+          reducers={reducersData?.reducers ?? []}
+          updateReducer={updateReducerName}
+          onUpdateReducerChange={setUpdateReducerName}
+        />
+      )}
+
+      {/* Insert Row Dialog */}
+      {table && (
+        <RowInsertDialog
+          table={table}
+          open={showInsertDialog}
+          onOpenChange={setShowInsertDialog}
+          source={cloneSource}
+          onInsert={handleInsertRow}
+          reducers={reducersData?.reducers ?? []}
+          insertReducer={insertReducerName}
+          onInsertReducerChange={setInsertReducerName}
+        />
+      )}
+
+      {/* Import Dialog */}
+      {table && (
+        <ImportDialog
+          table={table}
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          reducers={reducersData?.reducers ?? []}
+          insertReducer={insertReducerName}
+          onInsertReducerChange={setInsertReducerName}
+        />
+      )}
 
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
@@ -721,45 +1001,3 @@ export default function TablePage({ params }: TablePageProps) {
     </div>
   );
 }
-
-function formatCellValue(value: unknown, columnName?: string): string {
-  if (value === null || value === undefined) {
-    return '—';
-  }
-
-  // Handle timestamps (microseconds since Unix epoch)
-  // SpacetimeDB returns timestamps as large integers (microseconds)
-  if (typeof value === 'number' && value > 1000000000000) {
-    try {
-      // Convert microseconds to milliseconds for JavaScript Date
-      const date = new Date(value / 1000);
-      
-      // Check if it's a valid date
-      if (!isNaN(date.getTime())) {
-        // Format as: "Jan 15, 2024, 3:45 PM"
-        return date.toLocaleString('en-US', {
-          month: 'short',
-          day: 'numeric',
-          year: 'numeric',
-          hour: 'numeric',
-          minute: '2-digit',
-          hour12: true
-        });
-      }
-    } catch (error) {
-      // If date parsing fails, fall through to default
-    }
-  }
-
-  // Handle objects
-  if (typeof value === 'object') {
-    return JSON.stringify(value);
-  }
-
-  // Handle booleans
-  if (typeof value === 'boolean') {
-    return value ? 'true' : 'false';
-  }
-
-  return String(value);
-}
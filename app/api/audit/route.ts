@@ -0,0 +1,115 @@
+/**
+ * API Route: Audit log
+ * GET /api/audit?username=&target=&action=&outcome=&from=&to=&limit=&offset=
+ * GET /api/audit?format=csv|ndjson&...  - export every matching entry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { iterateAudit, queryAudit } from '@/lib/audit';
+import type { AuditEntry, AuditFilter, AuditOutcome } from '@/types/audit';
+
+export const dynamic = 'force-dynamic';
+
+const OUTCOMES: AuditOutcome[] = ['success', 'denied', 'error'];
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'timestamp',
+  'username',
+  'role',
+  'action',
+  'target',
+  'outcome',
+  'durationMs',
+  'ip',
+  'details',
+];
+
+function parseFilter(searchParams: URLSearchParams): AuditFilter {
+  const get = (key: string) => searchParams.get(key) || undefined;
+  const outcome = get('outcome') as AuditOutcome | undefined;
+  const number = (key: string) => {
+    const value = Number(searchParams.get(key));
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return {
+    username: get('username'),
+    target: get('target'),
+    action: get('action'),
+    outcome: outcome && OUTCOMES.includes(outcome) ? outcome : undefined,
+    from: get('from'),
+    to: get('to'),
+    limit: number('limit'),
+    offset: number('offset'),
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream the export so large logs aren't built up in memory
+ */
+function exportResponse(filter: AuditFilter, format: 'csv' | 'ndjson'): Response {
+  const encoder = new TextEncoder();
+  const entries = iterateAudit(filter);
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\n`));
+      }
+    },
+    pull(controller) {
+      const next = entries.next();
+      if (next.done) {
+        controller.close();
+        return;
+      }
+      const line = format === 'csv'
+        ? CSV_COLUMNS.map((column) => csvCell(next.value[column])).join(',')
+        : JSON.stringify(next.value);
+      controller.enqueue(encoder.encode(`${line}\n`));
+    },
+  });
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="audit-${stamp}.${format === 'csv' ? 'csv' : 'jsonl'}"`,
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('audit:read');
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const filter = parseFilter(searchParams);
+    const format = searchParams.get('format');
+
+    if (format === 'csv' || format === 'ndjson') {
+      const { limit: _limit, offset: _offset, ...exportFilter } = filter;
+      return exportResponse(exportFilter, format);
+    }
+
+    return NextResponse.json(queryAudit(filter));
+  } catch (error) {
+    console.error('[Audit API] Failed to read audit log:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read audit log',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Route: Audit log settings
+ * GET /api/audit/settings  - current retention
+ * PUT /api/audit/settings  - change retention and prune older entries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { getAuditSettings, recordAudit, requestIp, updateAuditSettings } from '@/lib/audit';
+
+// Ten years; anything longer should use 0 (keep forever)
+const MAX_RETENTION_DAYS = 3650;
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('audit:read');
+    if (auth.error) return auth.error;
+
+    return NextResponse.json(getAuditSettings());
+  } catch (error) {
+    console.error('[Audit API] Failed to read settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read audit settings',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requirePermission('audit:configure');
+    if (auth.error) return auth.error;
+
+    const { retentionDays } = await request.json();
+    if (!Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > MAX_RETENTION_DAYS) {
+      return NextResponse.json(
+        {
+          error: 'Invalid retention',
+          details: `retentionDays must be a whole number from 0 to ${MAX_RETENTION_DAYS} (0 keeps entries forever)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const previous = getAuditSettings();
+    const settings = updateAuditSettings({ retentionDays });
+
+    recordAudit({
+      user: auth.user,
+      action: 'audit.settings',
+      target: 'retention',
+      outcome: 'success',
+      details: { from: previous.retentionDays, to: settings.retentionDays },
+      ip: requestIp(request),
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('[Audit API] Failed to update settings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update audit settings',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,11 +4,15 @@
  */
 
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
 import { httpClient } from '@/lib/spacetime/http-client';
 import { config } from '@/lib/config';
 
 export async function GET() {
   try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
     // Test connection by attempting to query tables
     const tables = await httpClient.getTables();
 
@@ -1,43 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, createSession, sessionCookieOptions } from '@/lib/session';
+import { hasUsers, verifyCredentials } from '@/lib/users';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { username, password } = body;
 
-    // Validate against environment variables
-    const validUsername = process.env.AUTH_USERNAME;
-    const validPassword = process.env.AUTH_PASSWORD;
-
-    if (!validUsername || !validPassword) {
+    // The first owner account is seeded from AUTH_USERNAME/AUTH_PASSWORD
+    if (!(await hasUsers())) {
       return NextResponse.json(
         { error: 'Authentication not configured' },
         { status: 500 }
       );
     }
 
-    if (username === validUsername && password === validPassword) {
-      // Create a simple session token
-      const sessionToken = Buffer.from(
-        JSON.stringify({
-          username,
-          timestamp: Date.now(),
-        })
-      ).toString('base64');
+    const user =
+      typeof username === 'string' && typeof password === 'string'
+        ? await verifyCredentials(username, password)
+        : null;
+
+    if (user) {
+      // Create a signed, server-side session
+      const { token } = await createSession(user, {
+        userAgent: request.headers.get('user-agent') || undefined,
+        ip: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined,
+      });
 
       const response = NextResponse.json(
-        { success: true, message: 'Login successful' },
+        { success: true, message: 'Login successful', role: user.role },
         { status: 200 }
       );
 
       // Set session cookie
-      response.cookies.set('admin-session', sessionToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7, // 7 days
-        path: '/',
-      });
+      response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
 
       return response;
     }
@@ -1,13 +1,32 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession, revokeSession, revokeUserSessions } from '@/lib/session';
+
+/**
+ * POST /api/logout
+ * Revokes the current session, or every session of the user with ?everywhere=true
+ */
+export async function POST(request: NextRequest) {
+  const everywhere = request.nextUrl.searchParams.get('everywhere') === 'true';
+  let revoked = 0;
+
+  try {
+    const session = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (session) {
+      revoked = everywhere
+        ? await revokeUserSessions(session.username)
+        : Number(await revokeSession(session.id));
+    }
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
 
-export async function POST() {
   const response = NextResponse.json(
-    { success: true, message: 'Logout successful' },
+    { success: true, message: 'Logout successful', revoked },
     { status: 200 }
   );
 
   // Clear session cookie
-  response.cookies.delete('admin-session');
+  response.cookies.delete(SESSION_COOKIE);
 
   return response;
 }
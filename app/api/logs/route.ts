@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
 
 const SPACETIME_HTTP_API = process.env.NEXT_PUBLIC_SPACETIME_HTTP_API!;
 const SPACETIME_MODULE = process.env.NEXT_PUBLIC_SPACETIME_MODULE!;
@@ -13,6 +14,9 @@ export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
     const numLines = searchParams.get('num_lines') || '200';
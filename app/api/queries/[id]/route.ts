@@ -0,0 +1,116 @@
+/**
+ * API Route: One saved query
+ * GET    /api/queries/[id] - fetch a visible query
+ * PATCH  /api/queries/[id] - edit name, description, SQL, tags or visibility
+ * DELETE /api/queries/[id] - remove the query
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { canEditSavedQuery } from '@/lib/permissions';
+import { deleteSavedQuery, getSavedQuery, updateSavedQuery } from '@/lib/saved-queries';
+import type { SavedQuery } from '@/types/api';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Query not found' }, { status: 404 });
+}
+
+function denied(details: string) {
+  return NextResponse.json({ error: 'Permission denied', details }, { status: 403 });
+}
+
+export async function GET(_request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const query = await getSavedQuery(auth.user, params.id);
+    if (!query) return notFound();
+
+    return NextResponse.json({ query });
+  } catch (error) {
+    console.error('[Queries API] Failed to fetch query:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch saved query',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const existing = await getSavedQuery(auth.user, params.id);
+    if (!existing) return notFound();
+    if (!canEditSavedQuery(auth.user, existing)) {
+      return denied('Only the owner or an admin can edit this query');
+    }
+
+    const { name, description, sql, tags, visibility } = await request.json();
+
+    let query: SavedQuery | null;
+    try {
+      query = await updateSavedQuery(auth.user, params.id, { name, description, sql, tags, visibility });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+    if (!query) return notFound();
+
+    return NextResponse.json({ query });
+  } catch (error) {
+    console.error('[Queries API] Failed to update query:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update saved query',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const existing = await getSavedQuery(auth.user, params.id);
+    if (!existing) return notFound();
+    if (!canEditSavedQuery(auth.user, existing)) {
+      return denied('Only the owner or an admin can delete this query');
+    }
+
+    if (!(await deleteSavedQuery(auth.user, params.id))) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Queries API] Failed to delete query:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete saved query',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * API Route: Saved queries
+ * GET  /api/queries - queries visible to the signed-in user
+ * POST /api/queries - save a new query
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { createSavedQuery, listSavedQueries } from '@/lib/saved-queries';
+import type { SavedQuery } from '@/types/api';
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    return NextResponse.json({ queries: await listSavedQueries(auth.user) });
+  } catch (error) {
+    console.error('[Queries API] Failed to list queries:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list saved queries',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+
+    let query: SavedQuery;
+    try {
+      query = await createSavedQuery(auth.user, body);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ query }, { status: 201 });
+  } catch (error) {
+    console.error('[Queries API] Failed to save query:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save query',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,38 @@
 /**
  * API Route: Call a SpacetimeDB Reducer
- * Executes a reducer with the given parameters via HTTP API
+ * Executes a reducer with the given parameters via HTTP API and records the call
+ * in the reducer history, with the rows it changed in any `snapshotTables`.
+ * Calls from presets have their `{{…}}` variables resolved before encoding.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/api-auth';
+import { canCallReducer, reducerRole } from '@/lib/permissions';
+import { recordAudit, requestIp } from '@/lib/audit';
+import { addReducerCall } from '@/lib/reducer-history';
+import { httpClient } from '@/lib/spacetime/http-client';
+import { resultCache } from '@/lib/spacetime/result-cache';
+import { diffSnapshots, snapshotTables, type TableSnapshot } from '@/lib/spacetime/table-changes';
+import { encodeValue, parseAlgebraicType, parseTypespace } from '@/lib/spacetime/sats';
+import { resolveVariables } from '@/lib/spacetime/reducer-args';
+import { parseJsonLossless, parseWire, stringifyJsonLossless, wireResponse } from '@/lib/spacetime/json';
+import type { ReducerCallRequest } from '@/types/api';
 
 const SPACETIME_HTTP_API = process.env.NEXT_PUBLIC_SPACETIME_HTTP_API!;
 const SPACETIME_MODULE = process.env.NEXT_PUBLIC_SPACETIME_MODULE!;
 const SPACETIME_AUTH_TOKEN = process.env.SPACETIME_AUTH_TOKEN;
 
+// Tables one call can snapshot
+const MAX_SNAPSHOT_TABLES = 10;
+
 export async function POST(request: NextRequest) {
   try {
-    const { reducer, params = [] } = await request.json();
+    const {
+      reducer,
+      params: rawParams = [],
+      snapshotTables: tableNames = [],
+      variables,
+    } = parseWire<Partial<ReducerCallRequest>>(await request.text());
 
     if (!reducer) {
       return NextResponse.json(
@@ -20,6 +41,125 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (
+      !Array.isArray(tableNames) ||
+      tableNames.some((name) => typeof name !== 'string') ||
+      tableNames.length > MAX_SNAPSHOT_TABLES
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Invalid snapshot tables',
+          details: `snapshotTables must be a list of at most ${MAX_SNAPSHOT_TABLES} table names`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const auth = await getCurrentUser();
+    if (!auth) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Encode arguments into SATS-JSON using the reducer's declared parameter types
+    const schema = await httpClient.getDatabaseSchema();
+    const reducerDef = (schema.reducers || []).find((r) => r.name === reducer);
+
+    if (!reducerDef) {
+      return NextResponse.json(
+        { error: `Reducer not found: ${reducer}` },
+        { status: 404 }
+      );
+    }
+
+    // Preset runs send `variables`; their `{{…}}` values are filled in now, at execution time
+    let params = rawParams;
+    if (variables !== undefined) {
+      try {
+        if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+          throw new Error('variables must be an object of names to values');
+        }
+        params = resolveVariables(rawParams, {
+          ...variables,
+          now: Date.now() * 1000,
+          'me.identity': httpClient.getCallerIdentity(),
+          'me.username': auth.user.username,
+        }) as unknown[];
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: 'Invalid reducer arguments',
+            details: error instanceof Error ? error.message : String(error),
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Check the portal role against reducer_metadata.required_role before
+    // proxying, since every call is made with the owner token
+    const requiredRole = await httpClient.getReducerRequiredRole(reducer, schema);
+    const auditAction = reducer === 'restore_backup' ? 'backup.restore' : 'reducer.call';
+    const historyFields = { reducer, args: params, userId: auth.user.id, username: auth.user.username };
+    if (!canCallReducer(auth.user.role, reducer, requiredRole)) {
+      const minimumRole = reducerRole(reducer, requiredRole);
+      recordAudit({
+        user: auth.user,
+        action: auditAction,
+        target: reducer,
+        outcome: 'denied',
+        details: { params, requiredRole, minimumRole },
+        ip: requestIp(request),
+      });
+      await addReducerCall({
+        ...historyFields,
+        status: 'denied',
+        durationMs: 0,
+        httpStatus: null,
+        error: `Requires the ${minimumRole} role`,
+        energyUsed: null,
+        executionMicros: null,
+        changes: null,
+      });
+      return NextResponse.json(
+        {
+          error: 'Permission denied',
+          details: `${reducer} requires the ${minimumRole} role (signed in as ${auth.user.role})`,
+          needsPermission: true,
+          requiredRole: minimumRole,
+        },
+        { status: 403 }
+      );
+    }
+
+    const typespace = parseTypespace(schema.typespace);
+    const paramDefs = reducerDef.params.elements;
+
+    if (!Array.isArray(params) || params.length !== paramDefs.length) {
+      return NextResponse.json(
+        {
+          error: 'Invalid reducer arguments',
+          details: `${reducer} expects ${paramDefs.length} argument(s)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let args: unknown[];
+    try {
+      args = paramDefs.map((param, idx) => {
+        const name = param.name && 'some' in param.name ? param.name.some : `param_${idx}`;
+        return encodeValue(parseAlgebraicType(param.algebraic_type), params[idx], typespace, name);
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid reducer arguments',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+
     // SpacetimeDB HTTP API endpoint for calling reducers
     // POST /database/{database}/call/{reducer_name}
     const url = `${SPACETIME_HTTP_API}/${SPACETIME_MODULE}/call/${reducer}`;
@@ -34,11 +174,20 @@ export async function POST(request: NextRequest) {
       headers['Authorization'] = `Bearer ${SPACETIME_AUTH_TOKEN}`;
     }
 
+    // Read before the clock starts so snapshots don't count towards the call's duration
+    const before: TableSnapshot[] = tableNames.length > 0 ? await snapshotTables(tableNames) : [];
+
+    const started = Date.now();
     const response = await fetch(url, {
       method: 'POST',
       headers,
-      body: JSON.stringify(params),
+      body: stringifyJsonLossless(args),
     });
+    const durationMs = Date.now() - started;
+
+    // SpacetimeDB reports the energy and time a call used in response headers
+    const energyUsed = response.headers.get('spacetime-energy-used');
+    const executionMicros = Number(response.headers.get('spacetime-execution-duration-micros')) || null;
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -49,6 +198,25 @@ export async function POST(request: NextRequest) {
         errorText,
         hasAuthToken: !!SPACETIME_AUTH_TOKEN,
       });
+      recordAudit({
+        user: auth.user,
+        action: auditAction,
+        target: reducer,
+        outcome: 'error',
+        details: { params, status: response.status, error: errorText },
+        durationMs,
+        ip: requestIp(request),
+      });
+      await addReducerCall({
+        ...historyFields,
+        status: 'error',
+        durationMs,
+        httpStatus: response.status,
+        error: errorText || response.statusText,
+        energyUsed,
+        executionMicros,
+        changes: null,
+      });
       
       // Check for authentication/authorization errors
       if (errorText.includes('Admin') || 
@@ -92,14 +260,45 @@ export async function POST(request: NextRequest) {
     let result;
     const contentType = response.headers.get('content-type');
     if (contentType?.includes('application/json')) {
-      result = await response.json();
+      result = parseJsonLossless(await response.text());
     } else {
       result = await response.text();
     }
 
-    return NextResponse.json({
+    // Reducers can write to any table
+    resultCache.clear();
+
+    const after = before.length > 0 ? await snapshotTables(tableNames) : [];
+    const changes = before.length > 0 ? before.map((snapshot, index) => diffSnapshots(snapshot, after[index])) : null;
+
+    recordAudit({
+      user: auth.user,
+      action: auditAction,
+      target: reducer,
+      outcome: 'success',
+      details: { params },
+      durationMs,
+      ip: requestIp(request),
+    });
+    const entry = await addReducerCall({
+      ...historyFields,
+      status: 'success',
+      durationMs,
+      httpStatus: response.status,
+      error: null,
+      energyUsed,
+      executionMicros,
+      changes,
+    });
+
+    return wireResponse({
       success: true,
       result,
+      historyId: entry?.id ?? null,
+      durationMs,
+      energyUsed,
+      executionMicros,
+      changes,
     });
   } catch (error) {
     console.error('[Reducer Call API] Error:', error);
@@ -0,0 +1,40 @@
+/**
+ * API Route: One reducer call from the history
+ * GET /api/reducers/history/[id] - the call, for replaying it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { hasPermission } from '@/lib/permissions';
+import { getReducerCall } from '@/lib/reducer-history';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function GET(_request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const entry = await getReducerCall(params.id);
+    // Other users' calls are only visible to those who can read the audit log
+    if (!entry || (entry.userId !== auth.user.id && !hasPermission(auth.user.role, 'audit:read'))) {
+      return NextResponse.json({ error: 'Reducer call not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('[Reducer History API] Failed to read call:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read reducer call',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: Reducer call history
+ * GET /api/reducers/history?reducer=&limit= - calls newest first; users without
+ * `audit:read` only see their own
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { hasPermission } from '@/lib/permissions';
+import { listReducerCalls } from '@/lib/reducer-history';
+
+const DEFAULT_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || DEFAULT_LIMIT;
+
+    const entries = await listReducerCalls({
+      reducer: searchParams.get('reducer') || undefined,
+      userId: hasPermission(auth.user.role, 'audit:read') ? undefined : auth.user.id,
+      limit: Math.max(1, limit),
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('[Reducer History API] Failed to list calls:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list reducer calls',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
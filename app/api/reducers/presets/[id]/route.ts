@@ -0,0 +1,94 @@
+/**
+ * API Route: One reducer argument preset
+ * PATCH  /api/reducers/presets/[id] - edit name, description, arguments or visibility
+ * DELETE /api/reducers/presets/[id] - remove the preset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { canEditReducerPreset } from '@/lib/permissions';
+import { deleteReducerPreset, getReducerPreset, updateReducerPreset } from '@/lib/reducer-presets';
+import { parseWire } from '@/lib/spacetime/json';
+import type { ReducerPreset, ReducerPresetInput } from '@/types/api';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+}
+
+function denied(details: string) {
+  return NextResponse.json({ error: 'Permission denied', details }, { status: 403 });
+}
+
+export async function PATCH(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('reducers:call');
+    if (auth.error) return auth.error;
+
+    const existing = await getReducerPreset(auth.user, params.id);
+    if (!existing) return notFound();
+    if (!canEditReducerPreset(auth.user, existing)) {
+      return denied('Only the owner or an admin can edit this preset');
+    }
+
+    const { name, description, args, visibility } = parseWire<Partial<ReducerPresetInput>>(await request.text());
+
+    let preset: ReducerPreset | null;
+    try {
+      preset = await updateReducerPreset(auth.user, params.id, { name, description, args, visibility });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid preset',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+    if (!preset) return notFound();
+
+    return NextResponse.json({ preset });
+  } catch (error) {
+    console.error('[Reducer Presets API] Failed to update preset:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update preset',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('reducers:call');
+    if (auth.error) return auth.error;
+
+    const existing = await getReducerPreset(auth.user, params.id);
+    if (!existing) return notFound();
+    if (!canEditReducerPreset(auth.user, existing)) {
+      return denied('Only the owner or an admin can delete this preset');
+    }
+
+    if (!(await deleteReducerPreset(auth.user, params.id))) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Reducer Presets API] Failed to delete preset:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete preset',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route: Reducer argument presets
+ * GET  /api/reducers/presets?reducer= - presets visible to the signed-in user
+ * POST /api/reducers/presets - save new arguments for a reducer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { createReducerPreset, listReducerPresets } from '@/lib/reducer-presets';
+import { parseWire } from '@/lib/spacetime/json';
+import type { ReducerPreset, ReducerPresetInput } from '@/types/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const { searchParams } = new URL(request.url);
+    const presets = await listReducerPresets(auth.user, searchParams.get('reducer') || undefined);
+    return NextResponse.json({ presets });
+  } catch (error) {
+    console.error('[Reducer Presets API] Failed to list presets:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list reducer presets',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('reducers:call');
+    if (auth.error) return auth.error;
+
+    const body = parseWire<Partial<ReducerPresetInput>>(await request.text());
+
+    let preset: ReducerPreset;
+    try {
+      preset = await createReducerPreset(auth.user, body);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Invalid preset',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (error) {
+    console.error('[Reducer Presets API] Failed to save preset:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save preset',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
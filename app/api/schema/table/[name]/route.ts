@@ -4,7 +4,11 @@
  */
 
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
 import { schemaDiscovery } from '@/lib/spacetime/schema-discovery';
+import { httpClient } from '@/lib/spacetime/http-client';
+import { parseTypespace } from '@/lib/spacetime/sats';
+import { rowSchemaSource } from '@/lib/spacetime/zod-schema';
 import type { TableSchemaResponse } from '@/types/schema';
 
 interface RouteParams {
@@ -16,15 +20,29 @@ interface RouteParams {
 export async function GET(request: Request, props: RouteParams) {
   const params = await props.params;
   try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const forceRefresh = searchParams.get('refresh') === 'true';
+    const includeRowType = searchParams.get('rowType') === 'true';
 
     const table = await schemaDiscovery.getTable(params.name, forceRefresh);
 
     const response: TableSchemaResponse = {
       table,
+      zodSchema: rowSchemaSource(table.columns),
     };
 
+    if (includeRowType) {
+      const schema = await httpClient.getDatabaseSchema();
+      const columns = await httpClient.getTableSchema(params.name, schema);
+      response.rowType = {
+        columns: columns.map((col) => ({ name: col.name, type: col.algebraicType })),
+        typespace: parseTypespace(schema.typespace),
+      };
+    }
+
     return NextResponse.json(response);
   } catch (error) {
     console.error(`Failed to get table ${params.name}:`, error);
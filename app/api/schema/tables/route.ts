@@ -4,15 +4,19 @@
  */
 
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
 import { schemaDiscovery } from '@/lib/spacetime/schema-discovery';
 import type { SchemaTablesResponse } from '@/types/schema';
 
 export async function GET(request: Request) {
   try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const forceRefresh = searchParams.get('refresh') === 'true';
 
-    const tables = await schemaDiscovery.getAllTables(forceRefresh);
+    const tables = await schemaDiscovery.withStats(await schemaDiscovery.getAllTables(forceRefresh), forceRefresh);
     const cacheStatus = schemaDiscovery.getCacheStatus();
 
     const response: SchemaTablesResponse = {
@@ -37,9 +41,12 @@ export async function GET(request: Request) {
 
 export async function POST() {
   try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
     // Force refresh cache
     schemaDiscovery.clearCache();
-    const tables = await schemaDiscovery.getAllTables(true);
+    const tables = await schemaDiscovery.withStats(await schemaDiscovery.getAllTables(true), true);
     const cacheStatus = schemaDiscovery.getCacheStatus();
 
     const response: SchemaTablesResponse = {
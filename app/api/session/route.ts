@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession } from '@/lib/session';
+import { getUser } from '@/lib/users';
 
 export async function GET(request: NextRequest) {
-  const sessionCookie = request.cookies.get('admin-session');
+  const sessionCookie = request.cookies.get(SESSION_COOKIE);
 
   if (!sessionCookie) {
     return NextResponse.json(
@@ -11,24 +13,36 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const sessionData = JSON.parse(
-      Buffer.from(sessionCookie.value, 'base64').toString()
-    );
+    const session = await getSession(sessionCookie.value);
+
+    const user = session ? await getUser(session.userId) : null;
 
-    // Check if session is still valid (7 days)
-    const maxAge = 60 * 60 * 24 * 7 * 1000; // 7 days in ms
-    if (Date.now() - sessionData.timestamp > maxAge) {
-      return NextResponse.json(
-        { authenticated: false, error: 'Session expired' },
+    if (!session || !user) {
+      const response = NextResponse.json(
+        { authenticated: false, error: 'Session expired or revoked' },
         { status: 401 }
       );
+      response.cookies.delete(SESSION_COOKIE);
+      return response;
     }
 
     return NextResponse.json(
-      { authenticated: true, username: sessionData.username },
+      {
+        authenticated: true,
+        username: session.username,
+        user,
+        session: {
+          id: session.id,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          expiresAt: session.expiresAt,
+          idleExpiresAt: session.idleExpiresAt,
+        },
+      },
       { status: 200 }
     );
   } catch (error) {
+    console.error('Session check error:', error);
     return NextResponse.json(
       { authenticated: false, error: 'Invalid session' },
       { status: 401 }
@@ -0,0 +1,46 @@
+/**
+ * API Route: Revoke one of the signed-in user's sessions
+ * DELETE /api/session/sessions/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession, listSessions, revokeSession } from '@/lib/session';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function DELETE(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const current = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!current) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    // Only the owner of a session may revoke it
+    const owned = await listSessions(current.username);
+    if (!owned.some((session) => session.id === params.id)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await revokeSession(params.id);
+
+    const response = NextResponse.json({ success: true, current: params.id === current.id });
+    if (params.id === current.id) {
+      response.cookies.delete(SESSION_COOKIE);
+    }
+    return response;
+  } catch (error) {
+    console.error(`[Sessions API] Failed to revoke session:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke session',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
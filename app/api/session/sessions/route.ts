@@ -0,0 +1,56 @@
+/**
+ * API Route: Active sessions for the signed-in user
+ * GET    /api/session/sessions  - list sessions
+ * DELETE /api/session/sessions  - revoke every other session
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession, listSessions, revokeUserSessions } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  try {
+    const current = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!current) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const sessions = await listSessions(current.username);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === current.id,
+      })),
+    });
+  } catch (error) {
+    console.error('[Sessions API] Failed to list sessions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list sessions',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const current = await getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!current) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const revoked = await revokeUserSessions(current.username, current.id);
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('[Sessions API] Failed to revoke sessions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to revoke sessions',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,19 @@
 /**
  * API Route: Execute bulk SQL operations
  * POST /api/sql/bulk
+ * `dryRun` checks each statement against the schema and estimates affected rows;
+ * `transactional` undoes completed statements when a later one fails.
  */
 
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { recordAudit, requestIp } from '@/lib/audit';
 import { httpClient } from '@/lib/spacetime/http-client';
+import { dryRunBulk, planTransaction, runTransaction, type PlannedOperation } from '@/lib/spacetime/bulk';
+import { bindSqlParams } from '@/lib/spacetime/params';
+import { resultCache } from '@/lib/spacetime/result-cache';
+import { parseSql, statementLabel, touchedTables, type SqlStatement } from '@/lib/spacetime/sql-parser';
+import { parseWire } from '@/lib/spacetime/json';
 import type { BulkRequest } from '@/types/api';
 import type { BulkOperationResult } from '@/types/spacetime';
 
@@ -12,18 +21,21 @@ const MAX_BULK_OPERATIONS = 1000; // Safety limit
 
 export async function POST(request: Request) {
   try {
-    const body: BulkRequest = await request.json();
-    const { operations, transactional, dryRun = false } = body;
+    const auth = await requirePermission('data:write');
+    if (auth.error) return auth.error;
+
+    const body = parseWire<BulkRequest>(await request.text());
+    const { transactional, dryRun = false } = body;
 
     // Validate operations
-    if (!Array.isArray(operations) || operations.length === 0) {
+    if (!Array.isArray(body.operations) || body.operations.length === 0) {
       return NextResponse.json(
         { error: 'Operations array is required' },
         { status: 400 }
       );
     }
 
-    if (operations.length > MAX_BULK_OPERATIONS) {
+    if (body.operations.length > MAX_BULK_OPERATIONS) {
       return NextResponse.json(
         {
           error: `Too many operations. Maximum is ${MAX_BULK_OPERATIONS}`,
@@ -32,77 +44,164 @@ export async function POST(request: Request) {
       );
     }
 
-    // Dry run mode
-    if (dryRun) {
-      const report = {
-        totalOperations: operations.length,
-        estimatedAffectedRows: 0,
-        warnings: [] as string[],
-      };
+    const malformed = body.operations.findIndex((op) => !op || typeof op !== 'object' || !op.sql || typeof op.sql !== 'string');
+    if (malformed !== -1) {
+      return NextResponse.json(
+        { error: 'Invalid SQL statement', details: `Operation ${malformed + 1} has no SQL` },
+        { status: 400 }
+      );
+    }
 
-      // Validate each operation
-      for (const op of operations) {
-        if (!op.sql || typeof op.sql !== 'string') {
-          report.warnings.push('Invalid SQL statement found');
-        }
+    // Params are bound up front so every statement below is plain SQL
+    const operations: BulkRequest['operations'] = [];
+    for (const [index, op] of body.operations.entries()) {
+      try {
+        operations.push({ sql: await bindSqlParams(op.sql, op.params) });
+      } catch (paramError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid parameters',
+            details: `Operation ${index + 1}: ${paramError instanceof Error ? paramError.message : String(paramError)}`,
+          },
+          { status: 400 }
+        );
       }
+    }
 
+    // Dry run mode
+    if (dryRun) {
       const response: BulkOperationResult = {
         results: [],
-        dryRunReport: report,
+        dryRunReport: await dryRunBulk(operations),
       };
 
       return NextResponse.json(response);
     }
 
-    // Execute operations
-    const results: BulkOperationResult['results'] = [];
-    const errors: string[] = [];
-
-    for (let i = 0; i < operations.length; i++) {
-      const op = operations[i];
-
+    // Classify the exact text sent upstream: each operation must be a single INSERT, UPDATE or DELETE
+    const parsed: SqlStatement[][] = [];
+    for (const [index, op] of operations.entries()) {
+      let statements: SqlStatement[];
       try {
-        const result = await httpClient.mutate(op.sql, op.params);
-
-        results.push({
-          success: result.success,
-          affectedRows: result.affectedRows,
-          error: result.error,
-        });
+        statements = parseSql(op.sql);
+      } catch (parseError) {
+        return NextResponse.json(
+          {
+            error: 'Invalid SQL',
+            details: `Operation ${index + 1}: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+          },
+          { status: 400 }
+        );
+      }
+      if (statements.length !== 1 || !['insert', 'update', 'delete'].includes(statements[0].kind)) {
+        return NextResponse.json(
+          {
+            error: 'Only INSERT, UPDATE, DELETE statements are allowed',
+            details: `Operation ${index + 1} ${
+              statements.length === 0
+                ? 'has no statement'
+                : statements.length > 1
+                  ? `has ${statements.length} statements`
+                  : `is ${statementLabel(statements[0].kind)}`
+            }`,
+          },
+          { status: 400 }
+        );
+      }
+      parsed.push(statements);
+    }
 
-        if (!result.success && result.error) {
-          errors.push(`Operation ${i + 1}: ${result.error}`);
+    // Transactional runs are planned up front so nothing executes unless every statement can be undone
+    let plans: PlannedOperation[] | null = null;
+    if (transactional) {
+      try {
+        plans = await planTransaction(operations);
+      } catch (planError) {
+        return NextResponse.json(
+          {
+            error: 'Cannot run transactionally',
+            details: planError instanceof Error ? planError.message : String(planError),
+          },
+          { status: 400 }
+        );
+      }
+    }
 
-          // In transactional mode, stop on first error
-          if (transactional) {
-            break;
+    // Execute operations
+    const started = Date.now();
+    let results: BulkOperationResult['results'] = [];
+    const errors: string[] = [];
+    let rollback: BulkOperationResult['rollback'];
+
+    if (plans) {
+      const outcome = await runTransaction(operations, plans);
+      results = outcome.results;
+      errors.push(...(outcome.errors ?? []));
+      rollback = outcome.rollback;
+    } else {
+      for (let i = 0; i < operations.length; i++) {
+        const op = operations[i];
+
+        try {
+          const result = await httpClient.mutate(op.sql);
+
+          results.push({
+            success: result.success,
+            affectedRows: result.affectedRows,
+            error: result.error,
+          });
+
+          if (!result.success && result.error) {
+            errors.push(`Operation ${i + 1}: ${result.error}`);
           }
-        }
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-
-        results.push({
-          success: false,
-          affectedRows: 0,
-          error: errorMessage,
-        });
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
 
-        errors.push(`Operation ${i + 1}: ${errorMessage}`);
+          results.push({
+            success: false,
+            affectedRows: 0,
+            error: errorMessage,
+          });
 
-        // In transactional mode, stop on first error
-        if (transactional) {
-          break;
+          errors.push(`Operation ${i + 1}: ${errorMessage}`);
         }
       }
     }
 
+    if (results.some((result) => result.success)) {
+      resultCache.clear();
+    }
+
     const response: BulkOperationResult = {
       results,
       errors: errors.length > 0 ? errors : undefined,
+      rollback,
     };
 
+    const tables = [...new Set(parsed.flatMap((statements) => touchedTables(statements)))];
+    recordAudit({
+      user: auth.user,
+      action: 'sql.bulk',
+      target: tables.join(', ') || null,
+      outcome: errors.length === 0 ? 'success' : 'error',
+      details: {
+        transactional,
+        operations: operations.map((op, i) => ({
+          sql: op.sql,
+          params: body.operations[i].params,
+          success: results[i]?.success,
+          error: results[i]?.error,
+          rolledBack: results[i]?.rolledBack,
+        })),
+        executed: results.length,
+        errors: errors.length > 0 ? errors : undefined,
+        rollback,
+      },
+      durationMs: Date.now() - started,
+      ip: requestIp(request),
+    });
+
     return NextResponse.json(response);
   } catch (error) {
     console.error('Bulk operation failed:', error);
@@ -0,0 +1,133 @@
+/**
+ * API Route: Export a query result
+ * GET /api/sql/export?sql=&params=&format=csv|json|ndjson|sql&table=&order=&q=&f.<column>=
+ * Runs a single SELECT without a row limit, applies the grid view and streams
+ * every matching row as a download.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { recordAudit, requestIp } from '@/lib/audit';
+import { httpClient } from '@/lib/spacetime/http-client';
+import { containsRef, decodeStatement, parseColumns } from '@/lib/spacetime/sats';
+import { applyGridView, gridViewFromParams } from '@/lib/spacetime/grid-view';
+import { parseSql, statementLabel, type SqlStatement } from '@/lib/spacetime/sql-parser';
+import { parseWire } from '@/lib/spacetime/json';
+import { bindSqlParams } from '@/lib/spacetime/params';
+import {
+  EXPORT_FORMATS,
+  createExporter,
+  exportFilename,
+  exportStream,
+  isExportFormat,
+  type RowExporter,
+} from '@/lib/spacetime/export';
+import type { SqlParams, StatementResult } from '@/types/api';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const requestSql = searchParams.get('sql')?.trim();
+    const format = searchParams.get('format') ?? 'csv';
+
+    if (!requestSql) {
+      return NextResponse.json({ error: 'SQL query is required' }, { status: 400 });
+    }
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format', details: `Expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // `params` holds the statement's placeholder values as wire JSON
+    let sql: string;
+    try {
+      const params = searchParams.get('params');
+      sql = await bindSqlParams(requestSql, params ? parseWire<SqlParams>(params) : undefined);
+    } catch (paramError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: paramError instanceof Error ? paramError.message : String(paramError) },
+        { status: 400 }
+      );
+    }
+
+    // Classify the exact text sent upstream
+    let statement: SqlStatement;
+    try {
+      const statements = parseSql(sql);
+      if (statements.length !== 1 || statements[0].kind !== 'select' || !statements[0].readOnly) {
+        return NextResponse.json(
+          {
+            error: 'Invalid query',
+            details: statements.length === 1
+              ? `Only a SELECT statement can be exported, not ${statementLabel(statements[0].kind)}`
+              : 'Only a single SELECT statement can be exported',
+          },
+          { status: 400 }
+        );
+      }
+      statement = statements[0];
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Invalid SQL', details: parseError instanceof Error ? parseError.message : String(parseError) },
+        { status: 400 }
+      );
+    }
+
+    const table = searchParams.get('table') || (statement.tables[0] ?? null);
+    const started = Date.now();
+
+    const { results } = await httpClient.sql(sql);
+    let result: StatementResult = { columns: [], rows: [], totalRows: 0, fetchedRows: 0, truncated: false };
+    if (results[0]) {
+      const typespace = parseColumns(results[0].schema).some((col) => containsRef(col.type))
+        ? await httpClient.getTypespace()
+        : [];
+      result = decodeStatement(results[0], typespace, -1);
+    }
+
+    let rows: Record<string, unknown>[];
+    let exporter: RowExporter;
+    try {
+      rows = applyGridView(result.rows, result.columns, gridViewFromParams(Object.fromEntries(searchParams)));
+      exporter = createExporter(format, result.columns, table);
+    } catch (exportError) {
+      return NextResponse.json(
+        { error: 'Cannot export result', details: exportError instanceof Error ? exportError.message : String(exportError) },
+        { status: 400 }
+      );
+    }
+
+    recordAudit({
+      user: auth.user,
+      action: 'sql.export',
+      target: table,
+      outcome: 'success',
+      details: { sql, format, rows: rows.length },
+      durationMs: Date.now() - started,
+      ip: requestIp(request),
+    });
+
+    return new Response(exportStream(exporter, rows), {
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${exportFilename(table ?? 'query', format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Export API] Failed to export query:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export query',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
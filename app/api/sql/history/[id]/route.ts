@@ -0,0 +1,67 @@
+/**
+ * API Route: One entry in the signed-in user's SQL console history
+ * PATCH  /api/sql/history/[id] - pin or unpin
+ * DELETE /api/sql/history/[id] - remove
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { deleteHistory, setHistoryPinned } from '@/lib/sql-history';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function PATCH(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const { pinned } = await request.json();
+    if (typeof pinned !== 'boolean') {
+      return NextResponse.json({ error: 'pinned must be a boolean' }, { status: 400 });
+    }
+
+    const entry = await setHistoryPinned(auth.user.id, params.id, pinned);
+    if (!entry) {
+      return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('[SQL History API] Failed to update entry:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update SQL history entry',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    if (!(await deleteHistory(auth.user.id, params.id))) {
+      return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[SQL History API] Failed to delete entry:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete SQL history entry',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: The signed-in user's SQL console history
+ * GET    /api/sql/history - list entries, pinned first
+ * DELETE /api/sql/history - clear unpinned entries
+ */
+
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { clearHistory, listHistory } from '@/lib/sql-history';
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    return NextResponse.json({ entries: await listHistory(auth.user.id) });
+  } catch (error) {
+    console.error('[SQL History API] Failed to list history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list SQL history',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    return NextResponse.json({ removed: await clearHistory(auth.user.id) });
+  } catch (error) {
+    console.error('[SQL History API] Failed to clear history:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to clear SQL history',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,21 @@
  */
 
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { recordAudit, requestIp } from '@/lib/audit';
 import { httpClient } from '@/lib/spacetime/http-client';
+import { resultCache } from '@/lib/spacetime/result-cache';
+import { parseSql, statementLabel, touchedTables, type SqlStatement } from '@/lib/spacetime/sql-parser';
+import { bindSqlParams } from '@/lib/spacetime/params';
+import { parseWire, wireResponse } from '@/lib/spacetime/json';
 import type { MutateRequest } from '@/types/api';
 
 export async function POST(request: Request) {
   try {
-    const body: MutateRequest = await request.json();
+    const auth = await requirePermission('data:write');
+    if (auth.error) return auth.error;
+
+    const body = parseWire<MutateRequest>(await request.text());
     const { sql, params } = body;
 
     // Validate SQL
@@ -20,24 +29,69 @@ export async function POST(request: Request) {
       );
     }
 
-    // Safety check: ensure it's a mutation operation
-    const sqlLower = sql.trim().toLowerCase();
-    const isMutation =
-      sqlLower.startsWith('insert') ||
-      sqlLower.startsWith('update') ||
-      sqlLower.startsWith('delete');
+    const invalidSql = (parseError: unknown) =>
+      NextResponse.json(
+        { error: 'Invalid SQL', details: parseError instanceof Error ? parseError.message : String(parseError) },
+        { status: 400 }
+      );
+
+    // Malformed SQL is rejected before binding; the bound text is classified below
+    try {
+      parseSql(sql);
+    } catch (parseError) {
+      return invalidSql(parseError);
+    }
+
+    // Render params as literals typed by the table's columns
+    let statement: string;
+    try {
+      statement = await bindSqlParams(sql, params);
+    } catch (paramError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: paramError instanceof Error ? paramError.message : String(paramError) },
+        { status: 400 }
+      );
+    }
+
+    let statements: SqlStatement[];
+    try {
+      statements = parseSql(statement);
+    } catch (parseError) {
+      return invalidSql(parseError);
+    }
 
-    if (!isMutation) {
+    // Safety check: ensure every statement is a mutation
+    const index = statements.findIndex((statement) => !['insert', 'update', 'delete'].includes(statement.kind));
+    if (statements.length === 0 || index !== -1) {
       return NextResponse.json(
-        { error: 'Only INSERT, UPDATE, DELETE statements are allowed' },
+        {
+          error: 'Only INSERT, UPDATE, DELETE statements are allowed',
+          details: statements.length === 0
+            ? 'No statement to run'
+            : `Statement ${index + 1} is ${statementLabel(statements[index].kind)}`,
+        },
         { status: 400 }
       );
     }
 
     // Execute mutation
-    const result = await httpClient.mutate(sql, params);
+    const started = Date.now();
+    const result = await httpClient.mutate(statement);
+    if (result.success) {
+      resultCache.clear();
+    }
+
+    recordAudit({
+      user: auth.user,
+      action: 'sql.mutate',
+      target: touchedTables(statements).join(', ') || null,
+      outcome: result.success ? 'success' : 'error',
+      details: { sql: statement, params, statements: statements.map((s) => s.kind), affectedRows: result.affectedRows, error: result.error },
+      durationMs: Date.now() - started,
+      ip: requestIp(request),
+    });
 
-    return NextResponse.json(result);
+    return wireResponse(result);
   } catch (error) {
     console.error('Mutation failed:', error);
 
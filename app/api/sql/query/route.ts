@@ -4,26 +4,202 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { forbidden, requirePermission } from '@/lib/api-auth';
+import { hasPermission } from '@/lib/permissions';
+import { parseOrderBy } from '@/lib/spacetime/sql';
+import { parseSql, touchedTables, type SqlStatement } from '@/lib/spacetime/sql-parser';
+import { recordAudit, requestIp, type AuditInput } from '@/lib/audit';
+import { addHistory } from '@/lib/sql-history';
+import { httpClient } from '@/lib/spacetime/http-client';
+import { containsRef, decodeStatement, parseColumns } from '@/lib/spacetime/sats';
+import { parseJsonLossless, parseWire, wireNdjsonResponse, wireResponse } from '@/lib/spacetime/json';
+import { bindSqlParams } from '@/lib/spacetime/params';
+import { resultCache, type CachedResult } from '@/lib/spacetime/result-cache';
+import type { QueryRequest, QueryStreamHeader, StatementResult } from '@/types/api';
 
 const SPACETIME_HTTP_API = process.env.NEXT_PUBLIC_SPACETIME_HTTP_API!;
 const SPACETIME_MODULE = process.env.NEXT_PUBLIC_SPACETIME_MODULE!;
 const SPACETIME_AUTH_TOKEN = process.env.SPACETIME_AUTH_TOKEN; // Owner auth token for DML operations
 
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+type PageOptions = Pick<QueryRequest, 'page' | 'pageSize' | 'orderBy' | 'filters' | 'search' | 'format'>;
+
+/**
+ * Respond with one page of a cached result, or stream it as NDJSON
+ * An NDJSON request without `page` or `pageSize` streams every matching row.
+ */
+function pagedResponse(entry: CachedResult, options: PageOptions, cached: boolean): Response {
+  const { columns, totalRows, fetchedRows, truncated } = entry.result;
+  let rows: Record<string, unknown>[];
+  try {
+    rows = resultCache.viewRows(entry, options);
+  } catch (viewError) {
+    return NextResponse.json(
+      { error: 'Invalid filter', details: viewError instanceof Error ? viewError.message : String(viewError) },
+      { status: 400 }
+    );
+  }
+  const streamAll = options.format === 'ndjson' && options.page === undefined && options.pageSize === undefined;
+
+  const pageSize = streamAll
+    ? Math.max(1, rows.length)
+    : Math.min(Math.max(1, Math.floor(options.pageSize ?? DEFAULT_PAGE_SIZE)), MAX_PAGE_SIZE);
+  const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+  const page = Math.min(Math.max(1, Math.floor(options.page ?? 1)), totalPages);
+  const pageRows = streamAll ? rows : rows.slice((page - 1) * pageSize, page * pageSize);
+
+  const header: QueryStreamHeader = {
+    columns,
+    totalRows,
+    fetchedRows,
+    truncated,
+    matchedRows: rows.length,
+    page,
+    pageSize,
+    totalPages,
+    cached,
+    cachedAt: entry.cachedAt.toISOString(),
+  };
+
+  if (options.format === 'ndjson') {
+    return wireNdjsonResponse(header, pageRows);
+  }
+  return wireResponse({ ...header, rows: pageRows });
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { sql, maxRows = 10000 } = await request.json();
+    const auth = await requirePermission('data:read');
+    if (auth.error) return auth.error;
+
+    const {
+      sql: requestSql,
+      params,
+      maxRows = 10000,
+      history = false,
+      page,
+      pageSize,
+      orderBy,
+      filters,
+      search,
+      refresh = false,
+      format = 'json',
+    } = parseWire<QueryRequest>(await request.text());
 
-    if (!sql) {
+    if (!requestSql) {
       return NextResponse.json(
         { error: 'SQL query is required' },
         { status: 400 }
       );
     }
 
+    const started = Date.now();
+
+    // Statements run from the SQL console are kept in the user's history
+    const recordHistory = async (rowCount: number | null, error: string | null = null) => {
+      if (!history) return;
+      try {
+        await addHistory(auth.user.id, { sql: requestSql, durationMs: Date.now() - started, rowCount, error });
+      } catch (historyError) {
+        console.error('[SQL API] Failed to record history:', historyError);
+      }
+    };
+
+    const invalidSql = async (parseError: unknown) => {
+      const details = parseError instanceof Error ? parseError.message : String(parseError);
+      await recordHistory(null, details);
+      return NextResponse.json({ error: 'Invalid SQL', details }, { status: 400 });
+    };
+
+    // Malformed SQL is rejected before binding; the bound text is classified below
+    try {
+      parseSql(requestSql);
+    } catch (parseError) {
+      return invalidSql(parseError);
+    }
+
+    // Render params as literals typed by the table's columns; the cache keys on the bound statement
+    let sql: string;
+    try {
+      sql = await bindSqlParams(requestSql, params);
+    } catch (paramError) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: paramError instanceof Error ? paramError.message : String(paramError) },
+        { status: 400 }
+      );
+    }
+
+    // Classify the exact text sent upstream; comments, casing and bound values can't hide a write
+    let statements: SqlStatement[];
+    try {
+      statements = parseSql(sql);
+      if (statements.length === 0) throw new Error('No statement to run');
+    } catch (parseError) {
+      return invalidSql(parseError);
+    }
+
+    // Writes sent through the query endpoint (e.g. row deletes) are audited like mutations
+    const isWrite = statements.some((statement) => !statement.readOnly);
+
+    // Paged, sorted, filtered and streamed reads are served from the result cache
+    const paged =
+      page !== undefined ||
+      pageSize !== undefined ||
+      !!orderBy ||
+      !!search ||
+      Object.keys(filters ?? {}).length > 0 ||
+      format === 'ndjson';
+    if (paged && (statements.length > 1 || statements[0].kind !== 'select' || isWrite)) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: 'Paging, sorting and filters apply to a single SELECT statement' },
+        { status: 400 }
+      );
+    }
+    if (orderBy) {
+      try {
+        parseOrderBy(orderBy);
+      } catch (orderError) {
+        return NextResponse.json(
+          { error: 'Invalid sort order', details: orderError instanceof Error ? orderError.message : String(orderError) },
+          { status: 400 }
+        );
+      }
+    }
+    const pageOptions: PageOptions = { page, pageSize, orderBy, filters, search, format };
+
+    const auditWrite = (outcome: AuditInput['outcome'], details: Record<string, unknown> = {}) => {
+      if (!isWrite) return;
+      recordAudit({
+        user: auth.user,
+        action: 'sql.query',
+        target: touchedTables(statements).join(', ') || null,
+        outcome,
+        details: { sql, params, statements: statements.map((statement) => statement.kind), ...details },
+        durationMs: Date.now() - started,
+        ip: requestIp(request),
+      });
+    };
+
+    // Viewers may only read; anything other than SELECT needs write access
+    if (isWrite && !hasPermission(auth.user.role, 'data:write')) {
+      auditWrite('denied');
+      await recordHistory(null, 'Permission denied: requires data:write');
+      return forbidden(auth.user, 'data:write');
+    }
+
+    if (paged && !refresh) {
+      const entry = resultCache.get(sql);
+      if (entry) {
+        await recordHistory(entry.result.totalRows);
+        return pagedResponse(entry, pageOptions, true);
+      }
+    }
+
     // Detect query type
-    const sqlLower = sql.trim().toLowerCase();
-    const isDeleteQuery = sqlLower.startsWith('delete');
-    const isSelectQuery = sqlLower.startsWith('select');
+    const isDeleteQuery = statements[0].kind === 'delete';
+    const isDml = statements.some((statement) => ['insert', 'update', 'delete'].includes(statement.kind));
 
     // Call SpacetimeDB HTTP SQL endpoint
     const url = `${SPACETIME_HTTP_API}/${SPACETIME_MODULE}/sql`;
@@ -54,9 +230,11 @@ export async function POST(request: NextRequest) {
         errorText,
         hasAuthToken: !!SPACETIME_AUTH_TOKEN,
       });
+      auditWrite('error', { error: errorText });
+      await recordHistory(null, errorText || response.statusText);
       
       // Check for authorization errors on DML operations
-      if ((isDeleteQuery || sqlLower.startsWith('insert') || sqlLower.startsWith('update')) && 
+      if (isDml && 
           (errorText.includes('Only owners are authorized') || errorText.includes('not authorized'))) {
         
         if (!SPACETIME_AUTH_TOKEN) {
@@ -89,12 +267,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse SATS-JSON response
-    const results = await response.json();
+    // Parse SATS-JSON response without rounding 64/128/256-bit integers
+    const results: any = parseJsonLossless(await response.text());
+    auditWrite('success');
+
+    // Cached results may no longer match the database
+    if (isWrite) {
+      resultCache.clear();
+    }
 
     // Handle DELETE queries (they return differently)
     if (isDeleteQuery) {
-      return NextResponse.json({
+      await recordHistory(0);
+      return wireResponse({
         success: true,
         message: 'Delete operation completed',
         result: results,
@@ -104,34 +289,40 @@ export async function POST(request: NextRequest) {
     // SpacetimeDB returns an array of statement results
     // Each result has: { schema: ProductType, rows: ProductValue[] }
     if (!Array.isArray(results) || results.length === 0) {
+      await recordHistory(0);
+      if (paged) {
+        const empty: StatementResult = { columns: [], rows: [], totalRows: 0, fetchedRows: 0, truncated: false };
+        return pagedResponse(resultCache.set(sql, empty), pageOptions, false);
+      }
       return NextResponse.json({
         columns: [],
         rows: [],
         totalRows: 0,
         fetchedRows: 0,
         truncated: false,
+        results: [],
       });
     }
 
-    const firstResult = results[0];
-    
-    // Convert SATS-JSON schema to column definitions
-    const columns = parseSchemaToColumns(firstResult.schema);
-    
-    // Convert SATS-JSON rows to plain objects
-    const allRows = firstResult.rows.map((row: any) => parseRowToObject(row, columns));
-    
-    // Apply row limit if specified (maxRows = -1 means unlimited)
-    const totalRows = allRows.length;
-    const truncated = maxRows > 0 && totalRows > maxRows;
-    const rows = maxRows > 0 ? allRows.slice(0, maxRows) : allRows;
-
-    return NextResponse.json({
-      columns,
-      rows,
-      totalRows,
-      fetchedRows: rows.length,
-      truncated,
+    // Resolve any Refs in the result schemas against the module typespace
+    const typespace = results.some((result: any) => parseColumns(result.schema).some((col) => containsRef(col.type)))
+      ? await httpClient.getTypespace()
+      : [];
+
+    // The cache holds the whole result; the row budget bounds it instead of maxRows
+    if (paged) {
+      const entry = resultCache.set(sql, decodeStatement(results[0], typespace, -1));
+      await recordHistory(entry.result.totalRows);
+      return pagedResponse(entry, pageOptions, false);
+    }
+
+    const decoded = results.map((result: any) => decodeStatement(result, typespace, maxRows));
+    await recordHistory(decoded.reduce((sum: number, statement: StatementResult) => sum + statement.totalRows, 0));
+
+    // The first statement's result stays at the top level for single-statement callers
+    return wireResponse({
+      ...decoded[0],
+      results: decoded,
     });
 
   } catch (error) {
@@ -145,125 +336,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Parse SATS-JSON ProductType schema to column definitions
- */
-function parseSchemaToColumns(schema: any): Array<{ name: string; type: string }> {
-  if (!schema || !schema.elements) {
-    return [];
-  }
-
-  return schema.elements.map((element: any, index: number) => {
-    // Column names come as {some: "name"} or {none: null}
-    let columnName = `col_${index}`;
-    if (element.name && element.name.some) {
-      columnName = element.name.some;
-    }
-
-    return {
-      name: columnName,
-      type: formatAlgebraicType(element.algebraic_type),
-    };
-  });
-}
-
-/**
- * Parse SATS-JSON ProductValue row to plain object
- * Note: Rows are returned as arrays of values, not ProductValue objects
- */
-function parseRowToObject(row: any, columns: Array<{ name: string; type: string }>): Record<string, any> {
-  const obj: Record<string, any> = {};
-  
-  if (!Array.isArray(row)) {
-    return obj;
-  }
-
-  row.forEach((value: any, index: number) => {
-    const column = columns[index];
-    if (column) {
-      obj[column.name] = parseSatsJsonValue(value);
-    }
-  });
-
-  return obj;
-}
-
-/**
- * Parse SATS-JSON value to JavaScript value
- * 
- * SpacetimeDB returns values in different formats:
- * - Primitives: raw values (numbers, strings, booleans)
- * - Complex types: single-element arrays (e.g., [timestamp], [identity])
- * - Arrays: arrays of values
- */
-function parseSatsJsonValue(value: any): any {
-  if (value === null || value === undefined) {
-    return null;
-  }
-
-  // Handle primitive types
-  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-    return value;
-  }
-
-  // Handle arrays
-  if (Array.isArray(value)) {
-    // If it's a single-element array with a primitive, unwrap it
-    // This handles Identity, Timestamp, etc.
-    if (value.length === 1) {
-      const element = value[0];
-      if (typeof element === 'string' || typeof element === 'number' || typeof element === 'boolean') {
-        return element;
-      }
-    }
-    // Otherwise, recursively parse each element
-    return value.map(parseSatsJsonValue);
-  }
-
-  // Handle objects (shouldn't happen in the new format, but keep for safety)
-  if (typeof value === 'object') {
-    const result: Record<string, any> = {};
-    for (const [key, val] of Object.entries(value)) {
-      result[key] = parseSatsJsonValue(val);
-    }
-    return result;
-  }
-
-  return value;
-}
-
-/**
- * Format algebraic type to readable string
- */
-function formatAlgebraicType(algType: any): string {
-  if (!algType) return 'unknown';
-  
-  // Handle primitive types
-  if (algType.U8 !== undefined) return 'u8';
-  if (algType.U16 !== undefined) return 'u16';
-  if (algType.U32 !== undefined) return 'u32';
-  if (algType.U64 !== undefined) return 'u64';
-  if (algType.U128 !== undefined) return 'u128';
-  if (algType.I8 !== undefined) return 'i8';
-  if (algType.I16 !== undefined) return 'i16';
-  if (algType.I32 !== undefined) return 'i32';
-  if (algType.I64 !== undefined) return 'i64';
-  if (algType.I128 !== undefined) return 'i128';
-  if (algType.F32 !== undefined) return 'f32';
-  if (algType.F64 !== undefined) return 'f64';
-  if (algType.Bool !== undefined) return 'bool';
-  if (algType.String !== undefined) return 'string';
-  
-  // Handle Product types (structs)
-  if (algType.Product) {
-    return 'struct';
-  }
-  
-  // Handle Sum types (enums)
-  if (algType.Sum) {
-    return 'enum';
-  }
-  
-  return 'complex';
-}
\ No newline at end of file
@@ -0,0 +1,145 @@
+/**
+ * API Route: Manage one portal user
+ * PATCH  /api/users/[id]  - change role, display name or password
+ * DELETE /api/users/[id]  - remove the user and end their sessions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { canAssignRole, isRole } from '@/lib/permissions';
+import { revokeUserSessions } from '@/lib/session';
+import { deleteUser, getUser, updateUser } from '@/lib/users';
+import { recordAudit, requestIp } from '@/lib/audit';
+import type { PortalUser } from '@/types/auth';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+function denied(details: string) {
+  return NextResponse.json({ error: 'Permission denied', details }, { status: 403 });
+}
+
+export async function PATCH(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('users:manage');
+    if (auth.error) return auth.error;
+
+    const target = await getUser(params.id);
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const isSelf = target.id === auth.user.id;
+    if (!isSelf && !canAssignRole(auth.user.role, target.role)) {
+      return denied(`An ${auth.user.role} cannot edit ${target.role} accounts`);
+    }
+
+    const { role, name, password } = await request.json();
+    const changes: { role?: PortalUser['role']; name?: string; password?: string } = {};
+
+    if (role !== undefined && role !== target.role) {
+      if (!isRole(role)) {
+        return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+      }
+      // Changing your own role could lock the portal out of its last owner
+      if (isSelf) {
+        return denied('You cannot change your own role');
+      }
+      if (!canAssignRole(auth.user.role, role)) {
+        return denied(`An ${auth.user.role} cannot grant the ${role} role`);
+      }
+      changes.role = role;
+    }
+    if (typeof name === 'string') changes.name = name;
+    if (typeof password === 'string') changes.password = password;
+
+    let user: PortalUser;
+    try {
+      user = await updateUser(target.id, changes);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Failed to update user',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+
+    // A new password signs the user out everywhere else
+    if (changes.password !== undefined) {
+      await revokeUserSessions(target.username, isSelf ? auth.session.id : undefined);
+    }
+
+    recordAudit({
+      user: auth.user,
+      action: 'user.update',
+      target: target.username,
+      outcome: 'success',
+      details: {
+        role: changes.role ? { from: target.role, to: changes.role } : undefined,
+        name: changes.name,
+        passwordChanged: changes.password !== undefined || undefined,
+      },
+      ip: requestIp(request),
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('[Users API] Failed to update user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update user',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, props: RouteParams) {
+  const params = await props.params;
+  try {
+    const auth = await requirePermission('users:manage');
+    if (auth.error) return auth.error;
+
+    const target = await getUser(params.id);
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (target.id === auth.user.id) {
+      return denied('You cannot delete your own account');
+    }
+    if (!canAssignRole(auth.user.role, target.role)) {
+      return denied(`An ${auth.user.role} cannot delete ${target.role} accounts`);
+    }
+
+    await deleteUser(target.id);
+    const revoked = await revokeUserSessions(target.username);
+
+    recordAudit({
+      user: auth.user,
+      action: 'user.delete',
+      target: target.username,
+      outcome: 'success',
+      details: { role: target.role, sessionsRevoked: revoked },
+      ip: requestIp(request),
+    });
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('[Users API] Failed to delete user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete user',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
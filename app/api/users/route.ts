@@ -0,0 +1,88 @@
+/**
+ * API Route: Portal user accounts
+ * GET  /api/users  - list users
+ * POST /api/users  - create a user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api-auth';
+import { canAssignRole, isRole } from '@/lib/permissions';
+import { createUser, listUsers } from '@/lib/users';
+import { recordAudit, requestIp } from '@/lib/audit';
+
+export async function GET() {
+  try {
+    const auth = await requirePermission('users:manage');
+    if (auth.error) return auth.error;
+
+    return NextResponse.json({ users: await listUsers() });
+  } catch (error) {
+    console.error('[Users API] Failed to list users:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list users',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission('users:manage');
+    if (auth.error) return auth.error;
+
+    const { username, password, role, name, email } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !isRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid user', details: 'username, password and a valid role are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAssignRole(auth.user.role, role)) {
+      return NextResponse.json(
+        { error: 'Permission denied', details: `An ${auth.user.role} cannot create ${role} accounts` },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const user = await createUser({
+        username,
+        password,
+        role,
+        name: typeof name === 'string' ? name : undefined,
+        email: typeof email === 'string' ? email : undefined,
+      });
+      recordAudit({
+        user: auth.user,
+        action: 'user.create',
+        target: user.username,
+        outcome: 'success',
+        details: { role: user.role },
+        ip: requestIp(request),
+      });
+      return NextResponse.json({ user }, { status: 201 });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Failed to create user',
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('[Users API] Failed to create user:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create user',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
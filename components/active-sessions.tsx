@@ -0,0 +1,143 @@
+/**
+ * Active Sessions Component
+ * Lists the signed-in user's sessions with per-session and global sign-out
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LogOut, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRevokeOtherSessions, useRevokeSession, useSessions } from '@/hooks/use-sessions';
+
+export function ActiveSessions() {
+  const router = useRouter();
+  const { data, isLoading, error } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOthers = useRevokeOtherSessions();
+  const sessions = data?.sessions ?? [];
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const result = await revokeSession.mutateAsync(id);
+      if (result.current) {
+        router.push('/login');
+        router.refresh();
+        return;
+      }
+      toast.success('Session revoked');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke session');
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    try {
+      const response = await fetch('/api/logout?everywhere=true', { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to logout');
+      toast.success('Logged out of all sessions');
+      router.push('/login');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to logout');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const result = await revokeOthers.mutateAsync();
+      toast.success(`Revoked ${result.revoked} other ${result.revoked === 1 ? 'session' : 'sessions'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke sessions');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Active Sessions</CardTitle>
+            <CardDescription>
+              Devices signed in to this account. Sessions end after a period of inactivity or when
+              they reach their maximum age.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRevokeOthers}
+              disabled={revokeOthers.isPending || sessions.length <= 1}
+            >
+              Revoke others
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleLogoutEverywhere}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Log out everywhere
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load sessions'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Signed in</TableHead>
+                <TableHead>Last active</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell className="max-w-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-xs" title={session.userAgent}>
+                        {session.userAgent || 'Unknown device'}
+                      </span>
+                      {session.current && <Badge className="text-xs">This device</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{session.ip || '—'}</TableCell>
+                  <TableCell className="text-xs">{new Date(session.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{new Date(session.lastSeenAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">
+                    {new Date(Math.min(session.expiresAt, session.idleExpiresAt)).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revokeSession.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Column Input Component
+ * Type-appropriate input for a single column value
+ */
+
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { columnInputKind, integerRangeLabel, type EditableColumn } from '@/lib/spacetime/column-values';
+import { cn } from '@/lib/utils';
+
+/**
+ * Form value for a column: booleans for bool columns, strings otherwise, null for NULL
+ */
+export type ColumnFormValue = string | boolean | null;
+
+interface ColumnInputProps {
+  id?: string;
+  column: EditableColumn;
+  value: ColumnFormValue;
+  onChange: (value: ColumnFormValue) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+  // Smaller input without the NULL toggle, for inline cell editing
+  compact?: boolean;
+  onKeyDown?: (event: React.KeyboardEvent) => void;
+  onBlur?: () => void;
+}
+
+export function ColumnInput({
+  id,
+  column,
+  value,
+  onChange,
+  disabled,
+  invalid,
+  autoFocus,
+  compact,
+  onKeyDown,
+  onBlur,
+}: ColumnInputProps) {
+  const kind = columnInputKind(column.dataType);
+  const isNull = value === null;
+
+  const shared = {
+    id,
+    disabled: disabled || isNull,
+    autoFocus,
+    onKeyDown,
+    onBlur,
+    'aria-invalid': invalid || undefined,
+  };
+
+  let input: React.ReactNode;
+  switch (kind) {
+    case 'bool':
+      input = (
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked)}
+          disabled={disabled || isNull}
+          autoFocus={autoFocus}
+          onKeyDown={onKeyDown}
+          onBlur={onBlur}
+        />
+      );
+      break;
+
+    case 'timestamp':
+      input = (
+        <Input
+          {...shared}
+          type="datetime-local"
+          step={1}
+          value={isNull ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn(compact && 'h-8')}
+        />
+      );
+      break;
+
+    case 'json':
+      input = (
+        <Textarea
+          {...shared}
+          value={isNull ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={isNull ? 'NULL' : '{ }'}
+          className={cn('font-mono text-xs', compact && 'min-h-8')}
+          rows={compact ? 2 : 4}
+        />
+      );
+      break;
+
+    default:
+      input = (
+        <Input
+          {...shared}
+          type="text"
+          inputMode={kind === 'integer' || kind === 'duration' ? 'numeric' : kind === 'float' ? 'decimal' : undefined}
+          value={isNull ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={
+            isNull
+              ? 'NULL'
+              : kind === 'integer'
+                ? integerRangeLabel(column.dataType)
+                : kind === 'duration'
+                  ? 'microseconds'
+                  : kind === 'identity'
+                    ? '0x…'
+                    : undefined
+          }
+          className={cn((kind === 'identity' || kind === 'integer') && 'font-mono', compact && 'h-8')}
+        />
+      );
+  }
+
+  if (compact || !column.nullable) {
+    return <>{input}</>;
+  }
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="flex-1">{input}</div>
+      <div className="flex items-center gap-1.5 pt-2">
+        <Checkbox
+          id={id ? `${id}-null` : undefined}
+          checked={isNull}
+          disabled={disabled}
+          onCheckedChange={(checked) => onChange(checked ? null : kind === 'bool' ? false : '')}
+        />
+        <Label htmlFor={id ? `${id}-null` : undefined} className="text-xs text-muted-foreground">
+          NULL
+        </Label>
+      </div>
+    </div>
+  );
+}
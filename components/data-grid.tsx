@@ -0,0 +1,385 @@
+/**
+ * Data Grid Component
+ * Virtualized rows with resizable, reorderable, pinnable and hideable columns.
+ * Only the rows in view are rendered, so results of 100k+ rows scroll smoothly;
+ * rows that aren't loaded yet (`getRow` returns undefined) show as placeholders.
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Pin, PinOff } from 'lucide-react';
+import { DEFAULT_COLUMN_WIDTH, MIN_COLUMN_WIDTH, type GridLayoutControls } from '@/hooks/use-grid-layout';
+import type { OrderTerm } from '@/lib/spacetime/sql';
+import { cn } from '@/lib/utils';
+
+type Row = Record<string, unknown>;
+
+export const GRID_ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 56;
+const FILTER_ROW_HEIGHT = 40;
+// Rows rendered above and below the visible ones
+const OVERSCAN = 10;
+const SELECT_WIDTH = 44;
+const INDEX_WIDTH = 72;
+
+export interface DataGridColumn {
+  name: string;
+  type: string;
+  nullable?: boolean;
+}
+
+interface DataGridProps {
+  columns: DataGridColumn[];
+  layout: GridLayoutControls;
+  rowCount: number;
+  getRow: (index: number) => Row | undefined;
+  // Called with the [start, end) row range being rendered, e.g. to load it
+  onRangeChange?: (start: number, end: number) => void;
+  renderCell: (row: Row, column: DataGridColumn, index: number) => React.ReactNode;
+  onCellDoubleClick?: (row: Row, column: DataGridColumn) => void;
+  cellClassName?: string;
+  rowClassName?: (row: Row, index: number) => string | undefined;
+  renderRowActions?: (row: Row, index: number) => React.ReactNode;
+  actionsWidth?: number;
+  sortTerms?: OrderTerm[];
+  // `keepOthers` is set for Shift+click (multi-column sort)
+  onSort?: (column: string, keepOthers: boolean) => void;
+  // Rendered in a row under the headers, one cell per column
+  renderFilter?: (column: DataGridColumn) => React.ReactNode;
+  selection?: {
+    isSelected: (index: number) => boolean;
+    onToggle: (index: number, row: Row) => void;
+    onToggleAll: (rows: { index: number; row: Row }[]) => void;
+  };
+  emptyMessage?: React.ReactNode;
+  // Scroll back to the top when this changes (e.g. a new sort or filter)
+  resetKey?: string;
+  height?: number;
+}
+
+export function DataGrid({
+  columns,
+  layout,
+  rowCount,
+  getRow,
+  onRangeChange,
+  renderCell,
+  onCellDoubleClick,
+  cellClassName,
+  rowClassName,
+  renderRowActions,
+  actionsWidth = 88,
+  sortTerms = [],
+  onSort,
+  renderFilter,
+  selection,
+  emptyMessage,
+  resetKey,
+  height = 600,
+}: DataGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [dragging, setDragging] = useState<string | null>(null);
+  // Width of the column being resized, before it is saved
+  const [resizing, setResizing] = useState<{ name: string; width: number } | null>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [resetKey]);
+
+  const byName = new Map(columns.map((col) => [col.name, col]));
+  const visible = layout.visibleColumns
+    .filter((col) => byName.has(col.name))
+    .map((col) => ({
+      ...col,
+      ...byName.get(col.name)!,
+      width: resizing?.name === col.name ? resizing.width : col.width,
+    }));
+
+  // Left offsets for sticky leading and pinned columns
+  let left = (selection ? SELECT_WIDTH : 0) + INDEX_WIDTH;
+  const offsets = new Map<string, number>();
+  for (const col of visible) {
+    if (!col.pinned) break;
+    offsets.set(col.name, left);
+    left += col.width;
+  }
+  const totalWidth =
+    (selection ? SELECT_WIDTH : 0) +
+    INDEX_WIDTH +
+    visible.reduce((sum, col) => sum + col.width, 0) +
+    (renderRowActions ? actionsWidth : 0);
+
+  const headerHeight = HEADER_HEIGHT + (renderFilter ? FILTER_ROW_HEIGHT : 0);
+  const viewport = height - headerHeight;
+  const start = Math.max(0, Math.floor(scrollTop / GRID_ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewport) / GRID_ROW_HEIGHT) + OVERSCAN);
+
+  useEffect(() => {
+    onRangeChange?.(start, end);
+  }, [start, end]);
+
+  const rendered: { index: number; row: Row | undefined }[] = [];
+  for (let index = start; index < end; index++) {
+    rendered.push({ index, row: getRow(index) });
+  }
+  const loadedRows = rendered.filter((item): item is { index: number; row: Row } => !!item.row);
+
+  const startResize = (event: React.PointerEvent, name: string, width: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    let current = width;
+
+    const onMove = (move: PointerEvent) => {
+      current = Math.max(MIN_COLUMN_WIDTH, width + move.clientX - startX);
+      setResizing({ name, width: current });
+    };
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      layout.setWidth(name, current);
+      setResizing(null);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const stickyStyle = (name: string): React.CSSProperties | undefined =>
+    offsets.has(name) ? { position: 'sticky', left: offsets.get(name), zIndex: 1 } : undefined;
+
+  const leadingCells = (header: boolean, index?: number, row?: Row) => (
+    <>
+      {selection && (
+        <div
+          className="sticky left-0 z-[1] flex shrink-0 items-center justify-center bg-background"
+          style={{ width: SELECT_WIDTH }}
+        >
+          {header ? (
+            <Checkbox
+              checked={loadedRows.length > 0 && loadedRows.every((item) => selection.isSelected(item.index))}
+              onCheckedChange={() => selection.onToggleAll(loadedRows)}
+              aria-label="Select visible rows"
+            />
+          ) : (
+            row && (
+              <Checkbox
+                checked={selection.isSelected(index!)}
+                onCheckedChange={() => selection.onToggle(index!, row)}
+                aria-label={`Select row ${index! + 1}`}
+              />
+            )
+          )}
+        </div>
+      )}
+      <div
+        className="sticky z-[1] flex shrink-0 items-center bg-background px-3 text-muted-foreground"
+        style={{ width: INDEX_WIDTH, left: selection ? SELECT_WIDTH : 0 }}
+      >
+        {header ? '#' : index! + 1}
+      </div>
+    </>
+  );
+
+  return (
+    <div
+      ref={scrollRef}
+      className="relative overflow-auto rounded-md border text-sm"
+      style={{ maxHeight: height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      role="grid"
+      aria-rowcount={rowCount}
+    >
+      <div style={{ width: totalWidth, minWidth: '100%' }}>
+        {/* Headers */}
+        <div className="sticky top-0 z-[2] border-b bg-background" role="rowgroup">
+          <div className="flex font-medium" style={{ height: HEADER_HEIGHT }} role="row">
+            {leadingCells(true)}
+            {visible.map((col) => {
+              const sortIndex = sortTerms.findIndex((term) => term.column === col.name);
+              const sortTerm = sortTerms[sortIndex];
+              return (
+                <div
+                  key={col.name}
+                  role="columnheader"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', col.name);
+                    setDragging(col.name);
+                  }}
+                  onDragEnd={() => setDragging(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const name = e.dataTransfer.getData('text/plain');
+                    if (name) layout.moveColumn(name, col.name);
+                    setDragging(null);
+                  }}
+                  className={cn(
+                    'relative flex shrink-0 items-center bg-background px-3',
+                    dragging === col.name && 'opacity-50'
+                  )}
+                  style={{ width: col.width, ...stickyStyle(col.name) }}
+                >
+                  <button
+                    type="button"
+                    className="flex min-w-0 items-center gap-2 text-left"
+                    onClick={(e) => onSort?.(col.name, e.shiftKey)}
+                    title="Sort by this column (Shift+click to add it to the current sort); drag to reorder"
+                  >
+                    <div className="flex min-w-0 flex-col">
+                      <span className="flex items-center gap-1 truncate">
+                        {col.pinned && <Pin className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                        {col.name}
+                      </span>
+                      <span className="truncate text-xs font-normal text-muted-foreground">
+                        {col.type}{col.nullable ? ' · nullable' : ''}
+                      </span>
+                    </div>
+                    {onSort &&
+                      (sortTerm ? (
+                        <span className="flex shrink-0 items-center">
+                          {sortTerm.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />}
+                          {sortTerms.length > 1 && <span className="text-xs">{sortIndex + 1}</span>}
+                        </span>
+                      ) : (
+                        <ArrowUpDown className="h-3 w-3 shrink-0 opacity-30" />
+                      ))}
+                  </button>
+                  <div
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-border"
+                    onPointerDown={(e) => startResize(e, col.name, col.width)}
+                    onDoubleClick={() => layout.setWidth(col.name, DEFAULT_COLUMN_WIDTH)}
+                    aria-hidden
+                  />
+                </div>
+              );
+            })}
+            {renderRowActions && <div className="sticky right-0 shrink-0 bg-background" style={{ width: actionsWidth }} />}
+          </div>
+          {renderFilter && (
+            <div className="flex items-center" style={{ height: FILTER_ROW_HEIGHT }} role="row">
+              <div
+                className="sticky left-0 z-[1] h-full shrink-0 bg-background"
+                style={{ width: (selection ? SELECT_WIDTH : 0) + INDEX_WIDTH }}
+              />
+              {visible.map((col) => (
+                <div
+                  key={col.name}
+                  className="flex shrink-0 items-center bg-background px-2"
+                  style={{ width: col.width, ...stickyStyle(col.name) }}
+                >
+                  {renderFilter(col)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Rows */}
+        {rowCount === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">{emptyMessage}</div>
+        ) : (
+          <div style={{ height: rowCount * GRID_ROW_HEIGHT, position: 'relative' }} role="rowgroup">
+            {rendered.map(({ index, row }) => (
+              <div
+                key={index}
+                role="row"
+                aria-rowindex={index + 1}
+                className={cn('absolute flex border-b', row && rowClassName?.(row, index))}
+                style={{ top: index * GRID_ROW_HEIGHT, height: GRID_ROW_HEIGHT, width: totalWidth, minWidth: '100%' }}
+              >
+                {leadingCells(false, index, row)}
+                {visible.map((col) => (
+                  <div
+                    key={col.name}
+                    role="gridcell"
+                    className={cn(
+                      'flex shrink-0 items-center overflow-hidden whitespace-nowrap px-3',
+                      offsets.has(col.name) && 'bg-background',
+                      row && cellClassName
+                    )}
+                    style={{ width: col.width, ...stickyStyle(col.name) }}
+                    onDoubleClick={() => row && onCellDoubleClick?.(row, col)}
+                  >
+                    {row ? (
+                      <span className="min-w-0 flex-1 truncate">{renderCell(row, col, index)}</span>
+                    ) : (
+                      <span className="h-3 w-2/3 animate-pulse rounded bg-muted" />
+                    )}
+                  </div>
+                ))}
+                {renderRowActions && (
+                  <div
+                    className="sticky right-0 flex shrink-0 items-center bg-background"
+                    style={{ width: actionsWidth }}
+                  >
+                    {row && renderRowActions(row, index)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Menu for hiding, pinning and resetting grid columns
+ */
+export function DataGridColumnMenu({ layout }: { layout: GridLayoutControls }) {
+  const hiddenCount = layout.columns.filter((col) => col.hidden).length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="mr-2 h-4 w-4" />
+          Columns{hiddenCount > 0 && ` (${hiddenCount} hidden)`}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-96 w-64 overflow-y-auto">
+        <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+        {layout.columns.map((col) => (
+          <DropdownMenuCheckboxItem
+            key={col.name}
+            checked={!col.hidden}
+            onCheckedChange={() => layout.toggleHidden(col.name)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="flex-1 truncate">{col.name}</span>
+            <button
+              type="button"
+              className="ml-2 text-muted-foreground hover:text-foreground"
+              onClick={(e) => {
+                e.stopPropagation();
+                layout.togglePinned(col.name);
+              }}
+              title={col.pinned ? 'Unpin column' : 'Pin column to the left'}
+              aria-label={col.pinned ? `Unpin ${col.name}` : `Pin ${col.name}`}
+            >
+              {col.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+            </button>
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={layout.reset}>Reset layout</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
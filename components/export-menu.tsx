@@ -0,0 +1,125 @@
+/**
+ * Export Menu Component
+ * Downloads a result as CSV, JSON, NDJSON or SQL INSERT statements. Sources are
+ * re-run and streamed by the export endpoint; `rows` (e.g. the selected rows)
+ * are formatted in the browser.
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { columnInputKind } from '@/lib/spacetime/column-values';
+import { gridViewToParams, type GridView } from '@/lib/spacetime/grid-view';
+import { stringifyWire } from '@/lib/spacetime/json';
+import {
+  EXPORT_FORMATS,
+  exportFilename,
+  exportRows,
+  type ExportColumn,
+  type ExportFormat,
+} from '@/lib/spacetime/export';
+import type { SqlParams } from '@/types/api';
+
+export interface ExportSource {
+  label: string;
+  sql: string;
+  params?: SqlParams;
+  view?: GridView;
+}
+
+interface ExportMenuProps {
+  columns: ExportColumn[];
+  // Table INSERT statements target; also names the file
+  table?: string | null;
+  sources?: ExportSource[];
+  rows?: { label: string; rows: Record<string, unknown>[] };
+  disabled?: boolean;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+function exportUrl(source: ExportSource, format: ExportFormat, table?: string | null): string {
+  const params = source.view ? gridViewToParams(source.view) : new URLSearchParams();
+  params.set('sql', source.sql);
+  if (source.params) params.set('params', stringifyWire(source.params));
+  params.set('format', format);
+  if (table) params.set('table', table);
+  return `/api/sql/export?${params}`;
+}
+
+function downloadRows(format: ExportFormat, columns: ExportColumn[], rows: Record<string, unknown>[], table?: string | null) {
+  let content: string;
+  try {
+    content = exportRows(format, columns, rows, table);
+  } catch (error) {
+    toast.error('Export failed', { description: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: EXPORT_FORMATS[format].contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFilename(table ?? 'query', format);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportMenu({ columns, table, sources = [], rows, disabled }: ExportMenuProps) {
+  // Structs, enums and arrays have no SQL literal, and INSERTs need a target table
+  const canExportSql = !!table && columns.every((col) => columnInputKind(col.type) !== 'json');
+  const formatDisabled = (format: ExportFormat) => format === 'sql' && !canExportSql;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {sources.map((source) => (
+          <DropdownMenuSub key={source.label}>
+            <DropdownMenuSubTrigger>{source.label}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {FORMATS.map((format) => (
+                <DropdownMenuItem key={format} disabled={formatDisabled(format)} asChild>
+                  <a href={exportUrl(source, format, table)} download>
+                    {EXPORT_FORMATS[format].label}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+        {rows && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={rows.rows.length === 0}>{rows.label}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={format}
+                  disabled={formatDisabled(format)}
+                  onSelect={() => downloadRows(format, columns, rows.rows, table)}
+                >
+                  {EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,413 @@
+/**
+ * Import Dialog Component
+ * Wizard for loading rows from a CSV, JSON or NDJSON file: pick the file, map its
+ * fields to columns, review rows that won't convert, then insert in batches.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ReducerMappingSelect } from '@/components/reducer-mapping-select';
+import { formatCellValue } from '@/lib/spacetime/column-values';
+import { isSqlWritable } from '@/lib/spacetime/sql';
+import {
+  autoMapColumns,
+  detectImportFormat,
+  parseImportFile,
+  prepareImport,
+  rejectionReport,
+  unmappedRequiredColumns,
+  type ImportFile,
+  type ImportFormat,
+  type ImportMapping,
+  type ImportRejection,
+} from '@/lib/spacetime/import';
+import { useImportRows, type ImportProgress } from '@/hooks/use-table-data';
+import { Download, RefreshCw, Upload } from 'lucide-react';
+import type { Reducer } from '@/hooks/use-reducers';
+import type { TableMetadata } from '@/types/spacetime';
+
+type Step = 'file' | 'map' | 'review' | 'run';
+
+interface ImportDialogProps {
+  table: TableMetadata;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reducers: Reducer[];
+  insertReducer: string | undefined;
+  onInsertReducerChange: (reducer: string | undefined) => void;
+}
+
+const SKIP_VALUE = '__skip__';
+// Rejected rows listed in the review step; the report has all of them
+const REVIEW_LIMIT = 50;
+const PREVIEW_ROWS = 5;
+
+const FORMAT_LABELS: Record<ImportFormat, string> = { csv: 'CSV', json: 'JSON', ndjson: 'NDJSON' };
+
+function downloadReport(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv; charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/\.[^.]+$/, '')}-rejected.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ImportDialog({
+  table,
+  open,
+  onOpenChange,
+  reducers,
+  insertReducer,
+  onInsertReducerChange,
+}: ImportDialogProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [text, setText] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const reducer = reducers.find((r) => r.name === insertReducer);
+  const importRows = useImportRows(table.name, { columns: table.columns, reducer });
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('file');
+    setFileName('');
+    setText(null);
+    setFile(null);
+    setParseError(null);
+    setProgress(null);
+  }, [open]);
+
+  // Re-parse when the file or the chosen format changes
+  useEffect(() => {
+    if (text === null) return;
+    try {
+      const parsed = parseImportFile(text, format);
+      setFile(parsed);
+      setMapping(autoMapColumns(table.columns, parsed.fields));
+      setParseError(null);
+    } catch (error) {
+      setFile(null);
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  }, [text, format, table.columns]);
+
+  const prepared = useMemo(
+    () => (file && step !== 'file' && step !== 'map' ? prepareImport(file, mapping, table.columns) : null),
+    [file, mapping, step, table.columns]
+  );
+
+  const unmapped = unmappedRequiredColumns(table.columns, mapping);
+  const unwritable = insertReducer ? [] : table.columns.filter((col) => !isSqlWritable(col));
+  const running = step === 'run' && importRows.isPending;
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const content = await selected.text();
+    setFileName(selected.name);
+    setFormat(detectImportFormat(selected.name, content));
+    setText(content);
+  };
+
+  const handleStart = async () => {
+    if (!prepared) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ total: prepared.rows.length, done: 0, inserted: 0, failed: [], cancelled: false });
+    setStep('run');
+    try {
+      const result = await importRows.mutateAsync({
+        rows: prepared.rows,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setProgress(result);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Rows that didn't convert plus rows the database refused
+  const rejected: ImportRejection[] = [
+    ...(prepared?.rejected ?? []),
+    ...(progress?.failed ?? []).map(({ row, error }) => ({ line: row.line, record: row.record, error })),
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import rows</DialogTitle>
+          <DialogDescription>
+            Load rows into <span className="font-mono">{table.name}</span> from a CSV, JSON or NDJSON file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">
+                CSV files need a header row. JSON files hold an array of objects; NDJSON files one object per line.
+              </p>
+            </div>
+            {text !== null && (
+              <div className="space-y-2">
+                <Label htmlFor="import-format">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+                  <SelectTrigger id="import-format" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((key) => (
+                      <SelectItem key={key} value={key}>{FORMAT_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {file && (
+              <p className="text-sm text-muted-foreground">
+                {file.records.length.toLocaleString()} {file.records.length === 1 ? 'record' : 'records'} with{' '}
+                {file.fields.length} {file.fields.length === 1 ? 'field' : 'fields'}
+              </p>
+            )}
+            {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+          </div>
+        )}
+
+        {step === 'map' && file && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Choose the file field for each column. Fields with matching names are mapped already.
+            </p>
+            {table.columns.map((column) => {
+              const id = `import-map-${column.name}`;
+              const field = mapping[column.name];
+              const sample = field ? file.records.find((record) => record[field] !== undefined)?.[field] : undefined;
+              return (
+                <div key={column.name} className="grid grid-cols-[1fr_1fr] items-center gap-3">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Label htmlFor={id} className="truncate font-mono">{column.name}</Label>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {column.dataType}{column.nullable ? '?' : ''}
+                    </Badge>
+                    {column.isAutoIncrement && <Badge variant="secondary" className="text-xs">AUTO INC</Badge>}
+                  </div>
+                  <div className="min-w-0 space-y-1">
+                    <Select
+                      value={field ?? SKIP_VALUE}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [column.name]: value === SKIP_VALUE ? undefined : value }))
+                      }
+                    >
+                      <SelectTrigger id={id} className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_VALUE}>
+                          {column.isAutoIncrement ? '— assign automatically —' : column.nullable ? '— leave null —' : '— not mapped —'}
+                        </SelectItem>
+                        {file.fields.map((name) => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {sample !== undefined && (
+                      <p className="truncate font-mono text-xs text-muted-foreground">e.g. {formatCellValue(sample, column.dataType)}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {unmapped.length > 0 && (
+              <p className="text-sm text-destructive">
+                Map a field to {unmapped.map((col) => col.name).join(', ')}; {unmapped.length === 1 ? 'it is' : 'they are'} required.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && prepared && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{prepared.rows.length.toLocaleString()} ready</Badge>
+              {prepared.rejected.length > 0 && (
+                <Badge variant="destructive">{prepared.rejected.length.toLocaleString()} rejected</Badge>
+              )}
+            </div>
+
+            {prepared.rows.length > 0 && (
+              <div className="max-h-48 overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">#</TableHead>
+                      {table.columns.map((col) => (
+                        <TableHead key={col.name} className="whitespace-nowrap">{col.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {prepared.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        {table.columns.map((col) => (
+                          <TableCell key={col.name} className="max-w-xs truncate font-mono text-xs">
+                            {col.name in row.values ? formatCellValue(row.values[col.name], col.dataType) : 'auto'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {prepared.rejected.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Rows that won&apos;t be imported</p>
+                <div className="max-h-56 overflow-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">#</TableHead>
+                        <TableHead>Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {prepared.rejected.slice(0, REVIEW_LIMIT).map((item) => (
+                        <TableRow key={item.line}>
+                          <TableCell className="text-muted-foreground">{item.line}</TableCell>
+                          <TableCell className="text-xs text-destructive">{item.error}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {prepared.rejected.length > REVIEW_LIMIT && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {REVIEW_LIMIT}; download the report for all of them.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="import-via">Insert via</Label>
+              <ReducerMappingSelect
+                id="import-via"
+                sqlLabel="SQL INSERT"
+                reducers={reducers}
+                value={insertReducer}
+                onChange={onInsertReducerChange}
+              />
+              {insertReducer && (
+                <p className="text-xs text-muted-foreground">
+                  The reducer is called once per row; its parameters are filled from columns with the same name.
+                </p>
+              )}
+              {unwritable.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {unwritable.map((col) => col.name).join(', ')} can&apos;t be written in SQL; choose an insert reducer.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'run' && progress && (
+          <div className="space-y-4">
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {progress.done.toLocaleString()} of {progress.total.toLocaleString()} rows processed ·{' '}
+              {progress.inserted.toLocaleString()} inserted
+              {progress.failed.length > 0 && ` · ${progress.failed.length.toLocaleString()} failed`}
+              {progress.cancelled && ' · cancelled'}
+            </p>
+            {!running && (
+              <p className="text-sm">
+                {progress.cancelled ? 'Import cancelled.' : 'Import finished.'}{' '}
+                {rejected.length > 0
+                  ? `${rejected.length.toLocaleString()} ${rejected.length === 1 ? 'row was' : 'rows were'} not imported.`
+                  : 'Every row was imported.'}
+              </p>
+            )}
+            {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {(step === 'review' || step === 'run') && rejected.length > 0 && !running && file && (
+            <Button variant="outline" onClick={() => downloadReport(fileName, rejectionReport(file.fields, rejected))}>
+              <Download className="mr-2 h-4 w-4" />
+              Download report
+            </Button>
+          )}
+
+          {step === 'file' && (
+            <Button onClick={() => setStep('map')} disabled={!file || file.records.length === 0}>
+              Next
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')}>Back</Button>
+              <Button onClick={() => setStep('review')} disabled={unmapped.length > 0}>Next</Button>
+            </>
+          )}
+          {step === 'review' && prepared && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button onClick={handleStart} disabled={prepared.rows.length === 0 || unwritable.length > 0}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import {prepared.rows.length.toLocaleString()} {prepared.rows.length === 1 ? 'row' : 'rows'}
+              </Button>
+            </>
+          )}
+          {step === 'run' &&
+            (running ? (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => onOpenChange(false)}>Close</Button>
+            ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,9 @@
 import { Moon, Sun, LogOut } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -16,6 +18,7 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
+import { useCurrentUser } from '@/hooks/use-users';
 
 interface HeaderProps {
   title?: string;
@@ -25,6 +28,8 @@ interface HeaderProps {
 export function Header({ title, description }: HeaderProps) {
   const { setTheme, theme } = useTheme();
   const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user } = useCurrentUser();
 
   const handleLogout = async () => {
     try {
@@ -33,6 +38,8 @@ export function Header({ title, description }: HeaderProps) {
       });
 
       if (response.ok) {
+        // Drop cached data so the next user doesn't see it
+        queryClient.clear();
         toast.success('Logged out successfully');
         router.push('/login');
         router.refresh();
@@ -55,6 +62,13 @@ export function Header({ title, description }: HeaderProps) {
       </div>
 
       <div className="flex items-center gap-2">
+        {user && (
+          <div className="mr-2 flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{user.username}</span>
+            <Badge variant="outline" className="capitalize">{user.role}</Badge>
+          </div>
+        )}
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" size="icon">
@@ -6,7 +6,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { cn } from '@/lib/utils';
+import { cn, formatCompactNumber } from '@/lib/utils';
 import {
   Database,
   Table,
@@ -17,6 +17,11 @@ import {
   CheckCircle2,
   Loader2,
   Zap,
+  ScrollText,
+  Terminal,
+  FileCode,
+  Users,
+  History,
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
@@ -24,6 +29,8 @@ import { useConnection } from '@/hooks/use-connection';
 import { useTables } from '@/hooks/use-tables';
 import { useReducers } from '@/hooks/use-reducers';
 import { useReducerMetadata } from '@/hooks/use-reducer-metadata';
+import { useCurrentUser } from '@/hooks/use-users';
+import { useSavedQueries } from '@/hooks/use-saved-queries';
 import { useMemo, useState } from 'react';
 import { ChevronDown, ChevronRight } from 'lucide-react';
 
@@ -33,6 +40,8 @@ export function Sidebar() {
   const { data: tablesData, isLoading: isTablesLoading } = useTables();
   const { data: reducersData, isLoading: isReducersLoading } = useReducers();
   const { data: reducerMetadata, isLoading: isMetaLoading } = useReducerMetadata();
+  const { can } = useCurrentUser();
+  const { data: savedQueriesData, isLoading: isQueriesLoading } = useSavedQueries();
 
   const [openCategories, setOpenCategories] = useState<Record<string, boolean>>({});
   const [openTableGroups, setOpenTableGroups] = useState<Record<string, boolean>>({});
@@ -41,6 +50,7 @@ export function Sidebar() {
   const hasError = health?.status === 'error';
   const tables = tablesData?.tables || [];
   const reducers = reducersData?.reducers || [];
+  const savedQueries = savedQueriesData?.queries || [];
 
   const metaByName = useMemo(() => {
     const map = new Map<string, {
@@ -93,14 +103,14 @@ export function Sidebar() {
     if (!tables.length) return null;
 
     // Group by prefix before first underscore; fallback to 'other'
-    const groups: Record<string, { name: string }[]> = {};
+    const groups: Record<string, { name: string; rowCount?: number; lowerBound?: boolean }[]> = {};
     for (const t of tables) {
       const name = typeof t === 'string' ? t : (t as any).name;
       const idx = name.indexOf('_');
       // If no underscore, group by the full table name (single-word group)
       const rawGroup = idx > 0 ? name.slice(0, idx) : name;
       const group = rawGroup.trim().toLowerCase() || 'other';
-      (groups[group] ||= []).push({ name });
+      (groups[group] ||= []).push({ name, rowCount: t.stats?.rowCount, lowerBound: t.stats?.lowerBound });
     }
     // Sort names inside each group
     Object.values(groups).forEach(list => list.sort((a, b) => a.name.localeCompare(b.name)));
@@ -126,19 +136,33 @@ export function Sidebar() {
       {/* Navigation */}
       <ScrollArea className="flex-1 min-h-0 px-3 py-4">
         <nav className="flex flex-col gap-4">
-          {/* Dashboard Link */}
-          <Link
-            href="/"
-            className={cn(
-              'flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
-              pathname === '/'
-                ? 'bg-primary text-primary-foreground'
-                : 'text-muted-foreground hover:bg-muted hover:text-foreground'
-            )}
-          >
-            <LayoutDashboard className="h-4 w-4" />
-            Dashboard
-          </Link>
+          {/* Dashboard and SQL Console */}
+          <div className="space-y-1">
+            <Link
+              href="/"
+              className={cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                pathname === '/'
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+              )}
+            >
+              <LayoutDashboard className="h-4 w-4" />
+              Dashboard
+            </Link>
+            <Link
+              href="/sql"
+              className={cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors',
+                pathname.startsWith('/sql')
+                  ? 'bg-primary text-primary-foreground'
+                  : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+              )}
+            >
+              <Terminal className="h-4 w-4" />
+              SQL Console
+            </Link>
+          </div>
 
           <Separator />
 
@@ -194,6 +218,11 @@ export function Sidebar() {
                             >
                               <Table className="h-4 w-4 shrink-0" />
                               <span className="truncate">{item.name}</span>
+                              {item.rowCount !== undefined && (
+                                <span className="ml-auto text-[10px] tabular-nums opacity-70">
+                                  {item.lowerBound ? '≥' : ''}{formatCompactNumber(item.rowCount)}
+                                </span>
+                              )}
                             </Link>
                           );
                         })}
@@ -219,6 +248,11 @@ export function Sidebar() {
                   >
                     <Table className="h-4 w-4 shrink-0" />
                     <span className="truncate">{table.name}</span>
+                    {table.stats && (
+                      <span className="ml-auto text-[10px] tabular-nums opacity-70">
+                        {table.stats.lowerBound ? '≥' : ''}{formatCompactNumber(table.stats.rowCount)}
+                      </span>
+                    )}
                   </Link>
                 );
               })
@@ -227,11 +261,53 @@ export function Sidebar() {
 
           <Separator />
 
+          {/* Queries Section */}
+          <div className="space-y-1">
+            <div className="px-3 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+              Queries
+            </div>
+            {isQueriesLoading ? (
+              <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                <span>Loading...</span>
+              </div>
+            ) : savedQueries.length === 0 ? (
+              <div className="px-3 py-2 text-xs text-muted-foreground">Save queries from the SQL Console</div>
+            ) : (
+              savedQueries.map((query) => (
+                <Link
+                  key={query.id}
+                  href={`/sql?query=${encodeURIComponent(query.id)}`}
+                  title={query.description || query.name}
+                  className="flex items-center gap-3 rounded-lg px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                >
+                  <FileCode className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{query.name}</span>
+                  {query.visibility === 'team' && <Users className="ml-auto h-3 w-3 shrink-0 opacity-70" />}
+                </Link>
+              ))
+            )}
+          </div>
+
+          <Separator />
+
           {/* Reducers Section */}
           <div className="space-y-1">
             <div className="px-3 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
               Reducers
             </div>
+            <Link
+              href="/reducers"
+              className={cn(
+                'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                pathname === '/reducers'
+                  ? 'bg-primary text-primary-foreground font-medium'
+                  : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+              )}
+            >
+              <History className="h-4 w-4" />
+              Call History
+            </Link>
             {isReducersLoading || isMetaLoading ? (
               <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
                 <Loader2 className="h-3 w-3 animate-spin" />
@@ -329,6 +405,20 @@ export function Sidebar() {
               <Download className="h-4 w-4" />
               Backup & Restore
             </Link>
+            {can('audit:read') && (
+              <Link
+                href="/audit"
+                className={cn(
+                  'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
+                  pathname.startsWith('/audit')
+                    ? 'bg-primary text-primary-foreground font-medium'
+                    : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+                )}
+              >
+                <ScrollText className="h-4 w-4" />
+                Audit Log
+              </Link>
+            )}
             <Link
               href="/settings"
               className={cn(
@@ -0,0 +1,87 @@
+/**
+ * Preset Variables Dialog Component
+ * Asks for the values of a reducer preset's `{{name}}` variables before it runs
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Play } from 'lucide-react';
+import { promptVariables } from '@/lib/spacetime/reducer-args';
+import type { ReducerPreset } from '@/types/api';
+
+interface PresetVariablesDialogProps {
+  // The dialog is open while this is set
+  preset: ReducerPreset | null;
+  onCancel: () => void;
+  onRun: (values: Record<string, string>) => void;
+}
+
+// Last value entered per variable name, kept for the session
+const lastValues: Record<string, string> = {};
+
+export function PresetVariablesDialog({ preset, onCancel, onRun }: PresetVariablesDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const names = preset ? promptVariables(preset.args) : [];
+
+  useEffect(() => {
+    if (!preset) return;
+    setValues(Object.fromEntries(promptVariables(preset.args).map((name) => [name, lastValues[name] ?? ''])));
+  }, [preset]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    Object.assign(lastValues, values);
+    onRun(values);
+  };
+
+  return (
+    <Dialog open={!!preset} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Run {preset?.name}</DialogTitle>
+            <DialogDescription>
+              A value standing alone is converted to the parameter&apos;s type, so numbers, booleans and
+              identities are entered as plain text.
+            </DialogDescription>
+          </DialogHeader>
+
+          {names.map((name, index) => (
+            <div key={name} className="space-y-2">
+              <Label htmlFor={`variable-${name}`} className="font-mono">{name}</Label>
+              <Input
+                id={`variable-${name}`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                autoFocus={index === 0}
+                className="font-mono"
+              />
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              <Play className="mr-2 h-4 w-4" />
+              Run
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,30 +1,46 @@
 /**
  * Query Builder Component
- * Schema-based SQL query builder with visual dropdowns
+ * Schema-based SQL query builder with visual dropdowns, plus saved queries
  */
 
 'use client';
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { Play, Plus, X, Code } from 'lucide-react';
+import { SavedQueryDialog } from '@/components/saved-query-dialog';
+import { QueryParamsDialog } from '@/components/query-params-dialog';
+import { Play, Plus, X, Code, Save } from 'lucide-react';
 import { toast } from 'sonner';
+import { queryPlaceholders, sqlLiteral } from '@/lib/spacetime/sql';
+import { columnInputKind, fromInputValue, type EditableColumn } from '@/lib/spacetime/column-values';
+import { useCreateSavedQuery, useSavedQueries } from '@/hooks/use-saved-queries';
+import type { SavedQuery, SavedQueryInput, SqlParams } from '@/types/api';
 
 interface Column {
   name: string;
   type: string;
   dataType?: string;
+  nullable?: boolean;
 }
 
 interface QueryBuilderProps {
   tableName: string;
   columns: Column[];
-  onExecute?: (sql: string) => void;
+  // Condition values are passed as `$1`, `$2`, … params, typed by their column
+  onExecute?: (sql: string, params?: SqlParams) => void;
 }
 
 interface WhereClause {
@@ -46,12 +62,26 @@ const OPERATORS = [
   { value: 'IS NOT NULL', label: 'Is Not Null' },
 ];
 
+const NULL_OPERATORS = ['IS NULL', 'IS NOT NULL'];
+
 export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProps) {
   const [queryType, setQueryType] = useState<'SELECT' | 'DELETE'>('SELECT');
   const [selectedColumns, setSelectedColumns] = useState<string[]>(['*']);
   const [whereClauses, setWhereClauses] = useState<WhereClause[]>([]);
   const [limit, setLimit] = useState('100');
   const [showSQL, setShowSQL] = useState(false);
+  const [savedQueryId, setSavedQueryId] = useState('');
+  const [pendingSql, setPendingSql] = useState<string | null>(null);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+
+  const { data: savedData } = useSavedQueries();
+  const createSavedQuery = useCreateSavedQuery();
+
+  // Saved queries that mention this table are listed first
+  const tablePattern = new RegExp(`\\b${tableName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+  const savedQueries = savedData?.queries ?? [];
+  const tableQueries = savedQueries.filter((query) => tablePattern.test(query.sql));
+  const otherQueries = savedQueries.filter((query) => !tablePattern.test(query.sql));
 
   const addWhereClause = () => {
     const newClause: WhereClause = {
@@ -68,9 +98,19 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
   };
 
   const updateWhereClause = (id: string, field: keyof WhereClause, value: string) => {
-    setWhereClauses(whereClauses.map(c => 
-      c.id === id ? { ...c, [field]: value } : c
-    ));
+    setWhereClauses(whereClauses.map(c => {
+      if (c.id !== id) return c;
+      const updated = { ...c, [field]: value };
+      // Null checks only apply to Option<T> columns
+      if (NULL_OPERATORS.includes(updated.operator) && !isNullable(updated.column)) {
+        updated.operator = '=';
+      }
+      return updated;
+    }));
+  };
+
+  const isNullable = (columnName: string): boolean => {
+    return Boolean(columns.find(col => col.name === columnName)?.nullable);
   };
 
   const toggleColumn = (columnName: string) => {
@@ -87,7 +127,29 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
     }
   };
 
-  const buildSQL = (): string => {
+  /**
+   * Column type a condition's value is read as; LIKE patterns and struct/enum columns are text
+   */
+  const clauseColumn = (clause: WhereClause): EditableColumn => {
+    const column = columns.find(col => col.name === clause.column);
+    const dataType = column?.dataType ?? column?.type ?? 'string';
+    return {
+      name: clause.column,
+      dataType: clause.operator === 'LIKE' || columnInputKind(dataType) === 'json' ? 'string' : dataType,
+      nullable: false,
+    };
+  };
+
+  // Conditions with a value to compare against (null checks need none)
+  const valueClauses = whereClauses.filter(c => !NULL_OPERATORS.includes(c.operator) && c.value.trim() !== '');
+
+  // Throws an `Error` naming the column when the value doesn't parse
+  const clauseValue = (clause: WhereClause): unknown => fromInputValue(clauseColumn(clause), clause.value);
+
+  /**
+   * SQL for the current selections, with each condition value written by `renderValue`
+   */
+  const buildSQL = (renderValue: (clause: WhereClause, index: number) => string): string => {
     let sql = '';
 
     if (queryType === 'DELETE') {
@@ -103,42 +165,34 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
     }
 
     // WHERE clause (common for both SELECT and DELETE)
-    if (whereClauses.length > 0) {
-      const validClauses = whereClauses.filter(c => {
-        if (c.operator === 'IS NULL' || c.operator === 'IS NOT NULL') {
-          return true;
+    const validClauses = whereClauses.filter(c => NULL_OPERATORS.includes(c.operator) || valueClauses.includes(c));
+    if (validClauses.length > 0) {
+      const whereConditions = validClauses.map(c => {
+        if (NULL_OPERATORS.includes(c.operator)) {
+          return `${c.column} ${c.operator}`;
         }
-        return c.value.trim() !== '';
+        return `${c.column} ${c.operator} ${renderValue(c, valueClauses.indexOf(c))}`;
       });
 
-      if (validClauses.length > 0) {
-        const whereConditions = validClauses.map(c => {
-          if (c.operator === 'IS NULL' || c.operator === 'IS NOT NULL') {
-            return `${c.column} ${c.operator}`;
-          }
-          
-          // Auto-quote string values if needed
-          const columnType = columns.find(col => col.name === c.column)?.type || '';
-          const needsQuotes = columnType.toLowerCase().includes('string') || 
-                             columnType.toLowerCase().includes('text');
-          
-          const value = needsQuotes && !c.value.startsWith("'") 
-            ? `'${c.value.replace(/'/g, "''")}'` 
-            : c.value;
-
-          return `${c.column} ${c.operator} ${value}`;
-        });
-
-        sql += ` WHERE ${whereConditions.join(' AND ')}`;
-      }
+      sql += ` WHERE ${whereConditions.join(' AND ')}`;
     }
 
     return sql;
   };
 
+  // Values are sent as params and bound by the server, never spliced into the statement
+  const parameterizedSQL = () => buildSQL((_clause, index) => `$${index + 1}`);
+
+  // The statement with its values written in, for the preview and saved queries
+  const previewSQL = (): string => {
+    try {
+      return buildSQL((clause) => sqlLiteral(clauseColumn(clause), clauseValue(clause)));
+    } catch {
+      return parameterizedSQL();
+    }
+  };
+
   const handleExecute = async () => {
-    const sql = buildSQL();
-    
     // Require WHERE clause for DELETE operations as a safety measure
     if (queryType === 'DELETE' && whereClauses.length === 0) {
       toast.error('Safety Check', {
@@ -147,12 +201,21 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
       return;
     }
     
+    let params: unknown[];
+    try {
+      params = valueClauses.map(clauseValue);
+    } catch (error) {
+      toast.error('Invalid condition', { description: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
     try {
       if (onExecute) {
         // Execute the query through the parent component
-        onExecute(sql);
+        onExecute(parameterizedSQL(), params);
       } else {
         // Fallback: copy SQL to clipboard
+        const sql = previewSQL();
         await navigator.clipboard.writeText(sql);
         toast.success('SQL copied to clipboard!', { description: sql });
       }
@@ -161,10 +224,65 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
     }
   };
 
-  const generatedSQL = buildSQL();
+  const handleRunSaved = () => {
+    const query = savedQueries.find((saved) => saved.id === savedQueryId);
+    if (!query || !onExecute) return;
+    if (queryPlaceholders(query.sql).length > 0) {
+      setPendingSql(query.sql);
+    } else {
+      onExecute(query.sql);
+    }
+  };
+
+  const handleSave = async (values: SavedQueryInput) => {
+    const query = await createSavedQuery.mutateAsync(values);
+    setSavedQueryId(query.id);
+    toast.success(`Saved ${query.name}`);
+  };
+
+  const renderSavedItem = (query: SavedQuery) => (
+    <SelectItem key={query.id} value={query.id}>
+      {query.name}
+      {query.visibility === 'team' && <span className="ml-1 text-xs opacity-70">(team)</span>}
+    </SelectItem>
+  );
+
+  const generatedSQL = previewSQL();
 
   return (
     <div className="space-y-6">
+      {/* Saved Queries */}
+      {savedQueries.length > 0 && onExecute && (
+        <div className="space-y-2">
+          <Label>Saved Queries</Label>
+          <div className="flex gap-2">
+            <Select value={savedQueryId} onValueChange={setSavedQueryId}>
+              <SelectTrigger className="w-[320px]">
+                <SelectValue placeholder="Choose a saved query" />
+              </SelectTrigger>
+              <SelectContent>
+                {tableQueries.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>{tableName}</SelectLabel>
+                    {tableQueries.map(renderSavedItem)}
+                  </SelectGroup>
+                )}
+                {otherQueries.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Other tables</SelectLabel>
+                    {otherQueries.map(renderSavedItem)}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleRunSaved} disabled={!savedQueryId}>
+              <Play className="mr-2 h-4 w-4" />
+              Run
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Query Type Selector */}
       <div className="space-y-2">
         <Label>Query Type</Label>
@@ -254,7 +372,7 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {OPERATORS.map((op) => (
+                      {OPERATORS.filter(op => isNullable(clause.column) || !NULL_OPERATORS.includes(op.value)).map((op) => (
                         <SelectItem key={op.value} value={op.value}>
                           {op.label}
                         </SelectItem>
@@ -318,6 +436,10 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
           <Play className="mr-2 h-4 w-4" />
           Execute {queryType}
         </Button>
+        <Button variant="outline" onClick={() => setShowSaveDialog(true)}>
+          <Save className="mr-2 h-4 w-4" />
+          Save
+        </Button>
         <Button
           variant="outline"
           onClick={() => {
@@ -343,6 +465,23 @@ export function QueryBuilder({ tableName, columns, onExecute }: QueryBuilderProp
           You must specify WHERE conditions to prevent deleting all data.
         </div>
       )}
+
+      <QueryParamsDialog
+        sql={pendingSql}
+        title={savedQueries.find((saved) => saved.id === savedQueryId)?.name}
+        onCancel={() => setPendingSql(null)}
+        onRun={(sql, params) => {
+          setPendingSql(null);
+          onExecute?.(sql, params);
+        }}
+      />
+
+      <SavedQueryDialog
+        open={showSaveDialog}
+        onOpenChange={setShowSaveDialog}
+        sql={generatedSQL}
+        onSubmit={handleSave}
+      />
     </div>
   );
 }
@@ -0,0 +1,101 @@
+/**
+ * Query Parameters Dialog Component
+ * Asks for the values of a query's `{{name}}` placeholders before it runs
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Play } from 'lucide-react';
+import { placeholderParams, queryPlaceholders } from '@/lib/spacetime/sql';
+import type { SqlParams } from '@/types/api';
+
+interface QueryParamsDialogProps {
+  // SQL with placeholders; the dialog is open while this is set
+  sql: string | null;
+  title?: string;
+  onCancel: () => void;
+  // Receives the SQL with `:name` parameters and the values to bind to them
+  onRun: (sql: string, params: SqlParams) => void;
+}
+
+// Last value entered per placeholder name, kept for the session
+const lastValues: Record<string, string> = {};
+
+export function QueryParamsDialog({ sql, title, onCancel, onRun }: QueryParamsDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const names = sql ? queryPlaceholders(sql) : [];
+
+  useEffect(() => {
+    if (!sql) return;
+    setValues(Object.fromEntries(queryPlaceholders(sql).map((name) => [name, lastValues[name] ?? ''])));
+    setError(null);
+  }, [sql]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!sql) return;
+    Object.assign(lastValues, values);
+    let bound: ReturnType<typeof placeholderParams>;
+    try {
+      bound = placeholderParams(sql, values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    onRun(bound.sql, bound.params);
+  };
+
+  return (
+    <Dialog open={!!sql} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title ? `Run ${title}` : 'Query parameters'}</DialogTitle>
+            <DialogDescription>
+              Values are bound as parameters typed by the column they&apos;re compared with. Quoted placeholders
+              (<code className="font-mono">{"'{{name}}'"}</code>) are always text.
+            </DialogDescription>
+          </DialogHeader>
+
+          {names.map((name, index) => (
+            <div key={name} className="space-y-2">
+              <Label htmlFor={`param-${name}`} className="font-mono">{name}</Label>
+              <Input
+                id={`param-${name}`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                autoFocus={index === 0}
+                className="font-mono"
+              />
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              <Play className="mr-2 h-4 w-4" />
+              Run
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
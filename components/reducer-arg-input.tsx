@@ -0,0 +1,291 @@
+/**
+ * Reducer Argument Input Component
+ * Nested form for one reducer argument, built from its SATS type: field groups for
+ * structs, a variant picker for enums, editable lists for arrays and maps
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ColumnInput } from '@/components/column-input';
+import { columnInputKind, toInputValue } from '@/lib/spacetime/column-values';
+import { emptyArgValue, scalarArgColumn, type ArgFormValue } from '@/lib/spacetime/reducer-args';
+import { formatType, resolveType } from '@/lib/spacetime/sats';
+import type { SatsType, SatsTypespace } from '@/types/sats';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ReducerArgInputProps {
+  id: string;
+  type: SatsType;
+  typespace: SatsTypespace;
+  value: ArgFormValue;
+  onChange: (value: ArgFormValue) => void;
+  disabled?: boolean;
+}
+
+function TypeBadge({ type, typespace }: { type: SatsType; typespace: SatsTypespace }) {
+  return (
+    <Badge variant="outline" className="font-mono text-xs font-normal">
+      {formatType(type, typespace)}
+    </Badge>
+  );
+}
+
+export function ReducerArgInput({ id, type, typespace, value, onChange, disabled }: ReducerArgInputProps) {
+  if (value.kind === 'json') {
+    return (
+      <Textarea
+        id={id}
+        value={value.text}
+        onChange={(e) => onChange({ kind: 'json', text: e.target.value })}
+        placeholder="JSON value"
+        className="font-mono text-xs"
+        rows={3}
+        disabled={disabled}
+      />
+    );
+  }
+
+  const resolved = resolveType(type, typespace);
+
+  if (value.kind === 'scalar') {
+    const column = scalarArgColumn(resolved, typespace, id);
+    if (!column) return null;
+    const kind = columnInputKind(column.dataType);
+
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <ColumnInput
+            id={id}
+            column={column}
+            value={value.value}
+            onChange={(next) => onChange({ kind: 'scalar', value: next ?? '' })}
+            disabled={disabled}
+          />
+        </div>
+        {kind === 'timestamp' && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ kind: 'scalar', value: toInputValue(column, Date.now() * 1000) })}
+            disabled={disabled}
+          >
+            Now
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (value.kind === 'product' && resolved.kind === 'product') {
+    // Unit values have nothing to fill in
+    if (resolved.elements.length === 0) return null;
+
+    return (
+      <div className="space-y-3 rounded-md border p-3">
+        {resolved.elements.map((element, index) => {
+          const fieldId = `${id}-${index}`;
+          return (
+            <div key={index} className="space-y-1.5">
+              <Label htmlFor={fieldId} className="flex items-center gap-2">
+                {element.name ?? <span className="italic text-muted-foreground">field {index}</span>}
+                <TypeBadge type={element.type} typespace={typespace} />
+              </Label>
+              <ReducerArgInput
+                id={fieldId}
+                type={element.type}
+                typespace={typespace}
+                value={value.fields[index]}
+                onChange={(field) =>
+                  onChange({ ...value, fields: value.fields.map((current, i) => (i === index ? field : current)) })
+                }
+                disabled={disabled}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (value.kind === 'sum' && resolved.kind === 'sum') {
+    const variant = resolved.variants[value.variant];
+
+    return (
+      <div className="space-y-2">
+        <Select
+          value={String(value.variant)}
+          onValueChange={(next) => {
+            const index = Number(next);
+            onChange({ kind: 'sum', variant: index, payload: emptyArgValue(resolved.variants[index].type, typespace) });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} className="w-full max-w-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {resolved.variants.map((option, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {option.name ?? `variant ${index}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {variant && (
+          <ReducerArgInput
+            id={`${id}-value`}
+            type={variant.type}
+            typespace={typespace}
+            value={value.payload}
+            onChange={(payload) => onChange({ ...value, payload })}
+            disabled={disabled}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if (value.kind === 'option' && resolved.kind === 'option') {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5">
+          <Checkbox
+            id={`${id}-none`}
+            checked={value.inner === null}
+            onCheckedChange={(checked) =>
+              onChange({ kind: 'option', inner: checked ? null : emptyArgValue(resolved.inner, typespace) })
+            }
+            disabled={disabled}
+          />
+          <Label htmlFor={`${id}-none`} className="text-xs text-muted-foreground">
+            None
+          </Label>
+        </div>
+        {value.inner !== null && (
+          <ReducerArgInput
+            id={id}
+            type={resolved.inner}
+            typespace={typespace}
+            value={value.inner}
+            onChange={(inner) => onChange({ kind: 'option', inner })}
+            disabled={disabled}
+          />
+        )}
+      </div>
+    );
+  }
+
+  if (value.kind === 'array' && resolved.kind === 'array') {
+    return (
+      <div className="space-y-2">
+        {value.items.map((item, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="w-6 pt-2 text-right font-mono text-xs text-muted-foreground">{index}</span>
+            <div className="flex-1">
+              <ReducerArgInput
+                id={`${id}-${index}`}
+                type={resolved.element}
+                typespace={typespace}
+                value={item}
+                onChange={(next) =>
+                  onChange({ kind: 'array', items: value.items.map((current, i) => (i === index ? next : current)) })
+                }
+                disabled={disabled}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove item ${index}`}
+              onClick={() => onChange({ kind: 'array', items: value.items.filter((_, i) => i !== index) })}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ kind: 'array', items: [...value.items, emptyArgValue(resolved.element, typespace)] })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          Add item
+        </Button>
+      </div>
+    );
+  }
+
+  if (value.kind === 'map' && resolved.kind === 'map') {
+    const setEntry = (index: number, entry: (typeof value.entries)[number]) =>
+      onChange({ kind: 'map', entries: value.entries.map((current, i) => (i === index ? entry : current)) });
+
+    return (
+      <div className="space-y-2">
+        {value.entries.map((entry, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <div className="grid flex-1 grid-cols-2 gap-2">
+              <ReducerArgInput
+                id={`${id}-${index}-key`}
+                type={resolved.key}
+                typespace={typespace}
+                value={entry.key}
+                onChange={(key) => setEntry(index, { ...entry, key })}
+                disabled={disabled}
+              />
+              <ReducerArgInput
+                id={`${id}-${index}-value`}
+                type={resolved.value}
+                typespace={typespace}
+                value={entry.value}
+                onChange={(next) => setEntry(index, { ...entry, value: next })}
+                disabled={disabled}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove entry ${index}`}
+              onClick={() => onChange({ kind: 'map', entries: value.entries.filter((_, i) => i !== index) })}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              kind: 'map',
+              entries: [
+                ...value.entries,
+                { key: emptyArgValue(resolved.key, typespace), value: emptyArgValue(resolved.value, typespace) },
+              ],
+            })
+          }
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4" />
+          Add entry
+        </Button>
+      </div>
+    );
+  }
+
+  return null;
+}
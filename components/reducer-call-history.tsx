@@ -0,0 +1,122 @@
+/**
+ * Reducer Call History Component
+ * Recorded reducer calls with their arguments, outcome and table changes,
+ * each of which can be replayed with its arguments
+ */
+
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TableChanges } from '@/components/table-changes';
+import { toDisplayJson } from '@/lib/spacetime/json';
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import type { ReducerCallEntry } from '@/types/api';
+import type { AuditOutcome } from '@/types/audit';
+
+const STATUS_VARIANTS: Record<AuditOutcome, 'default' | 'secondary' | 'destructive'> = {
+  success: 'secondary',
+  denied: 'destructive',
+  error: 'destructive',
+};
+
+interface ReducerCallHistoryProps {
+  entries: ReducerCallEntry[];
+  // Show which reducer each call was for (the global history)
+  showReducer?: boolean;
+  onReplay: (entry: ReducerCallEntry) => void;
+}
+
+function changeSummary(entry: ReducerCallEntry): string {
+  if (!entry.changes) return '—';
+  const totals = entry.changes.reduce(
+    (sum, table) => sum + table.counts.inserted + table.counts.updated + table.counts.deleted,
+    0
+  );
+  return `${totals} row${totals === 1 ? '' : 's'} in ${entry.changes.length} table${entry.changes.length === 1 ? '' : 's'}`;
+}
+
+export function ReducerCallHistory({ entries, showReducer, onReplay }: ReducerCallHistoryProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const columnCount = showReducer ? 8 : 7;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-8" />
+          <TableHead>Time</TableHead>
+          {showReducer && <TableHead>Reducer</TableHead>}
+          <TableHead>User</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Duration</TableHead>
+          <TableHead>Changes</TableHead>
+          <TableHead className="w-24" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <Fragment key={entry.id}>
+            <TableRow className="cursor-pointer" onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}>
+              <TableCell>
+                {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </TableCell>
+              <TableCell className="whitespace-nowrap text-xs">{new Date(entry.calledAt).toLocaleString()}</TableCell>
+              {showReducer && <TableCell className="font-mono text-xs">{entry.reducer}</TableCell>}
+              <TableCell className="text-sm">{entry.username}</TableCell>
+              <TableCell>
+                <Badge variant={STATUS_VARIANTS[entry.status]} className="capitalize">
+                  {entry.status}
+                </Badge>
+              </TableCell>
+              <TableCell className="whitespace-nowrap text-right text-xs text-muted-foreground">
+                {entry.durationMs} ms
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">{changeSummary(entry)}</TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onReplay(entry);
+                  }}
+                  title="Load these arguments into the form"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Replay
+                </Button>
+              </TableCell>
+            </TableRow>
+            {expanded === entry.id && (
+              <TableRow className="hover:bg-transparent">
+                <TableCell />
+                <TableCell colSpan={columnCount - 1} className="space-y-3 whitespace-normal">
+                  <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs">
+                    {toDisplayJson(entry.args, 2)}
+                  </pre>
+                  {entry.error && (
+                    <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all text-xs text-destructive">
+                      {entry.httpStatus !== null && `HTTP ${entry.httpStatus}: `}
+                      {entry.error}
+                    </pre>
+                  )}
+                  {(entry.energyUsed !== null || entry.executionMicros !== null) && (
+                    <p className="text-xs text-muted-foreground">
+                      {entry.energyUsed !== null && `Energy used: ${entry.energyUsed}`}
+                      {entry.energyUsed !== null && entry.executionMicros !== null && ' · '}
+                      {entry.executionMicros !== null && `Execution: ${entry.executionMicros} µs`}
+                    </p>
+                  )}
+                  {entry.changes && <TableChanges changes={entry.changes} />}
+                </TableCell>
+              </TableRow>
+            )}
+          </Fragment>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Reducer Mapping Select
+ * Chooses whether a row write goes through SQL or a module reducer
+ */
+
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Reducer } from '@/hooks/use-reducers';
+
+const SQL_VALUE = '__sql__';
+
+interface ReducerMappingSelectProps {
+  id?: string;
+  // Label for the SQL option, e.g. "SQL UPDATE"
+  sqlLabel: string;
+  reducers: Reducer[];
+  value: string | undefined;
+  onChange: (reducer: string | undefined) => void;
+}
+
+export function ReducerMappingSelect({ id, sqlLabel, reducers, value, onChange }: ReducerMappingSelectProps) {
+  const candidates = reducers.filter((reducer) => !reducer.isLifecycle);
+
+  return (
+    <Select
+      value={value ?? SQL_VALUE}
+      onValueChange={(selected) => onChange(selected === SQL_VALUE ? undefined : selected)}
+    >
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={SQL_VALUE}>{sqlLabel}</SelectItem>
+        {candidates.map((reducer) => (
+          <SelectItem key={reducer.name} value={reducer.name}>
+            <span className="font-mono">{reducer.name}</span>
+            <span className="ml-1 text-xs opacity-70">
+              ({reducer.params.map((param) => param.name ?? '?').join(', ')})
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
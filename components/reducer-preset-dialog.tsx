@@ -0,0 +1,170 @@
+/**
+ * Reducer Preset Dialog Component
+ * Save arguments as a named preset for a reducer, or edit an existing preset
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { parseWire, stringifyWire } from '@/lib/spacetime/json';
+import { BUILTIN_VARIABLES, presetVariables } from '@/lib/spacetime/reducer-args';
+import type { QueryVisibility, ReducerPreset, ReducerPresetInput } from '@/types/api';
+
+interface ReducerPresetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reducer: string;
+  // When set, this preset is edited instead of a new one being created
+  preset?: ReducerPreset | null;
+  // Arguments to start from, one per parameter
+  args: unknown[];
+  onSubmit: (values: ReducerPresetInput) => Promise<void>;
+}
+
+function parseArgs(text: string): unknown[] | null {
+  try {
+    const value = parseWire(text);
+    return Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function ReducerPresetDialog({ open, onOpenChange, reducer, preset, args, onSubmit }: ReducerPresetDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [visibility, setVisibility] = useState<QueryVisibility>('private');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(preset?.name ?? '');
+    setDescription(preset?.description ?? '');
+    setVisibility(preset?.visibility ?? 'private');
+    setText(stringifyWire(args, 2));
+    setError(null);
+  }, [open, preset, args]);
+
+  const parsed = parseArgs(text);
+  const variables = parsed ? presetVariables(parsed) : [];
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!parsed) {
+      setError('Arguments must be a JSON list with one value per parameter');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({ reducer, name, description, args: parsed, visibility });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{preset ? 'Edit preset' : `Save ${reducer} preset`}</DialogTitle>
+            <DialogDescription>
+              Text values can use <code className="font-mono">{'{{now}}'}</code>,{' '}
+              <code className="font-mono">{'{{me.identity}}'}</code> (the identity the portal calls as),{' '}
+              <code className="font-mono">{'{{me.username}}'}</code> or{' '}
+              <code className="font-mono">{'{{name}}'}</code> to ask for a value when the preset runs.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="preset-name">Name</Label>
+            <Input id="preset-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-description">Description</Label>
+            <Textarea
+              id="preset-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When to use these arguments"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-visibility">Visibility</Label>
+            <Select value={visibility} onValueChange={(value: QueryVisibility) => setVisibility(value)}>
+              <SelectTrigger id="preset-visibility">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">Private (only you)</SelectItem>
+                <SelectItem value="team">Team (everyone)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-args">Arguments</Label>
+            <Textarea
+              id="preset-args"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="max-h-60 font-mono text-xs"
+              rows={6}
+              spellCheck={false}
+              required
+            />
+            {!parsed ? (
+              <p className="text-xs text-destructive">Not a JSON list</p>
+            ) : variables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                Variables:
+                {variables.map((variable) => (
+                  <Badge
+                    key={variable}
+                    variant={BUILTIN_VARIABLES.includes(variable) ? 'secondary' : 'outline'}
+                    className="font-mono text-xs"
+                  >
+                    {variable}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {preset ? 'Save changes' : 'Save preset'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
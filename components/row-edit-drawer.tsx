@@ -0,0 +1,166 @@
+/**
+ * Row Edit Drawer Component
+ * Side sheet editing every column of a row, with inputs derived from column types
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { ColumnInput, type ColumnFormValue } from '@/components/column-input';
+import { ReducerMappingSelect } from '@/components/reducer-mapping-select';
+import { fromInputValue, toInputValue } from '@/lib/spacetime/column-values';
+import { isSqlWritable } from '@/lib/spacetime/sql';
+import type { Reducer } from '@/hooks/use-reducers';
+import type { TableMetadata } from '@/types/spacetime';
+
+interface RowEditDrawerProps {
+  table: TableMetadata;
+  row: Record<string, unknown> | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (original: Record<string, unknown>, changes: Record<string, unknown>) => void;
+  reducers: Reducer[];
+  updateReducer: string | undefined;
+  onUpdateReducerChange: (reducer: string | undefined) => void;
+}
+
+export function RowEditDrawer({
+  table,
+  row,
+  onOpenChange,
+  onSave,
+  reducers,
+  updateReducer,
+  onUpdateReducerChange,
+}: RowEditDrawerProps) {
+  const [initial, setInitial] = useState<Record<string, ColumnFormValue>>({});
+  const [values, setValues] = useState<Record<string, ColumnFormValue>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!row) return;
+    const formValues = Object.fromEntries(
+      table.columns.map((col) => [
+        col.name,
+        row[col.name] === null || row[col.name] === undefined ? null : toInputValue(col, row[col.name]),
+      ])
+    );
+    setInitial(formValues);
+    setValues(formValues);
+    setErrors({});
+  }, [row, table.columns]);
+
+  const isEditable = (columnName: string) => {
+    const column = table.columns.find((col) => col.name === columnName);
+    if (!column || table.primaryKey.includes(columnName)) return false;
+    return updateReducer ? true : isSqlWritable(column);
+  };
+
+  const handleSave = () => {
+    if (!row) return;
+
+    const changes: Record<string, unknown> = {};
+    const nextErrors: Record<string, string> = {};
+
+    for (const column of table.columns) {
+      if (values[column.name] === initial[column.name]) continue;
+      try {
+        changes[column.name] = fromInputValue(column, values[column.name]);
+      } catch (error) {
+        nextErrors[column.name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    if (Object.keys(changes).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    onSave(row, changes);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={!!row} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Edit row</SheetTitle>
+          <SheetDescription>
+            {table.primaryKey.length > 0
+              ? <>Row identified by {table.primaryKey.join(', ')}. Key columns can&apos;t be changed.</>
+              : 'This table has no primary key; the row is matched on all of its values.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-5 px-4">
+          <div className="space-y-2">
+            <Label htmlFor="update-via">Save via</Label>
+            <ReducerMappingSelect
+              id="update-via"
+              sqlLabel="SQL UPDATE"
+              reducers={reducers}
+              value={updateReducer}
+              onChange={onUpdateReducerChange}
+            />
+            {updateReducer && (
+              <p className="text-xs text-muted-foreground">
+                Reducer parameters are filled from columns with the same name.
+              </p>
+            )}
+          </div>
+
+          {table.columns.map((column) => {
+            const editable = isEditable(column.name);
+            const id = `edit-${column.name}`;
+            return (
+              <div key={column.name} className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={id}>{column.name}</Label>
+                  <Badge variant="outline" className="font-mono text-xs">
+                    {column.dataType}
+                  </Badge>
+                  {column.isPrimary && <Badge className="text-xs">PK</Badge>}
+                </div>
+                <ColumnInput
+                  id={id}
+                  column={column}
+                  value={values[column.name] ?? null}
+                  onChange={(value) => setValues((prev) => ({ ...prev, [column.name]: value }))}
+                  disabled={!editable}
+                  invalid={!!errors[column.name]}
+                />
+                {errors[column.name] ? (
+                  <p className="text-xs text-destructive">{errors[column.name]}</p>
+                ) : !editable && !column.isPrimary && !updateReducer ? (
+                  <p className="text-xs text-muted-foreground">
+                    {column.dataType} values can&apos;t be written in SQL; choose an update reducer to edit this column.
+                  </p>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+
+        <SheetFooter>
+          <Button onClick={handleSave}>Save changes</Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
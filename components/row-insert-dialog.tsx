@@ -0,0 +1,210 @@
+/**
+ * Row Insert Dialog Component
+ * Insert form generated from the table's columns and validated with a Zod schema
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ColumnInput, type ColumnFormValue } from '@/components/column-input';
+import { ReducerMappingSelect } from '@/components/reducer-mapping-select';
+import { columnInputKind, fromInputValue, toInputValue } from '@/lib/spacetime/column-values';
+import { isSqlWritable } from '@/lib/spacetime/sql';
+import { rowSchema } from '@/lib/spacetime/zod-schema';
+import { RefreshCw } from 'lucide-react';
+import type { Reducer } from '@/hooks/use-reducers';
+import type { ColumnMetadata, TableMetadata } from '@/types/spacetime';
+
+interface RowInsertDialogProps {
+  table: TableMetadata;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Row to clone; auto-increment columns are left blank so they get new values
+  source?: Record<string, unknown> | null;
+  onInsert: (values: Record<string, unknown>) => Promise<void>;
+  reducers: Reducer[];
+  insertReducer: string | undefined;
+  onInsertReducerChange: (reducer: string | undefined) => void;
+}
+
+function emptyValue(column: ColumnMetadata): ColumnFormValue {
+  if (column.nullable) return null;
+  return columnInputKind(column.dataType) === 'bool' ? false : '';
+}
+
+function initialValues(columns: ColumnMetadata[], source?: Record<string, unknown> | null) {
+  return Object.fromEntries(
+    columns.map((column) => {
+      const value = source?.[column.name];
+      if (!source || column.isAutoIncrement || value === undefined) {
+        return [column.name, emptyValue(column)];
+      }
+      return [column.name, value === null ? null : toInputValue(column, value)];
+    })
+  ) as Record<string, ColumnFormValue>;
+}
+
+export function RowInsertDialog({
+  table,
+  open,
+  onOpenChange,
+  source,
+  onInsert,
+  reducers,
+  insertReducer,
+  onInsertReducerChange,
+}: RowInsertDialogProps) {
+  const [values, setValues] = useState<Record<string, ColumnFormValue>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const schema = useMemo(() => rowSchema(table.columns), [table.columns]);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(initialValues(table.columns, source));
+    setErrors({});
+    setSubmitError(null);
+  }, [open, source, table.columns]);
+
+  const unwritable = insertReducer ? [] : table.columns.filter((col) => !isSqlWritable(col));
+
+  const handleSubmit = async (addAnother: boolean) => {
+    const row: Record<string, unknown> = {};
+    const nextErrors: Record<string, string> = {};
+
+    for (const column of table.columns) {
+      const value = values[column.name];
+      if (column.isAutoIncrement && (value === '' || value === null)) continue;
+      try {
+        row[column.name] = fromInputValue(column, value ?? null);
+      } catch (error) {
+        nextErrors[column.name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (Object.keys(nextErrors).length === 0) {
+      const result = schema.safeParse(row);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          const key = String(issue.path[0] ?? '');
+          nextErrors[key] ??= `${key}: ${issue.message}`;
+        }
+      }
+    }
+
+    setErrors(nextErrors);
+    setSubmitError(null);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await onInsert(row);
+      if (addAnother) {
+        setValues(initialValues(table.columns));
+      } else {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{source ? 'Clone row' : 'Insert row'}</DialogTitle>
+          <DialogDescription>
+            Add a row to <span className="font-mono">{table.name}</span>.
+            {table.columns.some((col) => col.isAutoIncrement) &&
+              ' Leave auto-increment columns blank to have them assigned.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="insert-via">Insert via</Label>
+            <ReducerMappingSelect
+              id="insert-via"
+              sqlLabel="SQL INSERT"
+              reducers={reducers}
+              value={insertReducer}
+              onChange={onInsertReducerChange}
+            />
+            {insertReducer && (
+              <p className="text-xs text-muted-foreground">
+                Reducer parameters are filled from columns with the same name.
+              </p>
+            )}
+          </div>
+
+          {table.columns.map((column) => {
+            const id = `insert-${column.name}`;
+            return (
+              <div key={column.name} className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={id}>{column.name}</Label>
+                  <Badge variant="outline" className="font-mono text-xs">
+                    {column.dataType}
+                  </Badge>
+                  {column.isPrimary && <Badge className="text-xs">PK</Badge>}
+                  {column.isAutoIncrement && (
+                    <Badge variant="secondary" className="text-xs">AUTO INC</Badge>
+                  )}
+                </div>
+                <ColumnInput
+                  id={id}
+                  column={column}
+                  value={values[column.name] ?? emptyValue(column)}
+                  onChange={(value) => setValues((prev) => ({ ...prev, [column.name]: value }))}
+                  invalid={!!errors[column.name]}
+                />
+                {errors[column.name] && (
+                  <p className="text-xs text-destructive">{errors[column.name]}</p>
+                )}
+              </div>
+            );
+          })}
+
+          {unwritable.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {unwritable.map((col) => col.name).join(', ')} can&apos;t be written in SQL; choose an insert reducer.
+            </p>
+          )}
+          {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => handleSubmit(true)}
+            disabled={isSubmitting || unwritable.length > 0}
+          >
+            Insert and add another
+          </Button>
+          <Button onClick={() => handleSubmit(false)} disabled={isSubmitting || unwritable.length > 0}>
+            {isSubmitting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+            Insert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
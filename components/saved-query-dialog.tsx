@@ -0,0 +1,161 @@
+/**
+ * Saved Query Dialog Component
+ * Save SQL as a named query, or edit an existing saved query
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { queryPlaceholders } from '@/lib/spacetime/sql';
+import type { QueryVisibility, SavedQuery, SavedQueryInput } from '@/types/api';
+
+interface SavedQueryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, this query is edited instead of a new one being created
+  query?: SavedQuery | null;
+  // SQL to start from
+  sql: string;
+  onSubmit: (values: SavedQueryInput) => Promise<void>;
+}
+
+export function SavedQueryDialog({ open, onOpenChange, query, sql, onSubmit }: SavedQueryDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [visibility, setVisibility] = useState<QueryVisibility>('private');
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(query?.name ?? '');
+    setDescription(query?.description ?? '');
+    setTags(query?.tags.join(', ') ?? '');
+    setVisibility(query?.visibility ?? 'private');
+    setText(sql);
+    setError(null);
+  }, [open, query, sql]);
+
+  const placeholders = queryPlaceholders(text);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name,
+        description,
+        sql: text,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        visibility,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{query ? 'Edit saved query' : 'Save query'}</DialogTitle>
+            <DialogDescription>
+              Use <code className="font-mono">{'{{name}}'}</code> placeholders for values to ask for when the query runs.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="query-name">Name</Label>
+            <Input id="query-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="query-description">Description</Label>
+            <Textarea
+              id="query-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this query is for"
+              rows={2}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="query-tags">Tags</Label>
+              <Input
+                id="query-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="diagnostics, players"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="query-visibility">Visibility</Label>
+              <Select value={visibility} onValueChange={(value: QueryVisibility) => setVisibility(value)}>
+                <SelectTrigger id="query-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="private">Private (only you)</SelectItem>
+                  <SelectItem value="team">Team (everyone)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="query-sql">SQL</Label>
+            <Textarea
+              id="query-sql"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="max-h-60 font-mono text-xs"
+              spellCheck={false}
+              required
+            />
+            {placeholders.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                Asks for:
+                {placeholders.map((placeholder) => (
+                  <Badge key={placeholder} variant="outline" className="font-mono text-xs">{placeholder}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {query ? 'Save changes' : 'Save query'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * SQL Editor Component
+ * Plain-text SQL editor with table/column completion and Ctrl+Enter execution
+ */
+
+'use client';
+
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { TableMetadata } from '@/types/spacetime';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Receives the selected text, or the whole editor when nothing is selected
+  onExecute: (sql: string) => void;
+  tables: TableMetadata[];
+  className?: string;
+}
+
+interface Completion {
+  label: string;
+  kind: 'table' | 'column' | 'keyword';
+  detail?: string;
+}
+
+const KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'JOIN', 'INNER', 'ON', 'AS',
+  'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'NULL', 'IS', 'LIKE',
+  'TRUE', 'FALSE', 'LIMIT', 'COUNT',
+];
+
+// Keywords after which only table names make sense
+const TABLE_CONTEXT = /\b(from|join|into|update)\s+[A-Za-z0-9_]*$/i;
+
+// Matches editor padding (p-3) and line height (leading-5)
+const PADDING_PX = 12;
+const LINE_HEIGHT_PX = 20;
+const MAX_COMPLETIONS = 12;
+
+/**
+ * Tables named after FROM/JOIN/INTO/UPDATE in the statement, keyed by name and alias
+ */
+function referencedTables(statement: string, tables: TableMetadata[]): Map<string, TableMetadata> {
+  const byName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+  const found = new Map<string, TableMetadata>();
+  const pattern = /\b(?:from|join|into|update)\s+([A-Za-z_][A-Za-z0-9_]*)(?:\s+(?:as\s+)?([A-Za-z_][A-Za-z0-9_]*))?/gi;
+
+  for (const match of statement.matchAll(pattern)) {
+    const table = byName.get(match[1].toLowerCase());
+    if (!table) continue;
+    found.set(table.name.toLowerCase(), table);
+    const alias = match[2]?.toLowerCase();
+    if (alias && !KEYWORDS.includes(alias.toUpperCase())) found.set(alias, table);
+  }
+  return found;
+}
+
+/**
+ * Completions for the word being typed at `cursor`
+ */
+function getCompletions(
+  text: string,
+  cursor: number,
+  tables: TableMetadata[],
+  explicit: boolean
+): { completions: Completion[]; from: number } {
+  const before = text.slice(0, cursor);
+  const statementStart = before.lastIndexOf(';') + 1;
+  const statementEnd = text.indexOf(';', cursor);
+  const statement = text.slice(statementStart, statementEnd === -1 ? undefined : statementEnd);
+
+  const matchesPrefix = (label: string, prefix: string) => label.toLowerCase().startsWith(prefix.toLowerCase());
+
+  // `table.` or `alias.` completes that table's columns
+  const qualified = /([A-Za-z_][A-Za-z0-9_]*)\.([A-Za-z0-9_]*)$/.exec(before);
+  if (qualified) {
+    const table = referencedTables(statement, tables).get(qualified[1].toLowerCase())
+      ?? tables.find((t) => t.name.toLowerCase() === qualified[1].toLowerCase());
+    const completions = (table?.columns ?? [])
+      .filter((col) => matchesPrefix(col.name, qualified[2]))
+      .map((col): Completion => ({ label: col.name, kind: 'column', detail: col.dataType }));
+    return { completions: completions.slice(0, MAX_COMPLETIONS), from: cursor - qualified[2].length };
+  }
+
+  const prefix = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before)?.[0] ?? '';
+  if (!prefix && !explicit) return { completions: [], from: cursor };
+
+  const tableCompletions = tables.map((table): Completion => ({
+    label: table.name,
+    kind: 'table',
+    detail: `${table.columns.length} columns`,
+  }));
+
+  let candidates: Completion[];
+  if (TABLE_CONTEXT.test(before)) {
+    candidates = tableCompletions;
+  } else {
+    const seen = new Set<string>();
+    const columns: Completion[] = [];
+    for (const table of referencedTables(statement, tables).values()) {
+      for (const col of table.columns) {
+        if (seen.has(col.name)) continue;
+        seen.add(col.name);
+        columns.push({ label: col.name, kind: 'column', detail: `${table.name} · ${col.dataType}` });
+      }
+    }
+    candidates = [
+      ...columns,
+      ...tableCompletions,
+      ...KEYWORDS.map((keyword): Completion => ({ label: keyword, kind: 'keyword' })),
+    ];
+  }
+
+  const completions = candidates
+    .filter((c) => matchesPrefix(c.label, prefix) && c.label.toLowerCase() !== prefix.toLowerCase())
+    .slice(0, MAX_COMPLETIONS);
+  return { completions, from: cursor - prefix.length };
+}
+
+export function SqlEditor({ value, onChange, onExecute, tables, className }: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<{ items: Completion[]; from: number; index: number } | null>(null);
+  const [charWidth, setCharWidth] = useState(8);
+
+  // Monospace character width, used to place the completion list at the caret
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) return;
+    context.font = getComputedStyle(textarea).font;
+    setCharWidth(context.measureText('M').width || 8);
+  }, []);
+
+  useLayoutEffect(() => {
+    if (pendingCursor.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const caret = useMemo(() => {
+    const textarea = textareaRef.current;
+    if (!completion || !textarea) return null;
+    const lines = value.slice(0, completion.from).split('\n');
+    return {
+      top: PADDING_PX + lines.length * LINE_HEIGHT_PX - textarea.scrollTop,
+      left: PADDING_PX + lines[lines.length - 1].length * charWidth - textarea.scrollLeft,
+    };
+  }, [completion, value, charWidth]);
+
+  const updateCompletions = (text: string, cursor: number, explicit = false) => {
+    const { completions, from } = getCompletions(text, cursor, tables, explicit);
+    setCompletion(completions.length > 0 ? { items: completions, from, index: 0 } : null);
+  };
+
+  const replaceRange = (start: number, end: number, insert: string) => {
+    pendingCursor.current = start + insert.length;
+    onChange(value.slice(0, start) + insert + value.slice(end));
+  };
+
+  const acceptCompletion = (item: Completion) => {
+    const textarea = textareaRef.current;
+    if (!completion || !textarea) return;
+    replaceRange(completion.from, textarea.selectionStart, item.label);
+    setCompletion(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = event.currentTarget;
+
+    if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+      event.preventDefault();
+      setCompletion(null);
+      const selected = value.slice(textarea.selectionStart, textarea.selectionEnd);
+      onExecute(selected.trim() ? selected : value);
+      return;
+    }
+
+    if (event.ctrlKey && event.key === ' ') {
+      event.preventDefault();
+      updateCompletions(value, textarea.selectionStart, true);
+      return;
+    }
+
+    if (completion) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const count = completion.items.length;
+        setCompletion({ ...completion, index: (completion.index + step + count) % count });
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        acceptCompletion(completion.items[completion.index]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setCompletion(null);
+        return;
+      }
+    }
+
+    if (event.key === 'Tab' && !event.shiftKey) {
+      event.preventDefault();
+      replaceRange(textarea.selectionStart, textarea.selectionEnd, '  ');
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateCompletions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCompletion(null)}
+        onClick={() => setCompletion(null)}
+        onScroll={() => setCompletion(null)}
+        spellCheck={false}
+        wrap="off"
+        placeholder="SELECT * FROM ...   (Ctrl+Enter to run, Ctrl+Space for suggestions)"
+        className="h-full min-h-48 w-full resize-none overflow-auto rounded-md border bg-transparent p-3 font-mono text-sm leading-5 outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+      />
+
+      {completion && caret && (
+        <div
+          className="absolute z-50 max-h-64 w-72 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          style={{ top: caret.top, left: caret.left }}
+        >
+          {completion.items.map((item, index) => (
+            <button
+              key={`${item.kind}:${item.label}`}
+              type="button"
+              // Keep focus in the textarea so the caret position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptCompletion(item);
+              }}
+              className={cn(
+                'flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1 text-left text-sm',
+                index === completion.index ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+              )}
+            >
+              <span className="truncate font-mono">{item.label}</span>
+              <span className="shrink-0 text-xs text-muted-foreground">{item.detail ?? item.kind}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Table Changes Component
+ * Rows a reducer call inserted, updated or deleted, per snapshotted table
+ */
+
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { formatCellValue } from '@/lib/spacetime/column-values';
+import { stringifyWire } from '@/lib/spacetime/json';
+import type { ReducerTableChanges } from '@/types/api';
+
+type Row = Record<string, unknown>;
+type ColumnTypes = Record<string, string>;
+
+function rowSummary(row: Row, types: ColumnTypes): string {
+  return Object.entries(row)
+    .map(([column, value]) => `${column}: ${formatCellValue(value, types[column])}`)
+    .join(', ');
+}
+
+// Key of an updated row, then each column that changed
+function updateSummary(primaryKey: string[], types: ColumnTypes, before: Row, after: Row): string {
+  const format = (row: Row, column: string) => formatCellValue(row[column], types[column]);
+  const key = primaryKey.map((column) => `${column}=${format(after, column)}`).join(', ');
+  const changed = Object.keys(after)
+    .filter((column) => stringifyWire(before[column]) !== stringifyWire(after[column]))
+    .map((column) => `${column}: ${format(before, column)} → ${format(after, column)}`)
+    .join(', ');
+  return `${key} | ${changed}`;
+}
+
+function TableChangeList({ changes }: { changes: ReducerTableChanges }) {
+  const { counts } = changes;
+  const types = changes.columnTypes ?? {};
+  const total = counts.inserted + counts.updated + counts.deleted;
+  const shown = changes.inserted.length + changes.updated.length + changes.deleted.length;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-sm font-medium">{changes.table}</span>
+        {changes.error ? (
+          <Badge variant="destructive">{changes.error}</Badge>
+        ) : total === 0 ? (
+          <span className="text-xs text-muted-foreground">No changes</span>
+        ) : (
+          <>
+            {counts.inserted > 0 && <Badge variant="secondary">+{counts.inserted} inserted</Badge>}
+            {counts.updated > 0 && <Badge variant="secondary">~{counts.updated} updated</Badge>}
+            {counts.deleted > 0 && <Badge variant="secondary">−{counts.deleted} deleted</Badge>}
+            {changes.primaryKey.length === 0 && (
+              <span className="text-xs text-muted-foreground">(no primary key: updates show as delete + insert)</span>
+            )}
+          </>
+        )}
+      </div>
+      {total > 0 && (
+        <ul className="space-y-0.5 font-mono text-xs">
+          {changes.inserted.map((row, index) => (
+            <li key={`i${index}`} className="truncate text-green-600 dark:text-green-400" title={rowSummary(row, types)}>
+              + {rowSummary(row, types)}
+            </li>
+          ))}
+          {changes.updated.map(({ before, after }, index) => (
+            <li key={`u${index}`} className="truncate text-amber-600 dark:text-amber-400" title={updateSummary(changes.primaryKey, types, before, after)}>
+              ~ {updateSummary(changes.primaryKey, types, before, after)}
+            </li>
+          ))}
+          {changes.deleted.map((row, index) => (
+            <li key={`d${index}`} className="truncate text-red-600 dark:text-red-400" title={rowSummary(row, types)}>
+              − {rowSummary(row, types)}
+            </li>
+          ))}
+          {shown < total && <li className="text-muted-foreground">… {total - shown} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function TableChanges({ changes }: { changes: ReducerTableChanges[] }) {
+  return (
+    <div className="space-y-3">
+      {changes.map((table) => (
+        <TableChangeList key={table.table} changes={table} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Table Structure Component
+ * Columns, primary key, indexes, constraints and sequences for a table
+ */
+
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { TableMetadata } from '@/types/spacetime';
+
+interface TableStructureProps {
+  table: TableMetadata;
+  // Zod source for validating rows, from TableSchemaResponse.zodSchema
+  zodSchema?: string;
+}
+
+export function TableStructure({ table, zodSchema }: TableStructureProps) {
+  return (
+    <div className="space-y-6">
+      {/* Columns */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Columns</CardTitle>
+          <CardDescription>
+            {table.columns.length} columns
+            {table.primaryKey.length > 0 && <> · primary key ({table.primaryKey.join(', ')})</>}
+            {table.isPublic !== undefined && <> · {table.isPublic ? 'public' : 'private'} table</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Attributes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.columns.map((col, idx) => (
+                <TableRow key={col.name}>
+                  <TableCell className="text-muted-foreground">{idx}</TableCell>
+                  <TableCell className="font-medium">{col.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {col.dataType}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {col.isPrimary && <Badge className="text-xs">PK</Badge>}
+                      {col.isUnique && !col.isPrimary && (
+                        <Badge variant="secondary" className="text-xs">UNIQUE</Badge>
+                      )}
+                      {col.isAutoIncrement && (
+                        <Badge variant="secondary" className="text-xs">AUTO INC</Badge>
+                      )}
+                      {col.nullable && (
+                        <span className="text-xs text-muted-foreground">nullable</span>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Indexes */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Indexes</CardTitle>
+          <CardDescription>
+            {table.indexes.length === 0 ? 'No indexes defined' : `${table.indexes.length} indexes`}
+          </CardDescription>
+        </CardHeader>
+        {table.indexes.length > 0 && (
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Columns</TableHead>
+                  <TableHead>Algorithm</TableHead>
+                  <TableHead>Attributes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.indexes.map((index) => (
+                  <TableRow key={index.name}>
+                    <TableCell className="font-mono text-xs">{index.name}</TableCell>
+                    <TableCell>{index.columns.join(', ')}</TableCell>
+                    <TableCell className="uppercase text-xs">{index.algorithm || '—'}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {index.isPrimary && <Badge className="text-xs">PRIMARY</Badge>}
+                        {index.isUnique && !index.isPrimary && (
+                          <Badge variant="secondary" className="text-xs">UNIQUE</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Constraints */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Constraints</CardTitle>
+          <CardDescription>
+            {table.constraints.length === 0 ? 'No constraints defined' : `${table.constraints.length} constraints`}
+          </CardDescription>
+        </CardHeader>
+        {table.constraints.length > 0 && (
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Columns</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.constraints.map((constraint) => (
+                  <TableRow key={constraint.name}>
+                    <TableCell className="font-mono text-xs">{constraint.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">{constraint.type}</Badge>
+                    </TableCell>
+                    <TableCell>{constraint.columns.join(', ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Sequences */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sequences</CardTitle>
+          <CardDescription>
+            {table.sequences.length === 0 ? 'No auto-increment columns' : `${table.sequences.length} sequences`}
+          </CardDescription>
+        </CardHeader>
+        {table.sequences.length > 0 && (
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead>Increment</TableHead>
+                  <TableHead>Range</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.sequences.map((sequence) => (
+                  <TableRow key={sequence.name}>
+                    <TableCell className="font-mono text-xs">{sequence.name}</TableCell>
+                    <TableCell>{sequence.column}</TableCell>
+                    <TableCell className="font-mono text-xs">{sequence.start ?? '—'}</TableCell>
+                    <TableCell className="font-mono text-xs">{sequence.increment}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {sequence.minValue ?? '—'} .. {sequence.maxValue ?? '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Row Schema */}
+      {zodSchema && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Row Schema</CardTitle>
+            <CardDescription>Zod schema used to validate inserted rows</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="overflow-x-auto rounded-lg bg-muted p-4 text-xs">
+              <code>{zodSchema}</code>
+            </pre>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+/**
+ * User Dialog Component
+ * Create a portal user, or set a new password for an existing one
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { ROLE_DESCRIPTIONS } from '@/lib/permissions';
+import type { PortalUser, Role } from '@/types/auth';
+
+export interface UserDialogValues {
+  username: string;
+  name: string;
+  email: string;
+  password: string;
+  role: Role;
+}
+
+interface UserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, only the password is edited
+  user?: PortalUser | null;
+  // Roles the current user may grant
+  roles: Role[];
+  onSubmit: (values: UserDialogValues) => Promise<void>;
+}
+
+const EMPTY: UserDialogValues = { username: '', name: '', email: '', password: '', role: 'viewer' };
+
+export function UserDialog({ open, onOpenChange, user, roles, onSubmit }: UserDialogProps) {
+  const [values, setValues] = useState<UserDialogValues>(EMPTY);
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(EMPTY);
+    setConfirm('');
+    setError(null);
+  }, [open]);
+
+  const set = (field: keyof UserDialogValues, value: string) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (values.password !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(values);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{user ? 'Set password' : 'Add user'}</DialogTitle>
+            <DialogDescription>
+              {user
+                ? <>Choose a new password for <span className="font-medium">{user.username}</span>. Their other sessions are signed out.</>
+                : 'Create an account that signs in with a username and password.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!user && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="user-username">Username</Label>
+                <Input
+                  id="user-username"
+                  value={values.username}
+                  onChange={(e) => set('username', e.target.value)}
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="user-name">Display name</Label>
+                  <Input id="user-name" value={values.name} onChange={(e) => set('name', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="user-email">Email</Label>
+                  <Input
+                    id="user-email"
+                    type="email"
+                    value={values.email}
+                    onChange={(e) => set('email', e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-role">Role</Label>
+                <Select value={values.role} onValueChange={(value) => set('role', value)}>
+                  <SelectTrigger id="user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        <span className="capitalize">{role}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[values.role]}</p>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="user-password">Password</Label>
+            <Input
+              id="user-password"
+              type="password"
+              value={values.password}
+              onChange={(e) => set('password', e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="user-confirm">Confirm password</Label>
+            <Input
+              id="user-confirm"
+              type="password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+              {user ? 'Set password' : 'Add user'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
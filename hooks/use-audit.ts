@@ -0,0 +1,73 @@
+/**
+ * React Query hooks for the audit log
+ */
+
+'use client';
+
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AuditFilter, AuditLogResponse, AuditSettings } from '@/types/audit';
+
+/**
+ * Query string for an audit filter; empty values are left out
+ */
+export function auditSearchParams(filter: AuditFilter & { format?: 'csv' | 'ndjson' }): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export function useAuditLog(filter: AuditFilter, enabled = true) {
+  return useQuery<AuditLogResponse>({
+    queryKey: ['audit', filter],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit?${auditSearchParams(filter)}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch audit log');
+      }
+      return data;
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+    refetchInterval: 30000,
+  });
+}
+
+export function useAuditSettings(enabled = true) {
+  return useQuery<AuditSettings>({
+    queryKey: ['audit-settings'],
+    queryFn: async () => {
+      const response = await fetch('/api/audit/settings');
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit settings');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+export function useUpdateAuditSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: AuditSettings) => {
+      const response = await fetch('/api/audit/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update audit settings');
+      }
+      return data as AuditSettings;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['audit-settings'], settings);
+      queryClient.invalidateQueries({ queryKey: ['audit'] });
+    },
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Per-table data grid layout: column order, widths, hidden and pinned columns
+ * Stored in localStorage.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export const DEFAULT_COLUMN_WIDTH = 180;
+export const MIN_COLUMN_WIDTH = 60;
+
+export interface GridLayout {
+  // Column names in display order; columns not listed follow in their natural order
+  order: string[];
+  widths: Record<string, number>;
+  hidden: string[];
+  // Pinned columns stay visible while scrolling sideways; unset pins the primary key
+  pinned?: string[];
+}
+
+export interface GridLayoutColumn {
+  name: string;
+  width: number;
+  pinned: boolean;
+}
+
+interface GridLayoutState {
+  layouts: Record<string, GridLayout>;
+  updateLayout: (tableName: string, update: (layout: GridLayout) => Partial<GridLayout>) => void;
+  resetLayout: (tableName: string) => void;
+}
+
+const EMPTY_LAYOUT: GridLayout = { order: [], widths: {}, hidden: [] };
+
+export const useGridLayoutStore = create<GridLayoutState>()(
+  persist(
+    (set) => ({
+      layouts: {},
+      updateLayout: (tableName, update) =>
+        set((state) => {
+          const layout = state.layouts[tableName] ?? EMPTY_LAYOUT;
+          return { layouts: { ...state.layouts, [tableName]: { ...layout, ...update(layout) } } };
+        }),
+      resetLayout: (tableName) =>
+        set((state) => {
+          const { [tableName]: _removed, ...layouts } = state.layouts;
+          return { layouts };
+        }),
+    }),
+    { name: 'spacetime-grid-layouts' }
+  )
+);
+
+/**
+ * Resolve a table's saved layout against its current columns
+ * Returns every column in display order (pinned first) plus setters that persist changes.
+ */
+export function useGridLayout(tableName: string, columnNames: string[], primaryKey: string[] = []) {
+  const layout = useGridLayoutStore((state) => state.layouts[tableName]) ?? EMPTY_LAYOUT;
+  const updateLayout = useGridLayoutStore((state) => state.updateLayout);
+  const resetLayout = useGridLayoutStore((state) => state.resetLayout);
+
+  const namesKey = columnNames.join('\u0000');
+  const pinned = layout.pinned ?? primaryKey;
+
+  const columns = useMemo(() => {
+    // Saved order first (skipping columns that no longer exist), then new columns
+    const ordered = [
+      ...layout.order.filter((name) => columnNames.includes(name)),
+      ...columnNames.filter((name) => !layout.order.includes(name)),
+    ];
+    const resolved: (GridLayoutColumn & { hidden: boolean })[] = ordered.map((name) => ({
+      name,
+      width: layout.widths[name] ?? DEFAULT_COLUMN_WIDTH,
+      pinned: pinned.includes(name),
+      hidden: layout.hidden.includes(name),
+    }));
+    return [...resolved.filter((col) => col.pinned), ...resolved.filter((col) => !col.pinned)];
+  }, [layout, namesKey, pinned.join('\u0000')]);
+
+  const update = (fn: (layout: GridLayout) => Partial<GridLayout>) => updateLayout(tableName, fn);
+
+  return {
+    // Every column, including hidden ones, for the column menu
+    columns,
+    visibleColumns: columns.filter((col) => !col.hidden),
+    setWidth: (name: string, width: number) =>
+      update((current) => ({ widths: { ...current.widths, [name]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } })),
+    // Move `name` to just before `target`
+    moveColumn: (name: string, target: string) => {
+      if (name === target) return;
+      const order = columns.map((col) => col.name).filter((col) => col !== name);
+      order.splice(order.indexOf(target), 0, name);
+      update(() => ({ order }));
+    },
+    toggleHidden: (name: string) =>
+      update((current) => ({
+        hidden: current.hidden.includes(name)
+          ? current.hidden.filter((col) => col !== name)
+          : [...current.hidden, name],
+      })),
+    togglePinned: (name: string) =>
+      update(() => ({
+        pinned: pinned.includes(name) ? pinned.filter((col) => col !== name) : [...pinned, name],
+      })),
+    reset: () => resetLayout(tableName),
+  };
+}
+
+export type GridLayoutControls = ReturnType<typeof useGridLayout>;
@@ -0,0 +1,47 @@
+/**
+ * React Query hooks for the reducer call history
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { readWireJson } from '@/lib/spacetime/json';
+import type { ReducerCallEntry } from '@/types/api';
+
+/**
+ * Recent calls, of one reducer or of all of them
+ */
+export function useReducerHistory(reducer?: string) {
+  return useQuery<{ entries: ReducerCallEntry[] }>({
+    queryKey: ['reducer-history', reducer ?? null],
+    queryFn: async () => {
+      const query = reducer ? `?reducer=${encodeURIComponent(reducer)}` : '';
+      const response = await fetch(`/api/reducers/history${query}`);
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch reducer history');
+      }
+      return data;
+    },
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * One recorded call, e.g. to replay it
+ */
+export function useReducerCall(id: string | null) {
+  return useQuery<ReducerCallEntry>({
+    queryKey: ['reducer-history', 'entry', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/reducers/history/${encodeURIComponent(id!)}`);
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch reducer call');
+      }
+      return data.entry;
+    },
+    enabled: !!id,
+    staleTime: Infinity,
+  });
+}
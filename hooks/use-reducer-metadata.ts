@@ -5,6 +5,7 @@
 'use client';
 
 import { useQuery } from '@tanstack/react-query';
+import { readWireJson } from '@/lib/spacetime/json';
 
 export interface ReducerMetadataRow {
   reducer_name: string;
@@ -34,7 +35,7 @@ async function fetchReducerMetadata(): Promise<ReducerMetadataResult> {
     throw new Error(errorData.error || 'Failed to fetch reducer metadata');
   }
 
-  const data = await response.json();
+  const data = await readWireJson(response);
   return { rows: (data.rows || []) as ReducerMetadataRow[] };
 }
 
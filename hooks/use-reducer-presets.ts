@@ -0,0 +1,86 @@
+/**
+ * React Query hooks for reducer argument presets
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { readWireJson, stringifyWire } from '@/lib/spacetime/json';
+import type { ReducerPreset, ReducerPresetInput } from '@/types/api';
+
+export function useReducerPresets(reducer: string) {
+  return useQuery<{ presets: ReducerPreset[] }>({
+    queryKey: ['reducer-presets', reducer],
+    queryFn: async () => {
+      const response = await fetch(`/api/reducers/presets?reducer=${encodeURIComponent(reducer)}`);
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch reducer presets');
+      }
+      return data;
+    },
+  });
+}
+
+export function useCreateReducerPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReducerPresetInput) => {
+      const response = await fetch('/api/reducers/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: stringifyWire(input),
+      });
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save preset');
+      }
+      return data.preset as ReducerPreset;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reducer-presets'] });
+    },
+  });
+}
+
+export function useUpdateReducerPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<ReducerPresetInput> & { id: string }) => {
+      const response = await fetch(`/api/reducers/presets/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: stringifyWire(changes),
+      });
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update preset');
+      }
+      return data.preset as ReducerPreset;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reducer-presets'] });
+    },
+  });
+}
+
+export function useDeleteReducerPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/reducers/presets/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to delete preset');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reducer-presets'] });
+    },
+  });
+}
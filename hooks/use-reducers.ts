@@ -5,10 +5,13 @@
 'use client';
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { SatsType, SatsTypespace } from '@/types/sats';
 
-interface ReducerParam {
+export interface ReducerParam {
   name: string | null;
+  // Readable type, e.g. `Option<u32>`
   type: string;
+  algebraicType: SatsType;
 }
 
 export interface Reducer {
@@ -20,6 +23,7 @@ export interface Reducer {
 
 export interface ReducersData {
   reducers: Reducer[];
+  typespace: SatsTypespace;
   cached: boolean;
 }
 
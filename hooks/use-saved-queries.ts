@@ -0,0 +1,84 @@
+/**
+ * React Query hooks for saved queries
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { SavedQuery, SavedQueryInput } from '@/types/api';
+
+export function useSavedQueries() {
+  return useQuery<{ queries: SavedQuery[] }>({
+    queryKey: ['saved-queries'],
+    queryFn: async () => {
+      const response = await fetch('/api/queries');
+      if (!response.ok) {
+        throw new Error('Failed to fetch saved queries');
+      }
+      return response.json();
+    },
+  });
+}
+
+export function useCreateSavedQuery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SavedQueryInput) => {
+      const response = await fetch('/api/queries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to save query');
+      }
+      return data.query as SavedQuery;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-queries'] });
+    },
+  });
+}
+
+export function useUpdateSavedQuery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<SavedQueryInput> & { id: string }) => {
+      const response = await fetch(`/api/queries/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update query');
+      }
+      return data.query as SavedQuery;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-queries'] });
+    },
+  });
+}
+
+export function useDeleteSavedQuery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/queries/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to delete query');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-queries'] });
+    },
+  });
+}
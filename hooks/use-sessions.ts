@@ -0,0 +1,74 @@
+/**
+ * React Query hooks for the signed-in user's sessions
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface ActiveSession {
+  id: string;
+  username: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  idleExpiresAt: number;
+  userAgent?: string;
+  ip?: string;
+  current: boolean;
+}
+
+export function useSessions() {
+  return useQuery<{ sessions: ActiveSession[] }>({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await fetch('/api/session/sessions');
+      if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+      }
+      return response.json();
+    },
+    refetchInterval: 60000,
+  });
+}
+
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/session/sessions/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke session');
+      }
+      return data as { success: boolean; current: boolean };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+  });
+}
+
+/**
+ * Revoke every session except the current one
+ */
+export function useRevokeOtherSessions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/session/sessions', { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke sessions');
+      }
+      return data as { success: boolean; revoked: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * React Query hooks for the SQL console and its per-user history
+ * Editor tabs are stored in localStorage.
+ */
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { readWireJson, stringifyWire } from '@/lib/spacetime/json';
+import { isReadOnlySql } from '@/lib/spacetime/sql-parser';
+import type { QueryRequest, QueryResponse, SqlHistoryEntry, SqlParams } from '@/types/api';
+
+// Rows shown per statement in the console
+export const CONSOLE_MAX_ROWS = 1000;
+
+export interface SqlTab {
+  id: string;
+  title: string;
+  sql: string;
+  // Saved query the tab was opened from or saved as
+  savedQueryId?: string;
+}
+
+interface SqlTabState {
+  tabs: SqlTab[];
+  activeId: string;
+  // Numbers new tab titles
+  counter: number;
+  addTab: (sql?: string, options?: Pick<SqlTab, 'title' | 'savedQueryId'>) => string;
+  closeTab: (id: string) => void;
+  updateTab: (id: string, changes: Partial<Omit<SqlTab, 'id'>>) => void;
+  setActive: (id: string) => void;
+}
+
+const FIRST_TAB: SqlTab = { id: 'query-1', title: 'Query 1', sql: '' };
+
+export const useSqlTabStore = create<SqlTabState>()(
+  persist(
+    (set, get) => ({
+      tabs: [FIRST_TAB],
+      activeId: FIRST_TAB.id,
+      counter: 1,
+      addTab: (sql = '', options) => {
+        const counter = get().counter + 1;
+        const tab: SqlTab = {
+          id: `query-${Date.now()}`,
+          title: options?.title ?? `Query ${counter}`,
+          sql,
+          savedQueryId: options?.savedQueryId,
+        };
+        set((state) => ({ tabs: [...state.tabs, tab], activeId: tab.id, counter }));
+        return tab.id;
+      },
+      closeTab: (id) =>
+        set((state) => {
+          const index = state.tabs.findIndex((tab) => tab.id === id);
+          const tabs = state.tabs.filter((tab) => tab.id !== id);
+          // Closing the last tab leaves an empty one behind
+          if (tabs.length === 0) return { tabs: [FIRST_TAB], activeId: FIRST_TAB.id, counter: 1 };
+          const activeId = state.activeId === id ? tabs[Math.max(0, index - 1)].id : state.activeId;
+          return { tabs, activeId };
+        }),
+      updateTab: (id, changes) =>
+        set((state) => ({
+          tabs: state.tabs.map((tab) => (tab.id === id ? { ...tab, ...changes } : tab)),
+        })),
+      setActive: (id) => set({ activeId: id }),
+    }),
+    { name: 'spacetime-sql-tabs' }
+  )
+);
+
+/**
+ * Run SQL from the console; every statement's result is returned and the
+ * statement is recorded in the user's history
+ */
+export function useRunSql() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ sql, params }: { sql: string; params?: SqlParams }): Promise<QueryResponse> => {
+      const request: QueryRequest = { sql, params, maxRows: CONSOLE_MAX_ROWS, history: true };
+      const response = await fetch('/api/sql/query', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: stringifyWire(request),
+      });
+
+      const data = await readWireJson(response).catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Query failed');
+      }
+      // DELETE responses carry no result sets
+      return { columns: [], rows: [], totalRows: 0, fetchedRows: 0, truncated: false, results: [], ...data };
+    },
+    onSettled: (_data, _error, { sql }) => {
+      queryClient.invalidateQueries({ queryKey: ['sql-history'] });
+      if (!isReadOnlySql(sql)) {
+        queryClient.invalidateQueries({ queryKey: ['table-data'] });
+        queryClient.invalidateQueries({ queryKey: ['table-page'] });
+        queryClient.invalidateQueries({ queryKey: ['tables'] });
+      }
+    },
+  });
+}
+
+export function useSqlHistory() {
+  return useQuery<{ entries: SqlHistoryEntry[] }>({
+    queryKey: ['sql-history'],
+    queryFn: async () => {
+      const response = await fetch('/api/sql/history');
+      if (!response.ok) {
+        throw new Error('Failed to fetch SQL history');
+      }
+      return response.json();
+    },
+  });
+}
+
+export function usePinSqlHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, pinned }: { id: string; pinned: boolean }) => {
+      const response = await fetch(`/api/sql/history/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pinned }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update history entry');
+      }
+      return data.entry as SqlHistoryEntry;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sql-history'] });
+    },
+  });
+}
+
+export function useDeleteSqlHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/sql/history/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete history entry');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sql-history'] });
+    },
+  });
+}
+
+export function useClearSqlHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/sql/history', { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clear history');
+      }
+      return data as { removed: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sql-history'] });
+    },
+  });
+}
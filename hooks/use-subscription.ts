@@ -0,0 +1,262 @@
+/**
+ * React hook for live table data over a SpacetimeDB WebSocket subscription
+ * Applies inserts/deletes incrementally to the cached `useTableData` result.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  SpacetimeSubscriptionClient,
+  type TableRowChanges,
+  type WebSocketConstructor,
+} from '@/lib/spacetime/subscription-client';
+import { decodeRow, formatType, resolveType } from '@/lib/spacetime/sats';
+import { stringifyWire } from '@/lib/spacetime/json';
+import type { ConnectionStatus, QueryResult, SubscriptionInfo } from '@/types/spacetime';
+import type { TableSchemaResponse } from '@/types/schema';
+import type { SatsRowType } from '@/types/sats';
+
+// How long inserted/updated rows stay highlighted
+const HIGHLIGHT_MS = 3000;
+
+export type RowChange = 'inserted' | 'updated';
+
+interface LiveTableData extends QueryResult {
+  totalRows?: number;
+  fetchedRows?: number;
+  truncated?: boolean;
+}
+
+interface UseSubscriptionOptions {
+  enabled?: boolean;
+  // Primary key columns used to match deletes with inserts; whole rows are compared otherwise
+  primaryKey?: string[];
+  maxRows?: number;
+  // Override for tests against a fake server
+  WebSocketImpl?: WebSocketConstructor;
+  uri?: string;
+  module?: string;
+}
+
+export function useSubscription(tableName: string, options: UseSubscriptionOptions = {}) {
+  const {
+    enabled = true,
+    primaryKey = [],
+    maxRows = Number(process.env.NEXT_PUBLIC_MAX_LIVE_ROWS || 10000),
+    WebSocketImpl,
+    uri = process.env.NEXT_PUBLIC_SPACETIME_URI || '',
+    module = process.env.NEXT_PUBLIC_SPACETIME_MODULE || '',
+  } = options;
+
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ConnectionStatus>({
+    connected: false,
+    connecting: false,
+    retryCount: 0,
+  });
+  const [info, setInfo] = useState<SubscriptionInfo>({ tableName, active: false, rowCount: 0 });
+  const [changes, setChanges] = useState<Map<string, RowChange>>(new Map());
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const { data: rowType, error: rowTypeError } = useQuery<SatsRowType | undefined>({
+    queryKey: ['table-row-type', tableName],
+    queryFn: async () => {
+      const response = await fetch(`/api/schema/table/${tableName}?rowType=true`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch row type: ${tableName}`);
+      }
+      const data: TableSchemaResponse = await response.json();
+      return data.rowType;
+    },
+    enabled: enabled && !!tableName,
+    staleTime: Infinity,
+  });
+
+  // Keyed by the joined names so a new array with the same columns keeps the callback stable
+  const primaryKeyId = primaryKey.join(',');
+  const rowKey = useCallback(
+    (row: Record<string, unknown>): string => {
+      const keyColumns = primaryKeyId ? primaryKeyId.split(',') : [];
+      return stringifyWire(keyColumns.length > 0 ? keyColumns.map((col) => row[col]) : row);
+    },
+    [primaryKeyId]
+  );
+
+  useEffect(() => {
+    if (!enabled || !tableName || !rowType) return;
+    if (!uri || !module) {
+      setStatus((prev) => ({ ...prev, error: 'NEXT_PUBLIC_SPACETIME_URI is not configured' }));
+      return;
+    }
+
+    const decode = (row: unknown[]) => decodeRow(rowType.columns, row, rowType.typespace);
+    const queryKey = ['table-data', tableName];
+
+    const highlight = (changed: Map<string, RowChange>) => {
+      if (changed.size === 0) return;
+      setChanges((prev) => new Map([...prev, ...changed]));
+      const timer = setTimeout(() => {
+        timers.current.delete(timer);
+        setChanges((prev) => {
+          const next = new Map(prev);
+          for (const [key, change] of changed) {
+            if (next.get(key) === change) next.delete(key);
+          }
+          return next;
+        });
+      }, HIGHLIGHT_MS);
+      timers.current.add(timer);
+    };
+
+    let client: SpacetimeSubscriptionClient;
+    try {
+      client = new SpacetimeSubscriptionClient({
+        uri,
+        module,
+        maxRetries: Number(process.env.NEXT_PUBLIC_SPACETIME_MAX_RETRIES || 3),
+        retryBackoff: Number(process.env.NEXT_PUBLIC_SPACETIME_RETRY_BACKOFF || 2),
+        WebSocketImpl,
+      });
+    } catch (error) {
+      setStatus((prev) => ({ ...prev, error: error instanceof Error ? error.message : String(error) }));
+      return;
+    }
+
+    const offStatus = client.onStatusChange(setStatus);
+    const unsubscribe = client.subscribe(`SELECT * FROM ${tableName}`, {
+      onApplied: (rawRows) => {
+        const rows = rawRows.slice(0, maxRows).map(decode);
+        queryClient.setQueriesData<LiveTableData>({ queryKey }, (old) => ({
+          ...old,
+          columns: old?.columns ?? describeColumns(rowType),
+          rows,
+          totalRows: rawRows.length,
+          fetchedRows: rows.length,
+          truncated: rawRows.length > rows.length,
+        }));
+        setInfo({
+          tableName,
+          active: true,
+          rowCount: rawRows.length,
+          lastUpdate: new Date(),
+        });
+      },
+      onUpdate: (update) => {
+        let changed = new Map<string, RowChange>();
+        let rowCount = 0;
+        queryClient.setQueriesData<LiveTableData>({ queryKey }, (old) => {
+          if (!old) return old;
+          const result = applyRowChanges(old, update, decode, rowKey, maxRows);
+          changed = result.changed;
+          rowCount = result.data.totalRows ?? result.data.rows.length;
+          return result.data;
+        });
+        highlight(changed);
+        setInfo((prev) => ({ ...prev, active: true, rowCount, lastUpdate: new Date(), error: undefined }));
+      },
+      onError: (error) => {
+        console.error(`[Subscription] ${tableName}:`, error);
+        setInfo((prev) => ({ ...prev, active: false, error }));
+      },
+    });
+
+    const pending = timers.current;
+    return () => {
+      unsubscribe();
+      offStatus();
+      client.close();
+      for (const timer of pending) clearTimeout(timer);
+      pending.clear();
+      setChanges(new Map());
+      setInfo({ tableName, active: false, rowCount: 0 });
+    };
+  }, [enabled, tableName, rowType, uri, module, maxRows, rowKey, WebSocketImpl, queryClient]);
+
+  const error = info.error || status.error || (rowTypeError instanceof Error ? rowTypeError.message : undefined);
+
+  return {
+    status,
+    info,
+    changes,
+    rowKey,
+    isLive: enabled && status.connected && info.active,
+    // Set once the subscription has given up (retries exhausted or rejected by the server)
+    failed: enabled && !status.connecting && !info.active && !!error,
+    error,
+  };
+}
+
+/**
+ * Apply one transaction's inserts and deletes to the cached rows
+ * A delete and insert with the same key is an in-place update.
+ */
+function applyRowChanges(
+  data: LiveTableData,
+  update: TableRowChanges,
+  decode: (row: unknown[]) => Record<string, unknown>,
+  rowKey: (row: Record<string, unknown>) => string,
+  maxRows: number
+): { data: LiveTableData; changed: Map<string, RowChange> } {
+  const rows: (Record<string, unknown> | undefined)[] = [...data.rows];
+  const positions = new Map(rows.map((row, i) => [rowKey(row!), i]));
+  const deleted = new Map<string, number>();
+  const changed = new Map<string, RowChange>();
+  let totalRows = data.totalRows ?? data.rows.length;
+
+  for (const raw of update.deletes) {
+    const key = rowKey(decode(raw));
+    const index = positions.get(key);
+    totalRows--;
+    if (index === undefined) continue;
+    rows[index] = undefined;
+    positions.delete(key);
+    deleted.set(key, index);
+  }
+
+  let liveCount = rows.length - deleted.size;
+  for (const raw of update.inserts) {
+    const row = decode(raw);
+    const key = rowKey(row);
+    totalRows++;
+
+    const index = deleted.get(key);
+    if (index !== undefined) {
+      rows[index] = row;
+      deleted.delete(key);
+      liveCount++;
+      changed.set(key, 'updated');
+    } else if (liveCount < maxRows) {
+      rows.push(row);
+      liveCount++;
+      changed.set(key, 'inserted');
+    }
+  }
+
+  const kept = rows.filter((row): row is Record<string, unknown> => row !== undefined);
+  totalRows = Math.max(totalRows, kept.length);
+
+  return {
+    data: {
+      ...data,
+      rows: kept,
+      totalRows,
+      fetchedRows: kept.length,
+      truncated: totalRows > kept.length,
+    },
+    changed,
+  };
+}
+
+function describeColumns(rowType: SatsRowType): QueryResult['columns'] {
+  return rowType.columns.map((col) => {
+    const resolved = resolveType(col.type, rowType.typespace);
+    const isOption = resolved.kind === 'option';
+    return {
+      name: col.name,
+      type: formatType(isOption ? resolved.inner : col.type, rowType.typespace),
+      nullable: isOption,
+    };
+  });
+}
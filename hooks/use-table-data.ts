@@ -4,26 +4,34 @@
 
 'use client';
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { QueryResult } from '@/types/spacetime';
-import type { QueryRequest, MutateRequest } from '@/types/api';
+import { useCallback } from 'react';
+import { keepPreviousData, useQueries, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { readWireJson, stringifyWire } from '@/lib/spacetime/json';
+import { insertRowParams, quoteIdentifier, updateRowParams } from '@/lib/spacetime/sql';
+import { reducerArgsFromRow } from '@/hooks/use-table-reducers';
+import type { Reducer } from '@/hooks/use-reducers';
+import type { ImportRow } from '@/lib/spacetime/import';
+import type { BulkOperationResult, ColumnMetadata, QueryResult } from '@/types/spacetime';
+import type { BulkRequest, QueryRequest, MutateRequest, PagedQueryResponse, SqlParams } from '@/types/api';
 
 /**
  * Hook to fetch table data with configurable row limit
  * 
  * IMPORTANT: SpacetimeDB SQL doesn't support LIMIT/OFFSET, so this fetches ALL rows.
- * For large tables (>10k rows), this could cause performance issues.
+ * For large tables (>10k rows), this could cause performance issues; prefer
+ * `useTableRows` unless every row is needed (e.g. for a live subscription).
  * 
  * @param tableName - Name of the table to query
  * @param maxRows - Maximum rows to fetch (default: 10000). Set to -1 for unlimited (use with caution!)
+ * @param enabled - Whether to fetch at all
  */
-export function useTableData(tableName: string, maxRows = 10000) {
-  return useQuery<QueryResult & { truncated?: boolean; fetchedRows?: number }>({
+export function useTableData(tableName: string, maxRows = 10000, enabled = true) {
+  return useQuery<QueryResult & { totalRows?: number; truncated?: boolean; fetchedRows?: number }>({
     queryKey: ['table-data', tableName, maxRows],
     queryFn: async () => {
       // SpacetimeDB SQL doesn't support LIMIT/OFFSET, so we fetch all rows
       // and truncate client-side if needed
-      const sql = `SELECT * FROM ${tableName}`;
+      const sql = `SELECT * FROM ${quoteIdentifier(tableName)}`;
 
       const response = await fetch('/api/sql/query', {
         method: 'POST',
@@ -36,16 +44,110 @@ export function useTableData(tableName: string, maxRows = 10000) {
         throw new Error(errorData.error || 'Failed to fetch table data');
       }
 
-      const result = await response.json();
+      const result = await readWireJson(response);
       
       return result;
     },
-    enabled: !!tableName,
+    enabled: enabled && !!tableName,
     staleTime: 30000, // Cache for 30 seconds since we're fetching all data
   });
 }
 
-export function useQueryData(sql: string, params?: unknown[]) {
+/**
+ * Fetch one page of a SELECT from the server's result cache
+ */
+export async function fetchQueryPage(request: QueryRequest): Promise<PagedQueryResponse> {
+  const response = await fetch('/api/sql/query', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: stringifyWire(request),
+  });
+
+  const data = await readWireJson(response).catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || 'Query failed');
+  }
+  return data;
+}
+
+// Rows fetched per request while scrolling through a cached result
+const ROW_BLOCK_SIZE = 200;
+
+interface TableRowsOptions {
+  // Custom SELECT to scroll through instead of the whole table, and its placeholder values
+  sql?: string;
+  params?: SqlParams;
+  orderBy?: string;
+  filters?: Record<string, string>;
+  search?: string;
+  // Rows in view as [start, end); the blocks covering them are fetched
+  range?: [number, number];
+  enabled?: boolean;
+}
+
+/**
+ * Hook to fetch the rows in view of a table (or of a custom SELECT against it)
+ * The server keeps the full result cached, so scrolling or changing the sort and
+ * filters fetches blocks of rows without re-running the query. The first block
+ * is always fetched and carries the result's columns and row counts; `refresh`
+ * re-runs the query and reloads the blocks in view.
+ */
+export function useTableRows(tableName: string, options: TableRowsOptions) {
+  const { params, orderBy, filters, search, range = [0, ROW_BLOCK_SIZE], enabled = true } = options;
+  const sql = options.sql ?? `SELECT * FROM ${quoteIdentifier(tableName)}`;
+  const queryClient = useQueryClient();
+
+  const blockQuery = (block: number) => {
+    const request: QueryRequest = { sql, params, page: block + 1, pageSize: ROW_BLOCK_SIZE, orderBy, filters, search };
+    return {
+      queryKey: ['table-page', tableName, request],
+      queryFn: () => fetchQueryPage(request),
+      enabled: enabled && !!tableName,
+    };
+  };
+
+  // Keeps showing the previous result while a new sort or filter loads
+  const first = useQuery<PagedQueryResponse>({ ...blockQuery(0), placeholderData: keepPreviousData });
+  const rowCount = first.data?.matchedRows ?? 0;
+
+  const lastBlock = Math.min(
+    Math.ceil(rowCount / ROW_BLOCK_SIZE) - 1,
+    Math.floor(Math.max(range[1] - 1, 0) / ROW_BLOCK_SIZE)
+  );
+  const blocks: number[] = [];
+  for (let block = Math.max(1, Math.floor(range[0] / ROW_BLOCK_SIZE)); block <= lastBlock; block++) {
+    blocks.push(block);
+  }
+  const rest = useQueries({ queries: blocks.map(blockQuery) });
+
+  const loaded = new Map<number, PagedQueryResponse>();
+  if (first.data) loaded.set(0, first.data);
+  rest.forEach((query, i) => {
+    // The server clamps pages past the end, which would repeat earlier rows
+    if (query.data?.page === blocks[i] + 1) loaded.set(blocks[i], query.data);
+  });
+
+  const getRow = (index: number): Record<string, unknown> | undefined =>
+    loaded.get(Math.floor(index / ROW_BLOCK_SIZE))?.rows[index % ROW_BLOCK_SIZE];
+
+  const refresh = useCallback(async () => {
+    await fetchQueryPage({ sql, params, page: 1, pageSize: 1, refresh: true });
+    await queryClient.invalidateQueries({ queryKey: ['table-page', tableName] });
+  }, [queryClient, tableName, sql, params]);
+
+  return {
+    // Columns, row counts and cache time of the whole result
+    data: first.data,
+    rowCount,
+    getRow,
+    isLoading: first.isLoading,
+    isFetching: first.isFetching || rest.some((query) => query.isFetching),
+    error: first.error ?? rest.find((query) => query.error)?.error ?? null,
+    refresh,
+  };
+}
+
+export function useQueryData(sql: string, params?: SqlParams) {
   return useQuery<QueryResult>({
     queryKey: ['query', sql, params],
     queryFn: async () => {
@@ -54,14 +156,14 @@ export function useQueryData(sql: string, params?: unknown[]) {
       const response = await fetch('/api/sql/query', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request),
+        body: stringifyWire(request),
       });
 
       if (!response.ok) {
         throw new Error('Failed to execute query');
       }
 
-      return response.json();
+      return readWireJson(response);
     },
     enabled: !!sql,
   });
@@ -75,7 +177,7 @@ export function useMutateData() {
       const response = await fetch('/api/sql/mutate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request),
+        body: stringifyWire(request),
       });
 
       if (!response.ok) {
@@ -83,11 +185,230 @@ export function useMutateData() {
         throw new Error(error.error || 'Mutation failed');
       }
 
-      return response.json();
+      return readWireJson(response);
     },
     onSuccess: () => {
       // Invalidate all table data queries
       queryClient.invalidateQueries({ queryKey: ['table-data'] });
+      queryClient.invalidateQueries({ queryKey: ['table-page'] });
+    },
+  });
+}
+
+interface UpdateRowVariables {
+  original: Record<string, unknown>;
+  changes: Record<string, unknown>;
+}
+
+/**
+ * Hook to update a single row, either with an UPDATE statement or through a mapped reducer
+ * The cached row is updated optimistically and rolled back if the write fails.
+ */
+export function useUpdateRow(
+  tableName: string,
+  options: { columns: ColumnMetadata[]; primaryKey: string[]; reducer?: Reducer }
+) {
+  const queryClient = useQueryClient();
+  // Both the full table fetch and cached pages hold rows of this table
+  const queryKeys = [['table-data', tableName], ['table-page', tableName]];
+
+  return useMutation({
+    mutationFn: async ({ original, changes }: UpdateRowVariables) => {
+      if (options.reducer) {
+        return callReducer(options.reducer.name, reducerArgsFromRow(options.reducer, { ...original, ...changes }));
+      }
+
+      return executeMutation(updateRowParams(tableName, options.columns, options.primaryKey, original, changes));
+    },
+    onMutate: async ({ original, changes }) => {
+      await Promise.all(queryKeys.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+      const snapshot = queryKeys.flatMap((queryKey) => queryClient.getQueriesData<QueryResult>({ queryKey }));
+
+      for (const queryKey of queryKeys) {
+        queryClient.setQueriesData<QueryResult>({ queryKey }, (old) =>
+          old && {
+            ...old,
+            rows: old.rows.map((row) => (row === original ? { ...row, ...changes } : row)),
+          }
+        );
+      }
+
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      for (const [key, data] of context?.snapshot ?? []) {
+        queryClient.setQueryData(key, data);
+      }
+    },
+    onSettled: () => {
+      for (const queryKey of queryKeys) {
+        queryClient.invalidateQueries({ queryKey });
+      }
     },
   });
 }
+
+/**
+ * Hook to insert a row, either with an INSERT statement or through a mapped reducer
+ */
+export function useInsertRow(
+  tableName: string,
+  options: { columns: ColumnMetadata[]; reducer?: Reducer }
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (values: Record<string, unknown>) => {
+      if (options.reducer) {
+        return callReducer(options.reducer.name, reducerArgsFromRow(options.reducer, values));
+      }
+
+      return executeMutation(insertRowParams(tableName, options.columns, values));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-data', tableName] });
+      queryClient.invalidateQueries({ queryKey: ['table-page', tableName] });
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+    },
+  });
+}
+
+// Rows sent per /api/sql/bulk request, and between progress updates
+export const IMPORT_BATCH_SIZE = 100;
+
+export interface ImportProgress {
+  total: number;
+  // Rows attempted so far
+  done: number;
+  inserted: number;
+  failed: { row: ImportRow; error: string }[];
+  cancelled: boolean;
+}
+
+interface ImportRowsVariables {
+  rows: ImportRow[];
+  onProgress?: (progress: ImportProgress) => void;
+  // Checked between batches to stop the import early
+  signal?: AbortSignal;
+}
+
+/**
+ * Hook to insert imported rows in batches, as INSERT statements through /api/sql/bulk
+ * or one call per row to a mapped reducer
+ * A failed row is recorded in the progress instead of stopping the import.
+ */
+export function useImportRows(
+  tableName: string,
+  options: { columns: ColumnMetadata[]; reducer?: Reducer }
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ rows, onProgress, signal }: ImportRowsVariables): Promise<ImportProgress> => {
+      const progress: ImportProgress = { total: rows.length, done: 0, inserted: 0, failed: [], cancelled: false };
+      const settle = (row: ImportRow, error?: string) => {
+        progress.done++;
+        if (error) progress.failed.push({ row, error });
+        else progress.inserted++;
+      };
+
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        if (signal?.aborted) {
+          progress.cancelled = true;
+          break;
+        }
+        const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+
+        if (options.reducer) {
+          for (const row of batch) {
+            try {
+              await callReducer(options.reducer.name, reducerArgsFromRow(options.reducer, row.values));
+              settle(row);
+            } catch (error) {
+              settle(row, error instanceof Error ? error.message : String(error));
+            }
+          }
+        } else {
+          const statements: { row: ImportRow; operation: { sql: string; params: unknown[] } }[] = [];
+          for (const row of batch) {
+            try {
+              statements.push({ row, operation: insertRowParams(tableName, options.columns, row.values) });
+            } catch (error) {
+              settle(row, error instanceof Error ? error.message : String(error));
+            }
+          }
+
+          if (statements.length > 0) {
+            try {
+              const result = await executeBulk({
+                operations: statements.map(({ operation }) => operation),
+                transactional: false,
+              });
+              statements.forEach(({ row }, index) => {
+                const outcome = result.results[index];
+                settle(row, outcome?.success ? undefined : outcome?.error || 'Insert failed');
+              });
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              statements.forEach(({ row }) => settle(row, message));
+            }
+          }
+        }
+
+        onProgress?.({ ...progress, failed: [...progress.failed] });
+      }
+
+      return progress;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['table-data', tableName] });
+      queryClient.invalidateQueries({ queryKey: ['table-page', tableName] });
+      queryClient.invalidateQueries({ queryKey: ['tables'] });
+    },
+  });
+}
+
+async function executeBulk(request: BulkRequest): Promise<BulkOperationResult> {
+  const response = await fetch('/api/sql/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: stringifyWire(request),
+  });
+
+  const result = await readWireJson(response).catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.details || result.error || 'Bulk operation failed');
+  }
+  return result;
+}
+
+/**
+ * Run a DML statement, treating an unsuccessful MutationResult as an error
+ */
+async function executeMutation(request: MutateRequest) {
+  const response = await fetch('/api/sql/mutate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: stringifyWire(request),
+  });
+
+  const result = await readWireJson(response).catch(() => ({}));
+  if (!response.ok || result.success === false) {
+    throw new Error(result.details || result.error || 'Mutation failed');
+  }
+  return result;
+}
+
+async function callReducer(reducer: string, params: unknown[]) {
+  const response = await fetch('/api/reducers/call', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: stringifyWire({ reducer, params }),
+  });
+
+  const result = await readWireJson(response).catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.details || result.message || result.error || `Failed to call ${reducer}`);
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * Per-table reducer mappings for row writes
+ * Lets a table's insert/update go through a module reducer instead of SQL DML.
+ * Stored in localStorage.
+ */
+
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Reducer } from '@/hooks/use-reducers';
+
+export type RowAction = 'insert' | 'update';
+
+interface TableReducerState {
+  mappings: Record<string, Partial<Record<RowAction, string>>>;
+  setReducer: (tableName: string, action: RowAction, reducer: string | undefined) => void;
+}
+
+export const useTableReducerStore = create<TableReducerState>()(
+  persist(
+    (set) => ({
+      mappings: {},
+      setReducer: (tableName, action, reducer) =>
+        set((state) => ({
+          mappings: {
+            ...state.mappings,
+            [tableName]: { ...state.mappings[tableName], [action]: reducer },
+          },
+        })),
+    }),
+    { name: 'spacetime-table-reducers' }
+  )
+);
+
+export function useTableReducer(tableName: string, action: RowAction) {
+  const reducer = useTableReducerStore((state) => state.mappings[tableName]?.[action]);
+  const setReducer = useTableReducerStore((state) => state.setReducer);
+  return [reducer, (name: string | undefined) => setReducer(tableName, action, name)] as const;
+}
+
+/**
+ * Build reducer arguments from a row by matching parameter names to columns
+ */
+export function reducerArgsFromRow(reducer: Reducer, row: Record<string, unknown>): unknown[] {
+  return reducer.params.map((param, idx) => {
+    if (!param.name || !(param.name in row)) {
+      throw new Error(`${reducer.name}: parameter ${param.name ?? idx} has no matching column`);
+    }
+    return row[param.name];
+  });
+}
@@ -5,8 +5,7 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { SchemaTablesResponse } from '@/types/schema';
-import type { TableMetadata } from '@/types/spacetime';
+import type { SchemaTablesResponse, TableSchemaResponse } from '@/types/schema';
 
 export function useTables() {
   return useQuery<SchemaTablesResponse>({
@@ -18,6 +17,8 @@ export function useTables() {
       }
       return response.json();
     },
+    // Row counts are cached server-side with their own (shorter) TTL
+    refetchInterval: 60000,
   });
 }
 
@@ -41,7 +42,7 @@ export function useRefreshTables() {
 }
 
 export function useTable(tableName: string) {
-  return useQuery<{ table: TableMetadata }>({
+  return useQuery<TableSchemaResponse>({
     queryKey: ['table', tableName],
     queryFn: async () => {
       const response = await fetch(`/api/schema/table/${tableName}`);
@@ -0,0 +1,94 @@
+/**
+ * React Query hooks for the signed-in user and portal user management
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission, PortalUser, Role } from '@/types/auth';
+
+async function readJson(response: Response, fallbackError: string) {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.details || data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The signed-in user, plus a `can(permission)` check for hiding actions
+ */
+export function useCurrentUser() {
+  const query = useQuery<{ user: PortalUser }>({
+    queryKey: ['current-user'],
+    queryFn: async () => readJson(await fetch('/api/session'), 'Failed to fetch session'),
+    staleTime: 1000 * 60,
+  });
+
+  const user = query.data?.user;
+  return {
+    ...query,
+    user,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
+  };
+}
+
+export function useUsers(enabled = true) {
+  return useQuery<{ users: PortalUser[] }>({
+    queryKey: ['users'],
+    queryFn: async () => readJson(await fetch('/api/users'), 'Failed to fetch users'),
+    enabled,
+  });
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { username: string; password: string; role: Role; name?: string; email?: string }) => {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      return (await readJson(response, 'Failed to create user')) as { user: PortalUser };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; role?: Role; name?: string; password?: string }) => {
+      const response = await fetch(`/api/users/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      return (await readJson(response, 'Failed to update user')) as { user: PortalUser };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['current-user'] });
+    },
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/users/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      return (await readJson(response, 'Failed to delete user')) as { success: boolean; revoked: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+}
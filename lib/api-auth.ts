@@ -0,0 +1,61 @@
+/**
+ * Authorization for API routes
+ * Resolves the signed-in portal user from the session cookie and checks
+ * their role before a route does any work.
+ */
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession, type SessionInfo } from '@/lib/session';
+import { getUser } from '@/lib/users';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission, PortalUser } from '@/types/auth';
+
+export interface AuthContext {
+  user: PortalUser;
+  session: SessionInfo;
+}
+
+type AuthResult = (AuthContext & { error?: undefined }) | { error: NextResponse };
+
+/**
+ * The signed-in user for the current request, or null
+ */
+export async function getCurrentUser(): Promise<AuthContext | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const session = await getSession(token);
+  if (!session) return null;
+
+  // Deleted users lose access immediately, even with a live session
+  const user = await getUser(session.userId);
+  return user ? { user, session } : null;
+}
+
+/**
+ * Require a permission for the current request
+ * Returns the user and session, or a 401/403 response to return as-is.
+ */
+export async function requirePermission(permission: Permission): Promise<AuthResult> {
+  const context = await getCurrentUser();
+
+  if (!context) {
+    return { error: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  if (!hasPermission(context.user.role, permission)) {
+    return { error: forbidden(context.user, permission) };
+  }
+
+  return context;
+}
+
+export function forbidden(user: PortalUser, permission: Permission): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Permission denied',
+      details: `The ${user.role} role does not have the ${permission} permission`,
+      needsPermission: true,
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Audit log
+ * Append-only record of writes, reducer calls and denied actions, kept in a
+ * local SQLite database under `config.dataDir` (server-side only).
+ * Entries older than the retention period are pruned.
+ */
+
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '@/lib/config';
+import { dataPath } from '@/lib/data-store';
+import type { AuditEntry, AuditFilter, AuditLogResponse, AuditOutcome, AuditSettings } from '@/types/audit';
+import type { PortalUser } from '@/types/auth';
+
+const AUDIT_DB_FILE = 'audit.db';
+
+// Minimum gap between retention sweeps triggered by new entries
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const MAX_PAGE_SIZE = 1000;
+
+interface AuditRow {
+  id: number;
+  timestamp: string;
+  user_id: string | null;
+  username: string | null;
+  role: string | null;
+  action: string;
+  target: string | null;
+  outcome: AuditOutcome;
+  details: string | null;
+  duration_ms: number | null;
+  ip: string | null;
+}
+
+let db: Database.Database | null = null;
+let lastPrunedAt = 0;
+
+function getDb(): Database.Database {
+  if (db) return db;
+
+  const file = dataPath(AUDIT_DB_FILE);
+  mkdirSync(path.dirname(file), { recursive: true });
+  db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      user_id TEXT,
+      username TEXT,
+      role TEXT,
+      action TEXT NOT NULL,
+      target TEXT,
+      outcome TEXT NOT NULL,
+      details TEXT,
+      ip TEXT
+    );
+    CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp);
+    CREATE TABLE IF NOT EXISTS audit_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+
+  const columns = db.prepare('PRAGMA table_info(audit_log)').all() as { name: string }[];
+  if (!columns.some((column) => column.name === 'duration_ms')) {
+    db.exec('ALTER TABLE audit_log ADD COLUMN duration_ms INTEGER');
+  }
+
+  return db;
+}
+
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    userId: row.user_id,
+    username: row.username,
+    role: row.role,
+    action: row.action,
+    target: row.target,
+    outcome: row.outcome,
+    details: row.details ? JSON.parse(row.details) : null,
+    durationMs: row.duration_ms,
+    ip: row.ip,
+  };
+}
+
+export interface AuditInput {
+  user?: Pick<PortalUser, 'id' | 'username' | 'role'> | null;
+  action: string;
+  target?: string | null;
+  outcome: AuditOutcome;
+  details?: Record<string, unknown>;
+  durationMs?: number;
+  ip?: string | null;
+}
+
+/**
+ * Append an entry; failures are logged rather than thrown so auditing never
+ * breaks the request being audited
+ */
+export function recordAudit(input: AuditInput): AuditEntry | null {
+  const entry: Omit<AuditEntry, 'id'> = {
+    timestamp: new Date().toISOString(),
+    userId: input.user?.id ?? null,
+    username: input.user?.username ?? null,
+    role: input.user?.role ?? null,
+    action: input.action,
+    target: input.target ?? null,
+    outcome: input.outcome,
+    details: input.details ?? null,
+    durationMs: input.durationMs ?? null,
+    ip: input.ip ?? null,
+  };
+
+  try {
+    const database = getDb();
+    // Details may hold bigint parameters, which JSON.stringify rejects
+    const details = entry.details
+      ? JSON.stringify(entry.details, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+      : null;
+    const result = database
+      .prepare(
+        `INSERT INTO audit_log (timestamp, user_id, username, role, action, target, outcome, details, duration_ms, ip)
+         VALUES (@timestamp, @userId, @username, @role, @action, @target, @outcome, @details, @durationMs, @ip)`
+      )
+      .run({ ...entry, details });
+
+    if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+      pruneAudit();
+    }
+
+    return { id: Number(result.lastInsertRowid), ...entry };
+  } catch (error) {
+    console.error('[Audit] Failed to record entry:', error, entry);
+    return null;
+  }
+}
+
+/**
+ * Client IP for audit entries, from the proxy header when present
+ */
+export function requestIp(request: Request): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+}
+
+function filterConditions(filter: AuditFilter): { conditions: string[]; params: Record<string, unknown> } {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filter.username) {
+    conditions.push('username = @username');
+    params.username = filter.username;
+  }
+  if (filter.target) {
+    conditions.push("target LIKE @target ESCAPE '\\'");
+    params.target = `%${filter.target.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  }
+  if (filter.action) {
+    conditions.push('action = @action');
+    params.action = filter.action;
+  }
+  if (filter.outcome) {
+    conditions.push('outcome = @outcome');
+    params.outcome = filter.outcome;
+  }
+  if (filter.from) {
+    conditions.push('timestamp >= @from');
+    params.from = filter.from;
+  }
+  if (filter.to) {
+    conditions.push('timestamp <= @to');
+    params.to = filter.to;
+  }
+
+  return { conditions, params };
+}
+
+function whereClause(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * One page of matching entries, newest first, with the total and filter options
+ */
+export function queryAudit(filter: AuditFilter): AuditLogResponse {
+  const database = getDb();
+  const { conditions, params } = filterConditions(filter);
+  const where = whereClause(conditions);
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(filter.offset ?? 0, 0);
+
+  const rows = database
+    .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`)
+    .all({ ...params, limit, offset }) as AuditRow[];
+  const { total } = database
+    .prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`)
+    .get(params) as { total: number };
+
+  const distinct = (column: 'username' | 'action') =>
+    (database
+      .prepare(`SELECT DISTINCT ${column} AS value FROM audit_log WHERE ${column} IS NOT NULL ORDER BY value`)
+      .all() as { value: string }[]).map((row) => row.value);
+
+  return {
+    entries: rows.map(fromRow),
+    total,
+    facets: { usernames: distinct('username'), actions: distinct('action') },
+  };
+}
+
+/**
+ * Every entry matching the filter, newest first, for export
+ * Pages by id so entries recorded during the export don't shift the pages.
+ */
+export function* iterateAudit(filter: Omit<AuditFilter, 'limit' | 'offset'>): Generator<AuditEntry> {
+  const { conditions, params } = filterConditions(filter);
+  const statement = getDb().prepare(
+    `SELECT * FROM audit_log ${whereClause([...conditions, 'id < @beforeId'])} ORDER BY id DESC LIMIT @limit`
+  );
+
+  let beforeId = Number.MAX_SAFE_INTEGER;
+  for (;;) {
+    const rows = statement.all({ ...params, beforeId, limit: MAX_PAGE_SIZE }) as AuditRow[];
+    for (const row of rows) yield fromRow(row);
+    if (rows.length < MAX_PAGE_SIZE) return;
+    beforeId = rows[rows.length - 1].id;
+  }
+}
+
+export function getAuditSettings(): AuditSettings {
+  const row = getDb()
+    .prepare("SELECT value FROM audit_settings WHERE key = 'retention_days'")
+    .get() as { value: string } | undefined;
+  return { retentionDays: row ? Number(row.value) : config.audit.retentionDays };
+}
+
+export function updateAuditSettings(settings: AuditSettings): AuditSettings {
+  getDb()
+    .prepare(
+      `INSERT INTO audit_settings (key, value) VALUES ('retention_days', @value)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+    )
+    .run({ value: String(settings.retentionDays) });
+  pruneAudit();
+  return getAuditSettings();
+}
+
+/**
+ * Delete entries older than the retention period, returning how many were removed
+ */
+export function pruneAudit(): number {
+  lastPrunedAt = Date.now();
+  const { retentionDays } = getAuditSettings();
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  return getDb().prepare('DELETE FROM audit_log WHERE timestamp < @cutoff').run({ cutoff }).changes;
+}
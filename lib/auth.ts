@@ -1,23 +1,44 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
 import { betterAuth } from "better-auth";
+import { dataPath } from "@/lib/data-store";
+
+const AUTH_DB_FILE = "auth.db";
+
+function openDatabase() {
+  const file = dataPath(AUTH_DB_FILE);
+  mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
 
 export const auth = betterAuth({
   secret: process.env.BETTER_AUTH_SECRET!,
-  database: {
-    // Use in-memory storage since we're doing simple credential check
-    provider: "sqlite",
-    url: "file::memory:?cache=shared",
-  },
+  // Portal accounts live in a local SQLite database under PORTAL_DATA_DIR
+  database: openDatabase(),
   emailAndPassword: {
     enabled: true,
     requireEmailVerification: false,
+    // Accounts are created by admins from the Users page
+    disableSignUp: true,
   },
   user: {
     additionalFields: {
+      username: {
+        type: "string",
+        required: false,
+        unique: true,
+        input: false,
+      },
       role: {
         type: "string",
         required: false,
-      }
-    }
+        defaultValue: "viewer",
+        input: false,
+      },
+    },
   },
   trustedOrigins: [process.env.BETTER_AUTH_URL || "http://localhost:3000"],
 });
@@ -11,12 +11,34 @@ interface SpacetimeConfig {
   maxRetries: number;
   retryBackoff: number;
   cacheTtlMinutes: number;
+  statsTtlMinutes: number;
   maxLiveRows: number;
 }
 
+interface SessionConfig {
+  idleTimeoutMinutes: number;
+  maxAgeHours: number;
+}
+
+interface AuditConfig {
+  // Default retention; can be changed from the Audit page (0 keeps entries forever)
+  retentionDays: number;
+}
+
+interface ResultCacheConfig {
+  ttlSeconds: number;
+  // Rows kept across all cached query results
+  maxRows: number;
+}
+
 interface AppConfig {
   name: string;
+  // Directory for portal-local data (users, sessions, audit log)
+  dataDir: string;
   spacetime: SpacetimeConfig;
+  session: SessionConfig;
+  audit: AuditConfig;
+  resultCache: ResultCacheConfig;
 }
 
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -39,6 +61,7 @@ function getEnvNumber(key: string, defaultValue: number): number {
 
 export const config: AppConfig = {
   name: getEnvVar('NEXT_PUBLIC_APP_NAME', 'SpacetimeDB Admin Portal'),
+  dataDir: getEnvVar('PORTAL_DATA_DIR', '.data'),
   spacetime: {
     uri: getEnvVar('NEXT_PUBLIC_SPACETIME_URI'),
     module: getEnvVar('NEXT_PUBLIC_SPACETIME_MODULE'),
@@ -47,6 +70,18 @@ export const config: AppConfig = {
     maxRetries: getEnvNumber('NEXT_PUBLIC_SPACETIME_MAX_RETRIES', 3),
     retryBackoff: getEnvNumber('NEXT_PUBLIC_SPACETIME_RETRY_BACKOFF', 2),
     cacheTtlMinutes: getEnvNumber('NEXT_PUBLIC_CACHE_TTL_MINUTES', 10),
+    statsTtlMinutes: getEnvNumber('NEXT_PUBLIC_STATS_TTL_MINUTES', 1),
     maxLiveRows: getEnvNumber('NEXT_PUBLIC_MAX_LIVE_ROWS', 10000),
   },
+  session: {
+    idleTimeoutMinutes: getEnvNumber('SESSION_IDLE_TIMEOUT_MINUTES', 60),
+    maxAgeHours: getEnvNumber('SESSION_MAX_AGE_HOURS', 168),
+  },
+  audit: {
+    retentionDays: getEnvNumber('AUDIT_RETENTION_DAYS', 90),
+  },
+  resultCache: {
+    ttlSeconds: getEnvNumber('RESULT_CACHE_TTL_SECONDS', 60),
+    maxRows: getEnvNumber('RESULT_CACHE_MAX_ROWS', 500000),
+  },
 };
@@ -0,0 +1,60 @@
+/**
+ * Portal-local data store
+ * Small JSON documents kept under `config.dataDir` (server-side only)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '@/lib/config';
+
+// Pending read-modify-write per file, so concurrent updates in this process don't interleave
+const queues = new Map<string, Promise<unknown>>();
+
+export function dataPath(name: string): string {
+  return path.resolve(process.cwd(), config.dataDir, name);
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(name), 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Write a document atomically (temp file + rename)
+ */
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const file = dataPath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), { mode: 0o600 });
+  await fs.rename(temp, file);
+}
+
+/**
+ * Read, transform and write a document, serialized with other updates to the same file
+ */
+export function updateJsonFile<T, R = void>(
+  name: string,
+  fallback: T,
+  update: (data: T) => { data: T; result: R } | Promise<{ data: T; result: R }>
+): Promise<R> {
+  const previous = queues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const { data, result } = await update(await readJsonFile(name, fallback));
+      await writeJsonFile(name, data);
+      return result;
+    });
+
+  queues.set(name, next);
+  next.finally(() => {
+    if (queues.get(name) === next) queues.delete(name);
+  }).catch(() => undefined);
+
+  return next;
+}
@@ -0,0 +1,110 @@
+/**
+ * Portal roles and permissions
+ * Roles are ordered; each role has every permission of the roles below it.
+ * Shared by API routes (enforcement) and pages (hiding actions the user can't take).
+ */
+
+import type { Permission, PortalUser, Role } from '@/types/auth';
+import type { ReducerPreset, SavedQuery } from '@/types/api';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin', 'owner'];
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: 'Browse tables and run SELECT queries',
+  operator: 'Viewer, plus call non-admin reducers',
+  admin: 'Operator, plus write data, restore backups, manage users and view the audit log',
+  owner: 'Admin, plus manage other admins and owners and set audit retention',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['data:read'],
+  operator: ['data:read', 'reducers:call'],
+  admin: ['data:read', 'reducers:call', 'data:write', 'backups:restore', 'users:manage', 'audit:read'],
+  owner: [
+    'data:read',
+    'reducers:call',
+    'data:write',
+    'backups:restore',
+    'users:manage',
+    'audit:read',
+    'audit:configure',
+  ],
+};
+
+// Reducers that destroy data regardless of the caller's module permissions
+const ADMIN_REDUCERS: Record<string, Role> = {
+  restore_backup: 'admin',
+  delete_backup: 'admin',
+};
+
+// reducer_metadata.required_role values that map onto portal roles;
+// 'any' and 'authenticated' fall back to the operator minimum
+const REQUIRED_ROLE_MAP: Record<string, Role> = {
+  admin: 'admin',
+  owner: 'owner',
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function roleRank(role: Role): number {
+  return ROLES.indexOf(role);
+}
+
+export function hasPermission(role: Role | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Minimum portal role needed to call a reducer
+ * Operators can call any reducer unless it is a backup admin reducer or its
+ * reducer_metadata row requires admin or owner.
+ */
+export function reducerRole(reducer: string, requiredRole?: string | null): Role {
+  const candidates: Role[] = ['operator'];
+  if (ADMIN_REDUCERS[reducer]) candidates.push(ADMIN_REDUCERS[reducer]);
+  const mapped = requiredRole ? REQUIRED_ROLE_MAP[requiredRole.trim().toLowerCase()] : undefined;
+  if (mapped) candidates.push(mapped);
+  return candidates.reduce((max, role) => (roleRank(role) > roleRank(max) ? role : max));
+}
+
+export function canCallReducer(
+  role: Role | undefined,
+  reducer: string,
+  requiredRole?: string | null
+): boolean {
+  if (!role || !hasPermission(role, 'reducers:call')) return false;
+  return roleRank(role) >= roleRank(reducerRole(reducer, requiredRole));
+}
+
+/**
+ * Whether `actor` may create, edit or delete a user with `targetRole`
+ * Owners manage everyone; other managers only roles strictly below their own,
+ * so admins can't touch other admins or owners.
+ */
+export function canAssignRole(actor: Role, targetRole: Role): boolean {
+  if (!hasPermission(actor, 'users:manage')) return false;
+  return actor === 'owner' || roleRank(targetRole) < roleRank(actor);
+}
+
+/**
+ * Whether a user may edit or delete a saved query
+ * Owners of a query always can; admins can also manage team queries.
+ */
+export function canEditSavedQuery(
+  user: Pick<PortalUser, 'id' | 'role'>,
+  query: Pick<SavedQuery, 'ownerId' | 'visibility'>
+): boolean {
+  return query.ownerId === user.id || (query.visibility === 'team' && hasPermission(user.role, 'users:manage'));
+}
+
+/**
+ * Whether a user may edit or delete a reducer argument preset (same rule as saved queries)
+ */
+export function canEditReducerPreset(
+  user: Pick<PortalUser, 'id' | 'role'>,
+  preset: Pick<ReducerPreset, 'ownerId' | 'visibility'>
+): boolean {
+  return canEditSavedQuery(user, preset);
+}
@@ -0,0 +1,61 @@
+/**
+ * Reducer call history
+ * Every reducer call made through the portal, with its arguments, outcome and
+ * the table changes it made, kept in the portal data store (server-side only).
+ * Arguments and rows are stored in wire form so big integers keep every digit.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJsonFile } from '@/lib/data-store';
+import { stringifyWire } from '@/lib/spacetime/json';
+import type { ReducerCallEntry } from '@/types/api';
+
+const HISTORY_FILE = 'reducer-history.json';
+
+// Entries kept across all users; the oldest are dropped first
+const MAX_ENTRIES = 1000;
+
+export interface ReducerHistoryFilter {
+  reducer?: string;
+  // Only this user's calls
+  userId?: string;
+  limit?: number;
+}
+
+/**
+ * Calls matching a filter, newest first
+ */
+export async function listReducerCalls(filter: ReducerHistoryFilter = {}): Promise<ReducerCallEntry[]> {
+  const entries = await readJsonFile<ReducerCallEntry[]>(HISTORY_FILE, []);
+  return entries
+    .filter((entry) => !filter.reducer || entry.reducer === filter.reducer)
+    .filter((entry) => !filter.userId || entry.userId === filter.userId)
+    .slice(0, filter.limit ?? MAX_ENTRIES);
+}
+
+export async function getReducerCall(id: string): Promise<ReducerCallEntry | null> {
+  const entries = await readJsonFile<ReducerCallEntry[]>(HISTORY_FILE, []);
+  return entries.find((entry) => entry.id === id) ?? null;
+}
+
+/**
+ * Record a call; failures are logged rather than thrown so history never
+ * breaks the call being recorded
+ */
+export async function addReducerCall(
+  entry: Omit<ReducerCallEntry, 'id' | 'calledAt'>
+): Promise<ReducerCallEntry | null> {
+  const created: ReducerCallEntry = JSON.parse(
+    stringifyWire({ id: randomUUID(), calledAt: new Date().toISOString(), ...entry })
+  );
+
+  try {
+    return await updateJsonFile<ReducerCallEntry[], ReducerCallEntry>(HISTORY_FILE, [], (entries) => ({
+      data: [created, ...entries].slice(0, MAX_ENTRIES),
+      result: created,
+    }));
+  } catch (error) {
+    console.error('[Reducer History] Failed to record call:', error);
+    return null;
+  }
+}
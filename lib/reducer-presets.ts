@@ -0,0 +1,122 @@
+/**
+ * Reducer argument presets
+ * Named arguments for a reducer kept in the portal data store (server-side only).
+ * Private presets are visible to their owner; team presets to every signed-in user.
+ * Arguments are stored in wire form so big integers keep every digit.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJsonFile } from '@/lib/data-store';
+import { canEditReducerPreset } from '@/lib/permissions';
+import { stringifyWire } from '@/lib/spacetime/json';
+import type { PortalUser } from '@/types/auth';
+import type { ReducerPreset, ReducerPresetInput } from '@/types/api';
+
+const PRESETS_FILE = 'reducer-presets.json';
+
+const MAX_NAME_LENGTH = 100;
+
+type PresetUser = Pick<PortalUser, 'id' | 'username' | 'role'>;
+
+function isVisible(user: PresetUser, preset: ReducerPreset): boolean {
+  return preset.visibility === 'team' || preset.ownerId === user.id;
+}
+
+/**
+ * Check and normalize user input, throwing an `Error` describing the first problem
+ */
+function validateInput(input: Partial<ReducerPresetInput>): ReducerPresetInput {
+  const reducer = typeof input.reducer === 'string' ? input.reducer.trim() : '';
+  if (!reducer) throw new Error('Reducer is required');
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new Error('Name is required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+
+  if (!Array.isArray(input.args)) throw new Error('Arguments must be a list with one value per parameter');
+
+  if (input.visibility !== 'private' && input.visibility !== 'team') {
+    throw new Error('Visibility must be private or team');
+  }
+
+  return {
+    reducer,
+    name,
+    description: typeof input.description === 'string' ? input.description.trim() : '',
+    args: JSON.parse(stringifyWire(input.args)),
+    visibility: input.visibility,
+  };
+}
+
+/**
+ * Presets the user can see, optionally for one reducer, sorted by name
+ */
+export async function listReducerPresets(user: PresetUser, reducer?: string): Promise<ReducerPreset[]> {
+  const presets = await readJsonFile<ReducerPreset[]>(PRESETS_FILE, []);
+  return presets
+    .filter((preset) => isVisible(user, preset) && (!reducer || preset.reducer === reducer))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A preset by id, or null if it doesn't exist or isn't visible to the user
+ */
+export async function getReducerPreset(user: PresetUser, id: string): Promise<ReducerPreset | null> {
+  const presets = await readJsonFile<ReducerPreset[]>(PRESETS_FILE, []);
+  const preset = presets.find((existing) => existing.id === id);
+  return preset && isVisible(user, preset) ? preset : null;
+}
+
+export async function createReducerPreset(user: PresetUser, input: Partial<ReducerPresetInput>): Promise<ReducerPreset> {
+  const now = new Date().toISOString();
+  const preset: ReducerPreset = {
+    id: randomUUID(),
+    ...validateInput(input),
+    ownerId: user.id,
+    ownerUsername: user.username,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return updateJsonFile<ReducerPreset[], ReducerPreset>(PRESETS_FILE, [], (presets) => ({
+    data: [...presets, preset],
+    result: preset,
+  }));
+}
+
+/**
+ * Apply changes to a preset the user may edit, returning null if it doesn't exist
+ * The reducer a preset belongs to can't change.
+ */
+export async function updateReducerPreset(
+  user: PresetUser,
+  id: string,
+  changes: Partial<Omit<ReducerPresetInput, 'reducer'>>
+): Promise<ReducerPreset | null> {
+  return updateJsonFile<ReducerPreset[], ReducerPreset | null>(PRESETS_FILE, [], (presets) => {
+    const index = presets.findIndex((existing) => existing.id === id);
+    const existing = presets[index];
+    if (!existing || !isVisible(user, existing)) return { data: presets, result: null };
+    if (!canEditReducerPreset(user, existing)) throw new Error('Only the owner or an admin can edit this preset');
+
+    const updated: ReducerPreset = {
+      ...existing,
+      ...validateInput({ ...existing, ...changes, reducer: existing.reducer }),
+      updatedAt: new Date().toISOString(),
+    };
+    presets[index] = updated;
+    return { data: presets, result: updated };
+  });
+}
+
+/**
+ * Remove a preset the user may edit, returning whether it existed
+ */
+export async function deleteReducerPreset(user: PresetUser, id: string): Promise<boolean> {
+  return updateJsonFile<ReducerPreset[], boolean>(PRESETS_FILE, [], (presets) => {
+    const existing = presets.find((preset) => preset.id === id);
+    if (!existing || !isVisible(user, existing)) return { data: presets, result: false };
+    if (!canEditReducerPreset(user, existing)) throw new Error('Only the owner or an admin can delete this preset');
+    return { data: presets.filter((preset) => preset.id !== id), result: true };
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Saved queries
+ * Named SQL kept in the portal data store (server-side only). Private queries
+ * are visible to their owner; team queries to every signed-in user.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJsonFile } from '@/lib/data-store';
+import { canEditSavedQuery } from '@/lib/permissions';
+import type { PortalUser } from '@/types/auth';
+import type { SavedQuery, SavedQueryInput } from '@/types/api';
+
+const QUERIES_FILE = 'saved-queries.json';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TAGS = 10;
+
+type QueryUser = Pick<PortalUser, 'id' | 'username' | 'role'>;
+
+function isVisible(user: QueryUser, query: SavedQuery): boolean {
+  return query.visibility === 'team' || query.ownerId === user.id;
+}
+
+/**
+ * Check and normalize user input, throwing an `Error` describing the first problem
+ */
+function validateInput(input: Partial<SavedQueryInput>): SavedQueryInput {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new Error('Name is required');
+  if (name.length > MAX_NAME_LENGTH) throw new Error(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+
+  const sql = typeof input.sql === 'string' ? input.sql.trim() : '';
+  if (!sql) throw new Error('SQL is required');
+
+  if (input.visibility !== 'private' && input.visibility !== 'team') {
+    throw new Error('Visibility must be private or team');
+  }
+
+  const rawTags = Array.isArray(input.tags) ? input.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  const tags = [...new Set(rawTags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) throw new Error(`At most ${MAX_TAGS} tags are allowed`);
+
+  return {
+    name,
+    description: typeof input.description === 'string' ? input.description.trim() : '',
+    sql,
+    tags,
+    visibility: input.visibility,
+  };
+}
+
+/**
+ * Queries the user can see, sorted by name
+ */
+export async function listSavedQueries(user: QueryUser): Promise<SavedQuery[]> {
+  const queries = await readJsonFile<SavedQuery[]>(QUERIES_FILE, []);
+  return queries.filter((query) => isVisible(user, query)).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A query by id, or null if it doesn't exist or isn't visible to the user
+ */
+export async function getSavedQuery(user: QueryUser, id: string): Promise<SavedQuery | null> {
+  const queries = await readJsonFile<SavedQuery[]>(QUERIES_FILE, []);
+  const query = queries.find((existing) => existing.id === id);
+  return query && isVisible(user, query) ? query : null;
+}
+
+export async function createSavedQuery(user: QueryUser, input: Partial<SavedQueryInput>): Promise<SavedQuery> {
+  const now = new Date().toISOString();
+  const query: SavedQuery = {
+    id: randomUUID(),
+    ...validateInput(input),
+    ownerId: user.id,
+    ownerUsername: user.username,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return updateJsonFile<SavedQuery[], SavedQuery>(QUERIES_FILE, [], (queries) => ({
+    data: [...queries, query],
+    result: query,
+  }));
+}
+
+/**
+ * Apply changes to a query the user may edit, returning null if it doesn't exist
+ */
+export async function updateSavedQuery(
+  user: QueryUser,
+  id: string,
+  changes: Partial<SavedQueryInput>
+): Promise<SavedQuery | null> {
+  return updateJsonFile<SavedQuery[], SavedQuery | null>(QUERIES_FILE, [], (queries) => {
+    const index = queries.findIndex((existing) => existing.id === id);
+    const existing = queries[index];
+    if (!existing || !isVisible(user, existing)) return { data: queries, result: null };
+    if (!canEditSavedQuery(user, existing)) throw new Error('Only the owner or an admin can edit this query');
+
+    const updated: SavedQuery = {
+      ...existing,
+      ...validateInput({ ...existing, ...changes }),
+      updatedAt: new Date().toISOString(),
+    };
+    queries[index] = updated;
+    return { data: queries, result: updated };
+  });
+}
+
+/**
+ * Remove a query the user may edit, returning whether it existed
+ */
+export async function deleteSavedQuery(user: QueryUser, id: string): Promise<boolean> {
+  return updateJsonFile<SavedQuery[], boolean>(QUERIES_FILE, [], (queries) => {
+    const existing = queries.find((query) => query.id === id);
+    if (!existing || !isVisible(user, existing)) return { data: queries, result: false };
+    if (!canEditSavedQuery(user, existing)) throw new Error('Only the owner or an admin can delete this query');
+    return { data: queries.filter((query) => query.id !== id), result: true };
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Admin sessions
+ * The cookie carries a random session id plus an HMAC-SHA256 signature keyed by
+ * BETTER_AUTH_SECRET; the session itself lives in a server-side store so it can
+ * be listed and revoked. Sessions expire after an idle timeout and an absolute
+ * maximum age.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '@/lib/config';
+import { readJsonFile, updateJsonFile } from '@/lib/data-store';
+
+export const SESSION_COOKIE = 'admin-session';
+
+const SESSIONS_FILE = 'sessions.json';
+
+// Minimum gap between lastSeenAt writes for the same session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface Session {
+  id: string;
+  userId: string;
+  username: string;
+  createdAt: number;
+  lastSeenAt: number;
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionInfo extends Session {
+  expiresAt: number;
+  idleExpiresAt: number;
+}
+
+type SessionMap = Record<string, Session>;
+
+function sessionSecret(): string {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('BETTER_AUTH_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function idleTimeoutMs(): number {
+  return config.session.idleTimeoutMinutes * 60 * 1000;
+}
+
+function maxAgeMs(): number {
+  return config.session.maxAgeHours * 60 * 60 * 1000;
+}
+
+function sign(id: string): string {
+  return createHmac('sha256', sessionSecret()).update(id).digest('base64url');
+}
+
+/**
+ * Return the session id from a signed token, or null if the signature doesn't match
+ */
+export function verifySessionToken(token: string): string | null {
+  const [id, signature, ...rest] = token.split('.');
+  if (!id || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return id;
+}
+
+function withExpiry(session: Session): SessionInfo {
+  return {
+    ...session,
+    expiresAt: session.createdAt + maxAgeMs(),
+    idleExpiresAt: session.lastSeenAt + idleTimeoutMs(),
+  };
+}
+
+function isExpired(session: Session, now = Date.now()): boolean {
+  const info = withExpiry(session);
+  return now >= info.expiresAt || now >= info.idleExpiresAt;
+}
+
+function pruneExpired(sessions: SessionMap): SessionMap {
+  const now = Date.now();
+  return Object.fromEntries(Object.entries(sessions).filter(([, s]) => !isExpired(s, now)));
+}
+
+export async function createSession(
+  user: { id: string; username: string },
+  meta: { userAgent?: string; ip?: string } = {}
+): Promise<{ token: string; session: SessionInfo }> {
+  const id = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: Session = {
+    id,
+    userId: user.id,
+    username: user.username,
+    createdAt: now,
+    lastSeenAt: now,
+    ...meta,
+  };
+
+  await updateJsonFile<SessionMap>(SESSIONS_FILE, {}, (sessions) => ({
+    data: { ...pruneExpired(sessions), [id]: session },
+    result: undefined,
+  }));
+
+  return { token: `${id}.${sign(id)}`, session: withExpiry(session) };
+}
+
+/**
+ * Resolve a cookie token to its active session, refreshing the idle timer
+ */
+export async function getSession(token: string | undefined): Promise<SessionInfo | null> {
+  if (!token) return null;
+
+  const id = verifySessionToken(token);
+  if (!id) return null;
+
+  const sessions = await readJsonFile<SessionMap>(SESSIONS_FILE, {});
+  const session = sessions[id];
+  // Sessions created before user accounts existed have no user id
+  if (!session?.userId) return null;
+
+  const now = Date.now();
+  if (isExpired(session, now)) {
+    await revokeSession(id);
+    return null;
+  }
+
+  if (now - session.lastSeenAt < TOUCH_INTERVAL_MS) {
+    return withExpiry(session);
+  }
+
+  const touched = await updateJsonFile<SessionMap, Session | null>(SESSIONS_FILE, {}, (current) => {
+    if (!current[id]) return { data: current, result: null };
+    const updated = { ...current[id], lastSeenAt: now };
+    return { data: { ...current, [id]: updated }, result: updated };
+  });
+  return touched ? withExpiry(touched) : null;
+}
+
+export async function listSessions(username?: string): Promise<SessionInfo[]> {
+  const sessions = pruneExpired(await readJsonFile<SessionMap>(SESSIONS_FILE, {}));
+  return Object.values(sessions)
+    .filter((session) => !username || session.username === username)
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(withExpiry);
+}
+
+export async function revokeSession(id: string): Promise<boolean> {
+  return updateJsonFile<SessionMap, boolean>(SESSIONS_FILE, {}, (sessions) => {
+    if (!sessions[id]) return { data: sessions, result: false };
+    const { [id]: _removed, ...rest } = sessions;
+    return { data: rest, result: true };
+  });
+}
+
+/**
+ * Revoke every session for a user ("log out everywhere"), optionally keeping one
+ */
+export async function revokeUserSessions(username: string, exceptId?: string): Promise<number> {
+  return updateJsonFile<SessionMap, number>(SESSIONS_FILE, {}, (sessions) => {
+    const kept: SessionMap = {};
+    let revoked = 0;
+    for (const [id, session] of Object.entries(pruneExpired(sessions))) {
+      if (session.username === username && id !== exceptId) {
+        revoked++;
+      } else {
+        kept[id] = session;
+      }
+    }
+    return { data: kept, result: revoked };
+  });
+}
+
+export function sessionCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: Math.floor(maxAgeMs() / 1000),
+    path: '/',
+  };
+}
@@ -0,0 +1,355 @@
+/**
+ * Bulk SQL execution
+ * Dry runs parse each statement, check it against the discovered schema and
+ * count the rows it touches with the equivalent SELECT COUNT(*). Transactional runs
+ * snapshot those rows before each statement and, when one fails, undo the
+ * earlier ones with compensating statements in reverse order.
+ *
+ * SpacetimeDB's SQL endpoint has no multi-statement transactions, so this is
+ * best-effort: writes made by others between a statement and its compensation
+ * are not isolated.
+ */
+
+import { httpClient } from './http-client';
+import { schemaDiscovery } from './schema-discovery';
+import { containsRef, decodeStatement, parseColumns } from './sats';
+import { buildInsertStatement, isSqlWritable, quoteIdentifier, rowWhereClause, sqlLiteral } from './sql';
+import { conditionColumns, parseDmlStatement, type DmlStatement } from './sql-parser';
+import type { BulkOperationCheck, BulkOperationResult, TableMetadata } from '@/types/spacetime';
+import type { BulkRequest } from '@/types/api';
+
+type Row = Record<string, unknown>;
+type Operation = BulkRequest['operations'][number];
+
+// Rows read to estimate a dry run's matches when the server can't COUNT(*)
+const DRY_RUN_SCAN_ROWS = 10000;
+
+export interface PlannedOperation {
+  statement: DmlStatement;
+  table: TableMetadata;
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Rows of `table` matching a condition, decoded
+ */
+export async function selectRows(table: TableMetadata, where: string | null): Promise<Row[]> {
+  const sql = `SELECT * FROM ${quoteIdentifier(table.name)}${where ? ` WHERE ${where}` : ''}`;
+  const { results } = await httpClient.sql(sql);
+  if (!results[0]) return [];
+  const typespace = parseColumns(results[0].schema).some((col) => containsRef(col.type))
+    ? await httpClient.getTypespace()
+    : [];
+  return decodeStatement(results[0], typespace, -1).rows;
+}
+
+/**
+ * Parse an operation and check its table and columns against the schema
+ */
+async function checkOperation(
+  operation: Operation,
+  tables: Map<string, Promise<TableMetadata | null>>
+): Promise<{ check: BulkOperationCheck; plan: PlannedOperation | null }> {
+  const check: BulkOperationCheck = { kind: null, table: null, estimatedRows: null, errors: [], warnings: [] };
+
+  if (!operation?.sql || typeof operation.sql !== 'string') {
+    check.errors.push('Invalid SQL statement');
+    return { check, plan: null };
+  }
+
+  let statement: DmlStatement;
+  try {
+    statement = parseDmlStatement(operation.sql);
+  } catch (error) {
+    check.errors.push(message(error));
+    return { check, plan: null };
+  }
+  check.kind = statement.kind;
+  check.table = statement.table;
+
+  if (!tables.has(statement.table)) {
+    tables.set(statement.table, schemaDiscovery.getTable(statement.table).catch(() => null));
+  }
+  const table = await tables.get(statement.table)!;
+  if (!table) {
+    check.errors.push(`Unknown table: ${statement.table}`);
+    return { check, plan: null };
+  }
+
+  const known = new Set(table.columns.map((col) => col.name));
+  const referenced =
+    statement.kind === 'insert'
+      ? statement.columns ?? []
+      : statement.kind === 'update'
+        ? statement.assignments.map((assignment) => assignment.column)
+        : [];
+  const where = statement.kind === 'insert' ? null : statement.where;
+  for (const column of [...referenced, ...(where ? conditionColumns(where) : [])]) {
+    if (!known.has(column)) check.errors.push(`Unknown column: ${table.name}.${column}`);
+  }
+
+  if (statement.kind === 'insert') {
+    const width = statement.columns?.length ?? table.columns.length;
+    statement.rows.forEach((values, index) => {
+      if (values.length !== width) {
+        check.errors.push(`Row ${index + 1} has ${values.length} values for ${width} columns`);
+      }
+    });
+    if (statement.columns) {
+      const missing = table.columns.filter(
+        (col) => !statement.columns!.includes(col.name) && !col.nullable && !col.isAutoIncrement
+      );
+      if (missing.length > 0) {
+        check.warnings.push(`No value for required ${missing.map((col) => col.name).join(', ')}`);
+      }
+    }
+  } else if (!where) {
+    check.warnings.push(`No WHERE clause: every row of ${table.name} is affected`);
+  }
+  if (statement.kind === 'update' && statement.assignments.some((a) => table.primaryKey.includes(a.column))) {
+    check.warnings.push('Changes the primary key');
+  }
+
+  return { check, plan: check.errors.length === 0 ? { statement, table } : null };
+}
+
+/**
+ * Check every operation without executing it
+ */
+export async function dryRunBulk(operations: Operation[]): Promise<NonNullable<BulkOperationResult['dryRunReport']>> {
+  const tables = new Map<string, Promise<TableMetadata | null>>();
+  const checks: BulkOperationCheck[] = [];
+
+  for (const operation of operations) {
+    const { check, plan } = await checkOperation(operation, tables);
+    if (plan) {
+      if (plan.statement.kind === 'insert') {
+        check.estimatedRows = plan.statement.rows.length;
+      } else {
+        try {
+          const { rowCount, lowerBound } = await httpClient.countRows(plan.table.name, plan.statement.where, DRY_RUN_SCAN_ROWS);
+          check.estimatedRows = rowCount;
+          if (lowerBound) {
+            check.estimatedRowsLowerBound = true;
+            check.warnings.push(`Matches at least ${rowCount} rows (not counted further)`);
+          }
+        } catch (error) {
+          check.errors.push(`Condition check failed: ${message(error)}`);
+        }
+      }
+    }
+    checks.push(check);
+  }
+
+  return {
+    totalOperations: operations.length,
+    estimatedAffectedRows: checks.reduce((sum, check) => sum + (check.estimatedRows ?? 0), 0),
+    warnings: checks.flatMap((check, index) =>
+      [...check.errors, ...check.warnings].map((text) => `Operation ${index + 1}: ${text}`)
+    ),
+    valid: checks.every((check) => check.errors.length === 0),
+    operations: checks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Compensation
+// ---------------------------------------------------------------------------
+
+/**
+ * Condition matching the rows one INSERT value list adds
+ * Auto-increment columns given as 0 are assigned by the sequence, so they're left out.
+ */
+function insertedRowCondition(table: TableMetadata, columns: string[], values: string[]): string {
+  return columns
+    .map((name, index) => ({ name, value: values[index] }))
+    .filter(({ name, value }) => !(value === '0' && table.columns.find((col) => col.name === name)?.isAutoIncrement))
+    .map(({ name, value }) =>
+      value.toUpperCase() === 'NULL' ? `${quoteIdentifier(name)} IS NULL` : `${quoteIdentifier(name)} = ${value}`
+    )
+    .join(' AND ');
+}
+
+function rowKey(table: TableMetadata, row: Row): string {
+  return rowWhereClause(table.columns, table.primaryKey, row);
+}
+
+/**
+ * State needed to undo an operation, captured just before it runs
+ */
+async function snapshot(plan: PlannedOperation): Promise<Row[][]> {
+  const { statement, table } = plan;
+  if (statement.kind !== 'insert') {
+    return [await selectRows(table, statement.where)];
+  }
+  const columns = statement.columns ?? table.columns.map((col) => col.name);
+  return Promise.all(statement.rows.map((values) => selectRows(table, insertedRowCondition(table, columns, values))));
+}
+
+/**
+ * Statements that undo a successful operation, given its snapshot
+ * - INSERT: delete rows matching the inserted values that weren't there before
+ * - UPDATE: set the assigned columns back on each updated row
+ * - DELETE: insert the deleted rows again
+ */
+async function compensation(plan: PlannedOperation, before: Row[][]): Promise<string[]> {
+  const { statement, table } = plan;
+  const name = quoteIdentifier(table.name);
+
+  switch (statement.kind) {
+    case 'insert': {
+      const columns = statement.columns ?? table.columns.map((col) => col.name);
+      const statements: string[] = [];
+      for (const [index, values] of statement.rows.entries()) {
+        const existing = new Set(before[index].map((row) => rowKey(table, row)));
+        const after = await selectRows(table, insertedRowCondition(table, columns, values));
+        for (const row of after) {
+          const key = rowKey(table, row);
+          if (!existing.has(key)) statements.push(`DELETE FROM ${name} WHERE ${key}`);
+        }
+      }
+      return statements;
+    }
+
+    case 'update': {
+      const assigned = new Map(statement.assignments.map((a) => [a.column, a.value]));
+      const keyed = table.primaryKey.length > 0 && !table.primaryKey.some((col) => assigned.has(col));
+      return before[0].map((row) => {
+        const restore = statement.assignments
+          .map((a) => {
+            const column = table.columns.find((col) => col.name === a.column)!;
+            return `${quoteIdentifier(a.column)} = ${sqlLiteral(column, row[a.column])}`;
+          })
+          .join(', ');
+        // Without a stable key, the row is found by its values after the update
+        const where = keyed
+          ? rowKey(table, row)
+          : table.columns
+              .filter(isSqlWritable)
+              .map((col) => {
+                const value = assigned.get(col.name);
+                if (value !== undefined) {
+                  return value.toUpperCase() === 'NULL'
+                    ? `${quoteIdentifier(col.name)} IS NULL`
+                    : `${quoteIdentifier(col.name)} = ${value}`;
+                }
+                return row[col.name] === null || row[col.name] === undefined
+                  ? `${quoteIdentifier(col.name)} IS NULL`
+                  : `${quoteIdentifier(col.name)} = ${sqlLiteral(col, row[col.name])}`;
+              })
+              .join(' AND ');
+        return `UPDATE ${name} SET ${restore} WHERE ${where}`;
+      });
+    }
+
+    case 'delete':
+      return before[0].map((row) => buildInsertStatement(table.name, table.columns, row));
+  }
+}
+
+/**
+ * Why an operation can't be undone with SQL, or null
+ */
+function compensationBlocker(plan: PlannedOperation): string | null {
+  const { statement, table } = plan;
+  const unwritable = table.columns.filter((col) => !isSqlWritable(col));
+  const keyColumns = table.primaryKey.length > 0
+    ? table.columns.filter((col) => table.primaryKey.includes(col.name))
+    : table.columns;
+
+  if (statement.kind === 'delete' && unwritable.length > 0) {
+    return `deleted rows can't be re-inserted in SQL (${unwritable.map((col) => col.name).join(', ')})`;
+  }
+  if (statement.kind === 'update') {
+    const restored = statement.assignments.map((a) => table.columns.find((col) => col.name === a.column)!);
+    if (restored.some((col) => !isSqlWritable(col))) return 'assigned columns can\'t be restored in SQL';
+  }
+  if (keyColumns.some((col) => !isSqlWritable(col))) {
+    return `rows of ${table.name} can't be identified in SQL`;
+  }
+  return null;
+}
+
+/**
+ * Plan every operation for a transactional run
+ * Throws an `Error` listing the operations that can't be checked or undone.
+ */
+export async function planTransaction(operations: Operation[]): Promise<PlannedOperation[]> {
+  const tables = new Map<string, Promise<TableMetadata | null>>();
+  const plans: PlannedOperation[] = [];
+  const problems: string[] = [];
+
+  for (const [index, operation] of operations.entries()) {
+    const { check, plan } = await checkOperation(operation, tables);
+    const blocker = plan && compensationBlocker(plan);
+    if (!plan || blocker) {
+      problems.push(`Operation ${index + 1}: ${blocker ?? check.errors.join('; ')}`);
+    } else {
+      plans.push(plan);
+    }
+  }
+
+  if (problems.length > 0) throw new Error(problems.join('\n'));
+  return plans;
+}
+
+/**
+ * Execute planned operations in order, undoing the completed ones if any fails
+ */
+export async function runTransaction(
+  operations: Operation[],
+  plans: PlannedOperation[]
+): Promise<BulkOperationResult> {
+  const results: BulkOperationResult['results'] = [];
+  const undo: string[][] = [];
+  let failure: string | null = null;
+
+  for (const [index, plan] of plans.entries()) {
+    let before: Row[][];
+    try {
+      before = await snapshot(plan);
+    } catch (error) {
+      failure = `Operation ${index + 1}: snapshot failed: ${message(error)}`;
+      results.push({ success: false, affectedRows: 0, error: failure });
+      break;
+    }
+
+    const result = await httpClient.mutate(operations[index].sql);
+    results.push({ success: result.success, affectedRows: result.affectedRows, error: result.error });
+    if (!result.success) {
+      failure = `Operation ${index + 1}: ${result.error ?? 'failed'}`;
+      break;
+    }
+
+    try {
+      undo.push(await compensation(plan, before));
+    } catch (error) {
+      // It ran but can't be undone; stop before anything else depends on it
+      failure = `Operation ${index + 1}: applied, but its undo statements couldn't be prepared: ${message(error)}`;
+      break;
+    }
+  }
+
+  if (!failure) return { results };
+
+  const rollback = { statements: 0, succeeded: 0, errors: [] as string[] };
+  for (let index = undo.length - 1; index >= 0; index--) {
+    let undone = true;
+    for (const sql of undo[index]) {
+      rollback.statements++;
+      const result = await httpClient.mutate(sql);
+      if (result.success) {
+        rollback.succeeded++;
+      } else {
+        undone = false;
+        rollback.errors.push(`Undo operation ${index + 1} (${sql}): ${result.error ?? 'failed'}`);
+      }
+    }
+    results[index].rolledBack = undone;
+  }
+
+  return { results, errors: [failure], rollback };
+}
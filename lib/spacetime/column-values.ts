@@ -0,0 +1,241 @@
+/**
+ * Column value editing
+ * Maps a column's display type (`ColumnMetadata.dataType`) to an input kind and
+ * converts between decoded row values and editable form values.
+ */
+
+import { integerRange, isIntegerKind } from './sats';
+import { parseWire, stringifyWire, toDisplayJson } from './json';
+import type { ColumnMetadata } from '@/types/spacetime';
+
+export type ColumnInputKind =
+  | 'bool'
+  | 'integer'
+  | 'float'
+  | 'string'
+  | 'identity'
+  | 'timestamp'
+  | 'duration'
+  | 'json';
+
+export type EditableColumn = Pick<ColumnMetadata, 'name' | 'dataType' | 'nullable'>;
+
+const SPECIAL_INPUT_KINDS: Record<string, ColumnInputKind> = {
+  Identity: 'identity',
+  ConnectionId: 'identity',
+  Timestamp: 'timestamp',
+  Duration: 'duration',
+};
+
+export function columnInputKind(dataType: string): ColumnInputKind {
+  if (dataType === 'bool') return 'bool';
+  if (dataType === 'string') return 'string';
+  if (dataType === 'f32' || dataType === 'f64') return 'float';
+  if (isIntegerKind(dataType)) return 'integer';
+  return SPECIAL_INPUT_KINDS[dataType] ?? 'json';
+}
+
+/**
+ * Convert a decoded row value into the value an input edits
+ * Booleans stay booleans; everything else becomes a string.
+ */
+export function toInputValue(column: EditableColumn, value: unknown): string | boolean {
+  const kind = columnInputKind(column.dataType);
+
+  if (kind === 'bool') return Boolean(value);
+  if (value === null || value === undefined) return '';
+
+  switch (kind) {
+    case 'timestamp':
+      return microsToLocalDateTime(Number(value));
+    case 'json':
+      return stringifyWire(value, 2);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Parse and validate an input value back into a row value
+ * Throws an `Error` naming the column when the value is invalid.
+ */
+export function fromInputValue(column: EditableColumn, input: string | boolean | null): unknown {
+  const kind = columnInputKind(column.dataType);
+
+  if (input === null) {
+    if (!column.nullable) throw new Error(`${column.name}: value is required`);
+    return null;
+  }
+  if (kind === 'bool') return Boolean(input);
+
+  const text = String(input);
+  if (text.trim() === '' && kind !== 'string') {
+    if (column.nullable) return null;
+    throw new Error(`${column.name}: value is required`);
+  }
+
+  switch (kind) {
+    case 'integer':
+      return parseInteger(column.name, column.dataType, text);
+
+    case 'float': {
+      const num = Number(text);
+      if (!Number.isFinite(num)) throw new Error(`${column.name}: expected a number`);
+      return num;
+    }
+
+    case 'identity': {
+      const hex = text.trim().toLowerCase();
+      if (!/^(0x)?[0-9a-f]+$/.test(hex)) {
+        throw new Error(`${column.name}: expected a hex string`);
+      }
+      return hex.startsWith('0x') ? hex : `0x${hex}`;
+    }
+
+    case 'timestamp': {
+      const ms = new Date(text).getTime();
+      if (isNaN(ms)) throw new Error(`${column.name}: invalid date/time`);
+      return ms * 1000;
+    }
+
+    case 'duration':
+      return Number(parseInteger(column.name, 'i64', text));
+
+    case 'json':
+      try {
+        return parseWire(text);
+      } catch {
+        throw new Error(`${column.name}: invalid JSON`);
+      }
+
+    default:
+      return text;
+  }
+}
+
+/**
+ * Inclusive range hint for an integer column, e.g. "0 to 255"
+ */
+export function integerRangeLabel(dataType: string): string | undefined {
+  if (!isIntegerKind(dataType)) return undefined;
+  const [min, max] = integerRange(dataType);
+  return `${min.toString()} to ${max.toString()}`;
+}
+
+function parseInteger(name: string, kind: string, text: string): number | bigint {
+  const trimmed = text.trim();
+  if (!/^-?\d+$/.test(trimmed)) {
+    throw new Error(`${name}: expected an integer`);
+  }
+
+  const value = BigInt(trimmed);
+  const [min, max] = integerRange(kind);
+  if (value < min || value > max) {
+    throw new Error(`${name}: ${trimmed} is out of range for ${kind} (${min} to ${max})`);
+  }
+
+  const num = Number(value);
+  return Number.isSafeInteger(num) ? num : value;
+}
+
+/**
+ * Format micros since the Unix epoch for a `datetime-local` input (local time)
+ */
+function microsToLocalDateTime(micros: number): string {
+  const date = new Date(micros / 1000);
+  if (isNaN(date.getTime())) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 19);
+}
+
+/**
+ * ISO 8601 form of micros since the Unix epoch, keeping microsecond precision
+ */
+export function formatTimestampMicros(micros: number): string {
+  const whole = Math.round(micros);
+  const ms = Math.floor(whole / 1000);
+  const iso = new Date(ms).toISOString();
+  return `${iso.slice(0, -1)}${String(whole - ms * 1000).padStart(3, '0')}Z`;
+}
+
+/**
+ * Parse a date/time into micros since the Unix epoch, keeping up to microsecond precision
+ * Accepts anything `Date` parses; returns null when it can't be parsed.
+ */
+export function parseTimestampMicros(text: string): number | null {
+  // Fractional seconds are parsed here since `Date` stops at milliseconds
+  const fraction = /(:\d{2})\.(\d+)/.exec(text);
+  const ms = Date.parse(fraction ? text.replace(fraction[0], fraction[1]) : text);
+  if (isNaN(ms)) return null;
+  return ms * 1000 + (fraction ? Number(fraction[2].slice(0, 6).padEnd(6, '0')) : 0);
+}
+
+/**
+ * Render a decoded row value for display in a results grid
+ * Only `Timestamp` columns (by `dataType`) render as dates; integers always render as exact digits.
+ */
+export function formatCellValue(value: unknown, dataType?: string): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+
+  // Timestamps are microseconds since the Unix epoch
+  if (dataType && columnInputKind(dataType) === 'timestamp' && (typeof value === 'number' || typeof value === 'bigint')) {
+    const date = new Date(Number(value) / 1000);
+
+    if (!isNaN(date.getTime())) {
+      // Format as: "Jan 15, 2024, 3:45 PM"
+      return date.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true
+      });
+    }
+  }
+
+  // Handle big integers (u64/i128/u128/u256 beyond the safe double range)
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  // Handle objects
+  if (typeof value === 'object') {
+    return toDisplayJson(value);
+  }
+
+  // Handle booleans
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+
+  return String(value);
+}
+
+/**
+ * Order two decoded row values for sorting
+ * Nulls sort first; numbers and big integers compare numerically, strings
+ * naturally, and anything else by its JSON form.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? -1 : 1;
+
+  const aNumeric = typeof a === 'number' || typeof a === 'bigint';
+  const bNumeric = typeof b === 'number' || typeof b === 'bigint';
+  if (aNumeric && bNumeric) {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    // Mixed number/bigint comparisons are exact in JS
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+
+  return stringifyWire(a).localeCompare(stringifyWire(b));
+}
@@ -0,0 +1,153 @@
+/**
+ * Result export
+ * Formats decoded rows as CSV, JSON, NDJSON or SQL INSERT statements. The export
+ * endpoint streams whole results with it; the browser uses it for selected rows.
+ *
+ * Values keep their types: timestamps are written as ISO 8601 with microseconds,
+ * identities as 0x-prefixed hex, and big integers with every digit (as bare
+ * numbers in JSON, as in SpacetimeDB's own output).
+ */
+
+import { columnInputKind, formatTimestampMicros } from './column-values';
+import { stringifyJsonLossless } from './json';
+import { quoteIdentifier, sqlLiteral } from './sql';
+
+type Row = Record<string, unknown>;
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'sql';
+
+export interface ExportColumn {
+  name: string;
+  // Display type, as in `ColumnMetadata.dataType`
+  type: string;
+  nullable?: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; contentType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', contentType: 'application/json' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', contentType: 'application/x-ndjson' },
+  sql: { label: 'SQL INSERT', extension: 'sql', contentType: 'application/sql; charset=utf-8' },
+};
+
+// Rows encoded per chunk of a streamed export
+const EXPORT_CHUNK_ROWS = 500;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in EXPORT_FORMATS;
+}
+
+/**
+ * A row value in export form: timestamps become ISO strings, everything else stays as decoded
+ */
+export function exportValue(column: ExportColumn, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (columnInputKind(column.type) === 'timestamp') return formatTimestampMicros(Number(value));
+  return value;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? stringifyJsonLossless(value) : String(value);
+  return /[",\n\r]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function exportRecord(columns: ExportColumn[], row: Row): Row {
+  const record: Row = {};
+  for (const column of columns) record[column.name] = exportValue(column, row[column.name]);
+  return record;
+}
+
+export interface RowExporter {
+  header: string;
+  // `index` is the row's position in the export
+  row: (row: Row, index: number) => string;
+  footer: string;
+}
+
+/**
+ * Encoder for one export
+ * SQL exports need the table to insert into, and throw when a column's type has
+ * no SQL literal (structs, enums, arrays) since those rows can only be written by a reducer.
+ */
+export function createExporter(format: ExportFormat, columns: ExportColumn[], tableName?: string | null): RowExporter {
+  switch (format) {
+    case 'csv':
+      return {
+        header: `${columns.map((col) => csvCell(col.name)).join(',')}\n`,
+        row: (row) => `${columns.map((col) => csvCell(exportValue(col, row[col.name]))).join(',')}\n`,
+        footer: '',
+      };
+
+    case 'json':
+      return {
+        header: '[',
+        row: (row, index) => `${index > 0 ? ',' : ''}\n  ${stringifyJsonLossless(exportRecord(columns, row))}`,
+        footer: '\n]\n',
+      };
+
+    case 'ndjson':
+      return {
+        header: '',
+        row: (row) => `${stringifyJsonLossless(exportRecord(columns, row))}\n`,
+        footer: '',
+      };
+
+    case 'sql': {
+      if (!tableName) throw new Error('SQL export needs a table name');
+      const unwritable = columns.find((col) => columnInputKind(col.type) === 'json');
+      if (unwritable) {
+        throw new Error(`${unwritable.name}: ${unwritable.type} values can't be written in SQL; export as JSON or NDJSON instead`);
+      }
+
+      const editable = columns.map((col) => ({ name: col.name, dataType: col.type, nullable: col.nullable ?? true }));
+      const prefix = `INSERT INTO ${quoteIdentifier(tableName)} (${columns.map((col) => quoteIdentifier(col.name)).join(', ')}) VALUES`;
+      return {
+        header: '',
+        row: (row) => `${prefix} (${editable.map((col) => sqlLiteral(col, row[col.name])).join(', ')});\n`,
+        footer: '',
+      };
+    }
+  }
+}
+
+/**
+ * Export rows into a single string
+ */
+export function exportRows(format: ExportFormat, columns: ExportColumn[], rows: Row[], tableName?: string | null): string {
+  const exporter = createExporter(format, columns, tableName);
+  return exporter.header + rows.map((row, index) => exporter.row(row, index)).join('') + exporter.footer;
+}
+
+/**
+ * Stream an export, encoding rows in chunks as the reader pulls
+ */
+export function exportStream(exporter: RowExporter, rows: Row[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (exporter.header) controller.enqueue(encoder.encode(exporter.header));
+    },
+    pull(controller) {
+      if (index >= rows.length) {
+        if (exporter.footer) controller.enqueue(encoder.encode(exporter.footer));
+        controller.close();
+        return;
+      }
+      const chunk = rows.slice(index, index + EXPORT_CHUNK_ROWS);
+      controller.enqueue(encoder.encode(chunk.map((row, offset) => exporter.row(row, index + offset)).join('')));
+      index += chunk.length;
+    },
+  });
+}
+
+/**
+ * Download file name such as `players-2024-01-15T15-45-00-000Z.csv`
+ */
+export function exportFilename(base: string, format: ExportFormat): string {
+  const name = base.replace(/[^A-Za-z0-9_.-]+/g, '_') || 'export';
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${name}-${stamp}.${EXPORT_FORMATS[format].extension}`;
+}
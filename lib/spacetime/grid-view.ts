@@ -0,0 +1,266 @@
+/**
+ * Data grid views
+ * Sorting, per-column filters and search over decoded rows. Shared by the query
+ * route (applied to cached results) and the table page (applied to live data),
+ * and encoded in the table page URL so a view can be shared.
+ *
+ * Filter expressions, one per column:
+ * - `text` — contains (case-insensitive)
+ * - `=value` — equals
+ * - `min..max` — inclusive range; either side may be left empty
+ * - `null` / `!null` — is or isn't null
+ * - `"text"` — contains, taken literally (e.g. `"null"` or `"1..2"`)
+ */
+
+import { columnInputKind, compareValues } from './column-values';
+import { parseOrderBy } from './sql';
+import { stringifyWire } from './json';
+
+export interface GridColumn {
+  name: string;
+  // Display type, as in `ColumnMetadata.dataType`
+  type: string;
+}
+
+export interface GridView {
+  // Sort list such as `score DESC, name`
+  orderBy?: string;
+  // Filter expression per column name
+  filters?: Record<string, string>;
+  // Matched against every column
+  search?: string;
+}
+
+export type ColumnFilter =
+  | { op: 'contains'; text: string }
+  | { op: 'equals'; value: unknown }
+  | { op: 'range'; min?: unknown; max?: unknown }
+  | { op: 'null' | 'notnull' };
+
+const FILTER_PARAM_PREFIX = 'f.';
+
+function normalizeHex(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return value.trim().toLowerCase().replace(/^0x/, '').replace(/^0+(?=.)/, '');
+}
+
+function toNumeric(value: unknown): unknown {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  if (/^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  const num = Number(value);
+  return isNaN(num) ? value : num;
+}
+
+/**
+ * Order two values of a column by its type
+ * Integers (including big integers), timestamps and durations compare numerically,
+ * identities by hex value; other types fall back to `compareValues`.
+ */
+export function compareColumnValues(dataType: string, a: unknown, b: unknown): number {
+  switch (columnInputKind(dataType)) {
+    case 'integer':
+    case 'float':
+    case 'timestamp':
+    case 'duration':
+      return compareValues(toNumeric(a), toNumeric(b));
+
+    case 'identity': {
+      const left = normalizeHex(a);
+      const right = normalizeHex(b);
+      if (typeof left !== 'string' || typeof right !== 'string') return compareValues(left, right);
+      // Shorter hex is smaller once leading zeros are dropped
+      return left.length - right.length || (left < right ? -1 : left > right ? 1 : 0);
+    }
+
+    default:
+      return compareValues(a, b);
+  }
+}
+
+/**
+ * Plain text a value is searched by
+ */
+function searchText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return stringifyWire(value);
+  return String(value);
+}
+
+/**
+ * Parse a filter operand into a value comparable with the column's values
+ */
+function filterValue(column: GridColumn, text: string): unknown {
+  const value = text.trim();
+
+  switch (columnInputKind(column.type)) {
+    case 'integer':
+      if (!/^-?\d+$/.test(value)) throw new Error(`${column.name}: expected an integer, got "${value}"`);
+      return BigInt(value);
+
+    case 'float':
+    case 'duration': {
+      const num = Number(value);
+      if (value === '' || !Number.isFinite(num)) throw new Error(`${column.name}: expected a number, got "${value}"`);
+      return num;
+    }
+
+    case 'timestamp': {
+      // Microseconds since the epoch, or anything `Date` parses
+      if (/^-?\d+$/.test(value)) return Number(value);
+      const ms = new Date(value).getTime();
+      if (isNaN(ms)) throw new Error(`${column.name}: invalid date/time "${value}"`);
+      return ms * 1000;
+    }
+
+    case 'identity':
+      return normalizeHex(value);
+
+    case 'bool':
+      if (value !== 'true' && value !== 'false') throw new Error(`${column.name}: expected true or false`);
+      return value === 'true';
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse a column's filter expression; null when it is empty
+ * Throws an `Error` naming the column when an operand doesn't fit the column type.
+ */
+export function parseColumnFilter(column: GridColumn, expression: string): ColumnFilter | null {
+  const text = expression.trim();
+  if (!text) return null;
+
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return { op: 'contains', text: text.slice(1, -1) };
+  }
+  if (text.toLowerCase() === 'null') return { op: 'null' };
+  if (text.toLowerCase() === '!null') return { op: 'notnull' };
+  if (text.startsWith('=')) return { op: 'equals', value: filterValue(column, text.slice(1)) };
+
+  const range = /^(.*?)\.\.(.*)$/.exec(text);
+  if (range) {
+    const [, min, max] = range;
+    return {
+      op: 'range',
+      min: min.trim() ? filterValue(column, min) : undefined,
+      max: max.trim() ? filterValue(column, max) : undefined,
+    };
+  }
+
+  return { op: 'contains', text };
+}
+
+function matchesFilter(column: GridColumn, filter: ColumnFilter, value: unknown): boolean {
+  const missing = value === null || value === undefined;
+
+  switch (filter.op) {
+    case 'null':
+      return missing;
+    case 'notnull':
+      return !missing;
+    case 'contains':
+      return searchText(value).toLowerCase().includes(filter.text.toLowerCase());
+    case 'equals':
+      if (missing) return false;
+      return columnInputKind(column.type) === 'json'
+        ? searchText(value) === filter.value
+        : compareColumnValues(column.type, value, filter.value) === 0;
+    case 'range':
+      if (missing) return false;
+      return (
+        (filter.min === undefined || compareColumnValues(column.type, value, filter.min) >= 0) &&
+        (filter.max === undefined || compareColumnValues(column.type, value, filter.max) <= 0)
+      );
+  }
+}
+
+function findColumn(columns: GridColumn[], name: string): GridColumn {
+  const column = columns.find((col) => col.name === name);
+  if (!column) throw new Error(`Unknown column: ${name}`);
+  return column;
+}
+
+export function isGridViewEmpty(view: GridView): boolean {
+  return (
+    !view.orderBy?.trim() &&
+    !view.search?.trim() &&
+    !Object.values(view.filters ?? {}).some((expression) => expression.trim())
+  );
+}
+
+/**
+ * Filter, search and sort rows; the input array is left untouched
+ * Throws an `Error` for unknown columns or invalid filter expressions.
+ */
+export function applyGridView<T extends Record<string, unknown>>(
+  rows: T[],
+  columns: GridColumn[],
+  view: GridView
+): T[] {
+  const filters = Object.entries(view.filters ?? {}).flatMap(([name, expression]) => {
+    const column = findColumn(columns, name);
+    const filter = parseColumnFilter(column, expression);
+    return filter ? [{ column, filter }] : [];
+  });
+  const search = view.search?.trim().toLowerCase() ?? '';
+  const sort = parseOrderBy(view.orderBy ?? '').map((term) => ({
+    column: findColumn(columns, term.column),
+    descending: term.descending,
+  }));
+
+  let result = rows;
+  if (filters.length > 0 || search) {
+    result = rows.filter(
+      (row) =>
+        filters.every(({ column, filter }) => matchesFilter(column, filter, row[column.name])) &&
+        (!search || columns.some((col) => searchText(row[col.name]).toLowerCase().includes(search)))
+    );
+  }
+
+  if (sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { column, descending } of sort) {
+        const order = compareColumnValues(column.type, a[column.name], b[column.name]);
+        if (order !== 0) return descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Read a view from URL search params (`order`, `q` and one `f.<column>` per filter)
+ */
+export function gridViewFromParams(params: Record<string, string | string[] | undefined>): GridView {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+  const filters: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    const expression = first(value);
+    if (key.startsWith(FILTER_PARAM_PREFIX) && expression) {
+      filters[key.slice(FILTER_PARAM_PREFIX.length)] = expression;
+    }
+  }
+
+  return {
+    orderBy: first(params.order) || undefined,
+    filters,
+    search: first(params.q) || undefined,
+  };
+}
+
+/**
+ * Encode a view as URL search params, leaving out empty parts
+ */
+export function gridViewToParams(view: GridView): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.orderBy?.trim()) params.set('order', view.orderBy.trim());
+  if (view.search?.trim()) params.set('q', view.search.trim());
+  for (const [column, expression] of Object.entries(view.filters ?? {})) {
+    if (expression.trim()) params.set(`${FILTER_PARAM_PREFIX}${column}`, expression.trim());
+  }
+  return params;
+}
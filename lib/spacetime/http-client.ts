@@ -4,7 +4,11 @@
  */
 
 import { config } from '@/lib/config';
+import { parseJsonLossless } from './json';
+import { decodeRow, formatType, parseColumns, parseTypespace, resolveType } from './sats';
+import { quoteIdentifier, sqlLiteral } from './sql';
 import type { QueryResult, MutationResult } from '@/types/spacetime';
+import type { SatsType, SatsTypespace } from '@/types/sats';
 
 interface HttpRequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -12,6 +16,43 @@ interface HttpRequestOptions {
   headers?: Record<string, string>;
 }
 
+/**
+ * Raw module schema as returned by GET /database/{name}/schema
+ */
+export interface DatabaseSchema {
+  tables: Array<{
+    name: string;
+    product_type_ref: number;
+    primary_key: number[];
+    indexes: any[];
+    constraints: any[];
+    sequences: any[];
+    table_access?: { Public: [] } | { Private: [] };
+  }>;
+  reducers: Array<{
+    name: string;
+    params: {
+      elements: Array<{
+        name: { some: string } | { none: [] };
+        algebraic_type: any;
+      }>;
+    };
+    lifecycle: { some: any } | { none: [] };
+  }>;
+  typespace: {
+    types: any[];
+  };
+}
+
+/**
+ * One statement's result from POST /database/{name}/sql
+ */
+export interface SqlStatementResult {
+  schema: { elements: unknown[] };
+  rows: unknown[][];
+  total_duration_micros?: number;
+}
+
 export class SpacetimeHttpClient {
   private baseUrl: string;
   private moduleName: string;
@@ -46,36 +87,14 @@ export class SpacetimeHttpClient {
       );
     }
 
-    return await response.json();
+    return parseJsonLossless(await response.text()) as T;
   }
 
   /**
    * Get database schema
    * Uses SpacetimeDB's schema endpoint: GET /database/{name}/schema
    */
-  async getDatabaseSchema(): Promise<{
-    tables: Array<{
-      name: string;
-      product_type_ref: number;
-      primary_key: number[];
-      indexes: any[];
-      constraints: any[];
-      sequences: any[];
-    }>;
-    reducers: Array<{
-      name: string;
-      params: {
-        elements: Array<{
-          name: { some: string } | { none: [] };
-          algebraic_type: any;
-        }>;
-      };
-      lifecycle: { some: any } | { none: [] };
-    }>;
-    typespace: {
-      types: any[];
-    };
-  }> {
+  async getDatabaseSchema(): Promise<DatabaseSchema> {
     // Try different approaches to get schema
     const attempts = [
       // Try with configured version
@@ -107,8 +126,9 @@ export class SpacetimeHttpClient {
   /**
    * Execute a SQL mutation (INSERT, UPDATE, DELETE)
    * Uses the SpacetimeDB SQL endpoint: POST /database/{identity}/sql
+   * Parameters must already be bound into `sql` (see ./params).
    */
-  async mutate(sql: string, params?: unknown[]): Promise<MutationResult> {
+  async mutate(sql: string): Promise<MutationResult> {
     try {
       const url = `${this.baseUrl}/${this.moduleName}/sql`;
       
@@ -140,7 +160,7 @@ export class SpacetimeHttpClient {
       }
 
       // SpacetimeDB SQL endpoint returns SATS-JSON result
-      await response.json();
+      parseJsonLossless(await response.text());
 
       return {
         success: true,
@@ -169,16 +189,25 @@ export class SpacetimeHttpClient {
     }
   }
 
+  /**
+   * Get the parsed typespace used to resolve Ref types
+   */
+  async getTypespace(): Promise<SatsTypespace> {
+    const schema = await this.getDatabaseSchema();
+    return parseTypespace(schema.typespace);
+  }
+
   /**
    * Get table schema information
    */
-  async getTableSchema(tableName: string): Promise<{
+  async getTableSchema(tableName: string, databaseSchema?: DatabaseSchema): Promise<{
     name: string;
     type: string;
     nullable: boolean;
+    algebraicType: SatsType;
   }[]> {
     try {
-      const schema = await this.getDatabaseSchema();
+      const schema = databaseSchema || await this.getDatabaseSchema();
       const table = schema.tables.find((t) => t.name === tableName);
       
       if (!table) {
@@ -186,17 +215,25 @@ export class SpacetimeHttpClient {
       }
 
       // Get the product type for this table
-      const productType = schema.typespace.types[table.product_type_ref];
+      const typespace = parseTypespace(schema.typespace);
+      const productType = typespace[table.product_type_ref];
       
-      if (!productType || !productType.Product || !productType.Product.elements) {
+      if (!productType || productType.kind !== 'product') {
         throw new Error(`Could not find product type for table ${tableName}`);
       }
 
-      return productType.Product.elements.map((col: any) => ({
-        name: col.name?.some || 'unknown',
-        type: this.formatAlgebraicType(col.algebraic_type),
-        nullable: true, // TODO: Parse algebraic_type for Option<T>
-      }));
+      return productType.elements.map((col) => {
+        // Option<T> columns are nullable and reported by their inner type
+        const resolved = resolveType(col.type, typespace);
+        const isOption = resolved.kind === 'option';
+
+        return {
+          name: col.name || 'unknown',
+          type: formatType(isOption ? resolved.inner : col.type, typespace),
+          nullable: isOption,
+          algebraicType: col.type,
+        };
+      });
     } catch (error) {
       console.error(`[HTTP Client] Failed to get schema for ${tableName}:`, error);
       throw error;
@@ -204,72 +241,140 @@ export class SpacetimeHttpClient {
   }
 
   /**
-   * Format SpacetimeDB algebraic type to readable string
+   * Execute a SQL statement and return the parsed statement results
+   * Integers are parsed losslessly; `bytes` is the size of the raw SATS-JSON payload
    */
-  private formatAlgebraicType(algType: any): string {
-    if (!algType) return 'unknown';
-    
-    // Handle primitive types directly in the object
-    if (algType.U8 !== undefined) return 'u8';
-    if (algType.U16 !== undefined) return 'u16';
-    if (algType.U32 !== undefined) return 'u32';
-    if (algType.U64 !== undefined) return 'u64';
-    if (algType.U128 !== undefined) return 'u128';
-    if (algType.I8 !== undefined) return 'i8';
-    if (algType.I16 !== undefined) return 'i16';
-    if (algType.I32 !== undefined) return 'i32';
-    if (algType.I64 !== undefined) return 'i64';
-    if (algType.I128 !== undefined) return 'i128';
-    if (algType.F32 !== undefined) return 'f32';
-    if (algType.F64 !== undefined) return 'f64';
-    if (algType.Bool !== undefined) return 'bool';
-    if (algType.String !== undefined) return 'string';
-    if (algType.U256 !== undefined) return 'u256';
-    
-    // Handle Product types (structs/tuples) - common for timestamps
-    if (algType.Product && algType.Product.elements) {
-      const elements = algType.Product.elements;
-      
-      // Check for SpacetimeDB built-in types
-      if (elements.length === 1) {
-        const elem = elements[0];
-        if (elem.name?.some === '__timestamp_micros_since_unix_epoch__') {
-          return 'Timestamp';
-        }
-        if (elem.name?.some === '__identity__') {
-          return 'Identity';
-        }
-        if (elem.name?.some === '__time_duration_micros__') {
-          return 'Duration';
-        }
-      }
-      
-      return 'struct';
+  async sql(query: string): Promise<{ results: SqlStatementResult[]; bytes: number }> {
+    const url = `${this.baseUrl}/${this.moduleName}/sql`;
+
+    const authToken = process.env.SPACETIME_AUTH_TOKEN;
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/plain',
+    };
+
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: query,
+    });
+
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw new Error(
+        `SpacetimeDB SQL request failed: ${response.status} ${response.statusText} - ${text}`
+      );
     }
-    
-    // Handle Sum types (enums)
-    if (algType.Sum) {
-      return 'enum';
+
+    const results = parseJsonLossless(text);
+    return {
+      results: Array.isArray(results) ? (results as SqlStatementResult[]) : [],
+      bytes: new TextEncoder().encode(text).length,
+    };
+  }
+
+  /**
+   * COUNT(*) of a FROM clause, or null when the server can't run the aggregate
+   */
+  private async tryCount(from: string): Promise<number | null> {
+    try {
+      const { results } = await this.sql(`SELECT COUNT(*) AS row_count ${from}`);
+      const value = results[0]?.rows?.[0]?.[0];
+      return value === undefined || value === null ? null : Number(value);
+    } catch {
+      // Aggregates are not supported by every SpacetimeDB version
+      return null;
     }
-    
-    // Handle Ref types (references to other types)
-    if (algType.Ref !== undefined) {
-      return `ref(${algType.Ref})`;
+  }
+
+  /**
+   * Number of rows of a table matching `where` (all rows when null)
+   * Uses COUNT(*) where the server supports it and otherwise reads at most
+   * `scanLimit` rows, in which case a full read makes the count a lower bound.
+   */
+  async countRows(tableName: string, where: string | null, scanLimit: number): Promise<{
+    rowCount: number;
+    lowerBound: boolean;
+  }> {
+    const from = `FROM ${quoteIdentifier(tableName)}${where ? ` WHERE ${where}` : ''}`;
+    const counted = await this.tryCount(from);
+    if (counted !== null) return { rowCount: counted, lowerBound: false };
+
+    const { results } = await this.sql(`SELECT * ${from} LIMIT ${scanLimit}`);
+    const rowCount = results[0]?.rows?.length ?? 0;
+    return { rowCount, lowerBound: rowCount >= scanLimit };
+  }
+
+  /**
+   * Get table row count and approximate payload size
+   * Uses COUNT(*) where the server supports it; the size is extrapolated from the
+   * payload of at most `sampleRows` rows. Without COUNT(*) the sample is the count,
+   * and a full sample makes it a lower bound (`lowerBound`) with no size.
+   */
+  async getTableStats(tableName: string, sampleRows: number): Promise<{
+    rowCount: number;
+    lowerBound?: boolean;
+    approxBytes?: number;
+    method: 'count' | 'scan';
+  }> {
+    const from = `FROM ${quoteIdentifier(tableName)}`;
+    const rowCount = await this.tryCount(from);
+
+    const { results, bytes } = await this.sql(`SELECT * ${from} LIMIT ${sampleRows}`);
+    const sampled = results[0]?.rows?.length ?? 0;
+
+    if (rowCount === null) {
+      return sampled < sampleRows
+        ? { rowCount: sampled, approxBytes: bytes, method: 'scan' }
+        : { rowCount: sampled, lowerBound: true, method: 'scan' };
     }
-    
-    // Fallback
-    return 'complex';
+
+    return {
+      rowCount,
+      approxBytes: sampled >= rowCount ? bytes : sampled > 0 ? Math.round((bytes / sampled) * rowCount) : undefined,
+      method: 'count',
+    };
   }
 
   /**
-   * Get table row count
-   * Note: This would require a SELECT COUNT(*) query which needs the /sql endpoint
-   * For now, return 0 as row count isn't critical for schema discovery
+   * required_role for a reducer from the module's reducer_metadata table
+   * Returns null when the module has no reducer_metadata table or no row for the reducer.
    */
-  async getTableRowCount(tableName: string): Promise<number> {
-    // TODO: Implement using /sql endpoint if row counts are needed
-    // For now, return 0 since row count isn't used in the UI
-    return 0;
+  async getReducerRequiredRole(reducerName: string, databaseSchema?: DatabaseSchema): Promise<string | null> {
+    const schema = databaseSchema ?? (await this.getDatabaseSchema());
+    if (!schema.tables.some((table) => table.name === 'reducer_metadata')) {
+      return null;
+    }
+
+    const reducerNameColumn = { name: 'reducer_name', dataType: 'string', nullable: false };
+    const { results } = await this.sql(
+      `SELECT * FROM reducer_metadata WHERE reducer_name = ${sqlLiteral(reducerNameColumn, reducerName)}`
+    );
+    const result = results[0];
+    if (!result?.rows?.length) return null;
+
+    const row = decodeRow(parseColumns(result.schema), result.rows[0], parseTypespace(schema.typespace));
+    return typeof row.required_role === 'string' ? row.required_role : null;
+  }
+
+  /**
+   * Hex identity the portal calls reducers as, from the `hex_identity` claim of
+   * SPACETIME_AUTH_TOKEN; null without a token or when it can't be decoded
+   */
+  getCallerIdentity(): string | null {
+    const payload = process.env.SPACETIME_AUTH_TOKEN?.split('.')[1];
+    if (!payload) return null;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return typeof claims.hex_identity === 'string' ? claims.hex_identity : null;
+    } catch {
+      return null;
+    }
   }
 }
 
@@ -0,0 +1,285 @@
+/**
+ * Row import
+ * Parses CSV, JSON and NDJSON files and coerces their values to a table's column
+ * types. Files exported by the portal (./export) import unchanged: ISO timestamps
+ * keep their microseconds and big integers every digit.
+ */
+
+import { columnInputKind, fromInputValue, parseTimestampMicros } from './column-values';
+import { exportRows } from './export';
+import { parseJsonLossless } from './json';
+import { columnSchema } from './zod-schema';
+import type { ColumnMetadata } from '@/types/spacetime';
+
+type Row = Record<string, unknown>;
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson';
+
+export interface ImportFile {
+  format: ImportFormat;
+  // Field names in file order
+  fields: string[];
+  records: Row[];
+}
+
+// File field feeding each table column; unmapped columns are left out
+export type ImportMapping = Record<string, string | undefined>;
+
+export interface ImportRow {
+  // Record number in the file, starting at 1
+  line: number;
+  record: Row;
+  values: Row;
+}
+
+export interface ImportRejection {
+  line: number;
+  record: Row;
+  error: string;
+}
+
+/**
+ * Guess a file's format from its name, then its first character
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+  if (extension === 'csv') return 'csv';
+
+  const first = text.trimStart()[0];
+  return first === '[' ? 'json' : first === '{' ? 'ndjson' : 'csv';
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; pos < text.length; pos++) {
+    const ch = text[pos];
+    if (quoted) {
+      if (ch === '"' && text[pos + 1] === '"') {
+        cell += '"';
+        pos++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[pos + 1] === '\n') pos++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (quoted) throw new Error('Unterminated quoted cell');
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function jsonRecord(value: unknown, where: string): Row {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${where}: expected an object`);
+  }
+  return value as Row;
+}
+
+/**
+ * Parse an import file into records keyed by field name
+ * CSV values stay strings (the first row names the fields); JSON values keep their types.
+ */
+export function parseImportFile(text: string, format: ImportFormat): ImportFile {
+  let fields: string[];
+  let records: Row[];
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('File is empty');
+    fields = header.map((field) => field.trim());
+    records = rows
+      .filter((row) => row.length > 1 || row[0] !== '')
+      .map((row) => Object.fromEntries(fields.map((field, index) => [field, row[index]])));
+  } else {
+    if (format === 'json') {
+      const value = parseJsonLossless(text);
+      if (!Array.isArray(value)) throw new Error('Expected a JSON array of objects');
+      records = value.map((item, index) => jsonRecord(item, `Record ${index + 1}`));
+    } else {
+      records = text
+        .split(/\r?\n/)
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => line.trim())
+        .map(({ line, index }) => {
+          try {
+            return jsonRecord(parseJsonLossless(line), `Line ${index + 1}`);
+          } catch (error) {
+            throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+    }
+    fields = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  }
+
+  return { format, fields, records };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map each column to the field with the same name, ignoring case, `_` and `-`
+ */
+export function autoMapColumns(columns: Pick<ColumnMetadata, 'name'>[], fields: string[]): ImportMapping {
+  return Object.fromEntries(
+    columns.map((column) => [
+      column.name,
+      fields.find((field) => field === column.name) ??
+        fields.find((field) => normalizeName(field) === normalizeName(column.name)),
+    ])
+  );
+}
+
+/**
+ * Required columns with no field mapped to them
+ * Auto-increment and nullable columns can be left out.
+ */
+export function unmappedRequiredColumns(columns: ColumnMetadata[], mapping: ImportMapping): ColumnMetadata[] {
+  return columns.filter((col) => !mapping[col.name] && !col.nullable && !col.isAutoIncrement);
+}
+
+/**
+ * Coerce one file value to a column's row value
+ * `fromText` marks CSV values, where an empty cell means null except in non-nullable
+ * string columns. Throws an `Error` naming the column when the value doesn't fit.
+ */
+export function coerceImportValue(column: ColumnMetadata, raw: unknown, fromText: boolean): unknown {
+  const kind = columnInputKind(column.dataType);
+  const empty = raw === null || raw === undefined || (fromText && raw === '');
+
+  let value: unknown;
+  if (empty) {
+    if (fromText && raw === '' && kind === 'string' && !column.nullable) return '';
+    if (!column.nullable) throw new Error(`${column.name}: value is required`);
+    return null;
+  }
+
+  switch (kind) {
+    case 'bool':
+      if (typeof raw === 'boolean') value = raw;
+      else if (/^(true|t|yes|y|1)$/i.test(String(raw).trim())) value = true;
+      else if (/^(false|f|no|n|0)$/i.test(String(raw).trim())) value = false;
+      else throw new Error(`${column.name}: expected true or false, got "${String(raw)}"`);
+      break;
+
+    case 'timestamp': {
+      const text = String(raw).trim();
+      // Micros since the epoch, as SpacetimeDB stores them, or a date/time
+      const micros = /^-?\d+$/.test(text) ? Number(text) : parseTimestampMicros(text);
+      if (micros === null) throw new Error(`${column.name}: invalid date/time "${text}"`);
+      value = micros;
+      break;
+    }
+
+    case 'string':
+      if (typeof raw === 'object') throw new Error(`${column.name}: expected a string`);
+      value = String(raw);
+      break;
+
+    case 'json':
+      if (typeof raw !== 'string') {
+        value = raw;
+        break;
+      }
+      try {
+        value = parseJsonLossless(raw);
+      } catch {
+        throw new Error(`${column.name}: invalid JSON`);
+      }
+      break;
+
+    default:
+      if (typeof raw === 'object') throw new Error(`${column.name}: expected a ${column.dataType} value`);
+      value = fromInputValue(column, String(raw));
+  }
+
+  const result = columnSchema(column).safeParse(value);
+  if (!result.success) {
+    throw new Error(`${column.name}: ${result.error.issues[0]?.message ?? 'invalid value'}`);
+  }
+  return value;
+}
+
+/**
+ * Coerce every record, splitting them into rows ready to insert and rejections
+ * Empty auto-increment values are left out so the sequence assigns them.
+ */
+export function prepareImport(
+  file: ImportFile,
+  mapping: ImportMapping,
+  columns: ColumnMetadata[]
+): { rows: ImportRow[]; rejected: ImportRejection[] } {
+  const fromText = file.format === 'csv';
+  const rows: ImportRow[] = [];
+  const rejected: ImportRejection[] = [];
+
+  file.records.forEach((record, index) => {
+    const values: Row = {};
+    const errors: string[] = [];
+
+    for (const column of columns) {
+      const field = mapping[column.name];
+      const raw = field ? record[field] : undefined;
+      const missing = raw === undefined || raw === null || (fromText && raw === '');
+      if (column.isAutoIncrement && missing) continue;
+
+      try {
+        values[column.name] = coerceImportValue(column, raw, fromText);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ line: index + 1, record, error: errors.join('; ') });
+    } else {
+      rows.push({ line: index + 1, record, values });
+    }
+  });
+
+  return { rows, rejected };
+}
+
+/**
+ * CSV report of rejected records: record number, reason, then the record's original fields
+ */
+export function rejectionReport(fields: string[], rejected: ImportRejection[]): string {
+  const columns = [
+    { name: '_line', type: 'u32' },
+    { name: '_error', type: 'string' },
+    ...fields.map((name) => ({ name, type: 'string' })),
+  ];
+  const rows = [...rejected]
+    .sort((a, b) => a.line - b.line)
+    .map((item) => ({ ...item.record, _line: item.line, _error: item.error }));
+  return exportRows('csv', columns, rows);
+}
@@ -0,0 +1,246 @@
+/**
+ * Big-int-safe JSON handling
+ *
+ * SpacetimeDB emits u64/i128/u128/u256 values as bare JSON numbers, which
+ * `JSON.parse` silently rounds to doubles. Upstream bodies are parsed with
+ * `parseJsonLossless` (unsafe integers become `bigint`), and values cross the
+ * API boundary to the browser in a string-tagged wire form: `{ "$bigint": "123" }`.
+ */
+
+const BIGINT_TAG = '$bigint';
+
+export interface WireBigInt {
+  [BIGINT_TAG]: string;
+}
+
+// ---------------------------------------------------------------------------
+// Upstream (raw SATS-JSON) parse/stringify
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse JSON, keeping integers outside the safe double range as `bigint`
+ */
+export function parseJsonLossless(text: string): unknown {
+  let pos = 0;
+
+  const error = (message: string): never => {
+    throw new SyntaxError(`${message} in JSON at position ${pos}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\\') pos++;
+      pos++;
+    }
+    if (pos >= text.length) error('Unterminated string');
+    pos++; // closing quote
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const parseNumber = (): number | bigint => {
+    const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(pos, pos + 400));
+    if (!match) return error('Unexpected token');
+    pos += match[0].length;
+    const literal = match[0];
+    const num = Number(literal);
+    if (!match[1] && !match[2] && !Number.isSafeInteger(num)) {
+      return BigInt(literal);
+    }
+    return num;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const ch = text[pos];
+
+    if (ch === '{') {
+      pos++;
+      const obj: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return obj;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') error('Expected property name');
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') error("Expected ':'");
+        pos++;
+        obj[key] = parseValue();
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === '}') {
+          pos++;
+          return obj;
+        }
+        error("Expected ',' or '}'");
+      }
+    }
+
+    if (ch === '[') {
+      pos++;
+      const arr: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return arr;
+      }
+      for (;;) {
+        arr.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] === ']') {
+          pos++;
+          return arr;
+        }
+        error("Expected ',' or ']'");
+      }
+    }
+
+    if (ch === '"') return parseString();
+    if (text.startsWith('true', pos)) {
+      pos += 4;
+      return true;
+    }
+    if (text.startsWith('false', pos)) {
+      pos += 5;
+      return false;
+    }
+    if (text.startsWith('null', pos)) {
+      pos += 4;
+      return null;
+    }
+    return parseNumber();
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (pos < text.length) error('Unexpected token');
+  return value;
+}
+
+/**
+ * Stringify JSON, writing `bigint` values as bare JSON numbers
+ */
+export function stringifyJsonLossless(value: unknown): string {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : stringifyJsonLossless(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${JSON.stringify(k)}:${stringifyJsonLossless(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// ---------------------------------------------------------------------------
+// Browser wire format
+// ---------------------------------------------------------------------------
+
+export function isWireBigInt(value: unknown): value is WireBigInt {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Object.keys(value).length === 1 &&
+    typeof (value as Record<string, unknown>)[BIGINT_TAG] === 'string'
+  );
+}
+
+/**
+ * Stringify for the API boundary, tagging `bigint` values
+ */
+export function stringifyWire(value: unknown, space?: number): string {
+  return JSON.stringify(
+    value,
+    (_key, val) => (typeof val === 'bigint' ? { [BIGINT_TAG]: val.toString() } : val),
+    space
+  );
+}
+
+/**
+ * Parse an API body, reviving tagged values into `bigint`
+ */
+export function parseWire<T = unknown>(text: string): T {
+  return JSON.parse(text, (_key, val) => (isWireBigInt(val) ? BigInt(val[BIGINT_TAG]) : val));
+}
+
+/**
+ * Read a fetch response body in wire format
+ */
+export async function readWireJson<T = any>(response: Response): Promise<T> {
+  return parseWire<T>(await response.text());
+}
+
+/**
+ * Build a JSON response whose `bigint` values survive serialization
+ */
+export function wireResponse(body: unknown, init?: ResponseInit): Response {
+  return new Response(stringifyWire(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+}
+
+/**
+ * JSON for display (pretty-printed result panes, cell previews);
+ * big integers are shown as plain digits
+ */
+export function toDisplayJson(value: unknown, space?: number): string {
+  const placeholder = '\u0000bigint:';
+  const json = JSON.stringify(
+    value,
+    (_key, val) => (typeof val === 'bigint' ? `${placeholder}${val.toString()}` : val),
+    space
+  );
+  return (json ?? String(value)).replace(/"\\u0000bigint:(-?\d+)"/g, '$1');
+}
+
+// Rows encoded per chunk of a streamed response
+const NDJSON_CHUNK_ROWS = 500;
+
+/**
+ * Build a streamed NDJSON response: a header line, then one line per row
+ * Rows are encoded in chunks as the client reads, so large results aren't
+ * serialized into a single string.
+ */
+export function wireNdjsonResponse(header: unknown, rows: unknown[], init?: ResponseInit): Response {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${stringifyWire(header)}\n`));
+    },
+    pull(controller) {
+      if (index >= rows.length) {
+        controller.close();
+        return;
+      }
+      const chunk = rows.slice(index, index + NDJSON_CHUNK_ROWS);
+      index += chunk.length;
+      controller.enqueue(encoder.encode(chunk.map((row) => `${stringifyWire(row)}\n`).join('')));
+    },
+  });
+
+  return new Response(stream, {
+    ...init,
+    headers: { 'Content-Type': 'application/x-ndjson', ...init?.headers },
+  });
+}
@@ -0,0 +1,275 @@
+/**
+ * SQL parameter binding
+ * SpacetimeDB's SQL endpoint takes no parameters, so `$1` and `:name` placeholders
+ * are replaced with literals before a statement is sent. A placeholder compared
+ * with, assigned to or inserted into a column is rendered for that column's type
+ * and rejected when the value doesn't fit it; any other placeholder is rendered
+ * from the value's JSON type.
+ */
+
+import { schemaDiscovery } from './schema-discovery';
+import { columnInputKind, parseTimestampMicros } from './column-values';
+import { sqlLiteral } from './sql';
+import { parseDmlStatement, parseSql, tokenizeSql, type SqlToken } from './sql-parser';
+import { columnSchema } from './zod-schema';
+import type { ColumnMetadata } from '@/types/spacetime';
+import type { SqlParams } from '@/types/api';
+
+const COMPARISONS = new Set(['=', '!=', '<>', '<=', '>=', '<', '>']);
+const LITERALS = new Set(['placeholder', 'string', 'number']);
+const EQUALITY = new Set(['=', '!=', '<>']);
+
+/**
+ * Columns of a table a statement reads or writes, and the names (table name and
+ * aliases) that qualify its columns there
+ */
+export interface ParamSource {
+  names: string[];
+  columns: ColumnMetadata[];
+}
+
+// Column reference, with its qualifier when written as `t.col`
+interface ColumnRef {
+  table?: string;
+  name: string;
+}
+
+// Array index for `$n`, property name for `:name`
+function placeholderKey(token: SqlToken): number | string {
+  return token.text.startsWith('$') ? Number(token.text.slice(1)) - 1 : token.text.slice(1);
+}
+
+function isComparison(token: SqlToken | undefined): boolean {
+  return (token?.kind === 'operator' && COMPARISONS.has(token.text)) || (token?.kind === 'keyword' && ['like', 'in'].includes(token.value));
+}
+
+/**
+ * Column compared with the placeholder at `index`: `col = $1`, `t.col NOT LIKE $1`,
+ * `col IN (1, $1)` or `$1 = t.col`
+ */
+function comparedColumn(tokens: SqlToken[], index: number): ColumnRef | undefined {
+  let at = index - 1;
+  // Step back over the rest of an IN list to its keyword
+  if (tokens[at]?.text === ',' || tokens[at]?.text === '(') {
+    while (at >= 0 && tokens[at].text !== '(') {
+      if (tokens[at].text !== ',' && !LITERALS.has(tokens[at].kind)) return undefined;
+      at--;
+    }
+    at--;
+  }
+  if (isComparison(tokens[at])) {
+    at -= tokens[at - 1]?.kind === 'keyword' && tokens[at - 1].value === 'not' ? 2 : 1;
+    if (tokens[at]?.kind === 'identifier') {
+      const qualified = tokens[at - 1]?.text === '.' && tokens[at - 2]?.kind === 'identifier';
+      return { table: qualified ? tokens[at - 2].value : undefined, name: tokens[at].value };
+    }
+  }
+
+  const operator = tokens[index + 1];
+  if (operator?.kind !== 'operator' || !COMPARISONS.has(operator.text)) return undefined;
+  const qualified = tokens[index + 3]?.text === '.';
+  const [column, following] = tokens.slice(index + (qualified ? 4 : 2));
+  if (column?.kind === 'identifier' && following?.text !== '.' && following?.text !== '(') {
+    return { table: qualified ? tokens[index + 2].value : undefined, name: column.value };
+  }
+  return undefined;
+}
+
+/**
+ * Column a reference names among `sources`; a qualifier picks the table, and an
+ * unqualified name found in more than one table is rejected as ambiguous
+ */
+function resolveColumn(ref: ColumnRef | undefined, sources: ParamSource[], label: string): ColumnMetadata | undefined {
+  if (!ref) return undefined;
+  if (ref.table !== undefined) {
+    return sources.find((source) => source.names.includes(ref.table!))?.columns.find((col) => col.name === ref.name);
+  }
+
+  const matches = sources.flatMap((source) => source.columns.filter((col) => col.name === ref.name));
+  if (matches.length > 1) {
+    throw new Error(`${label}: column ${ref.name} is ambiguous; qualify it with its table or alias`);
+  }
+  return matches[0];
+}
+
+/**
+ * Column each placeholder stands for: one compared with it, assigned it by
+ * `SET col = $1`, or given it as an INSERT value
+ */
+function placeholderColumns(sql: string, tokens: SqlToken[], placeholders: number[], sources: ParamSource[]): (ColumnMetadata | undefined)[] {
+  // INSERT values are matched to the column list by position
+  const inserted = new Map<string, string>();
+  if (tokens[0]?.kind === 'keyword' && tokens[0].value === 'insert') {
+    try {
+      const statement = parseDmlStatement(sql);
+      if (statement.kind === 'insert') {
+        const names = statement.columns ?? sources[0]?.columns.map((col) => col.name) ?? [];
+        for (const row of statement.rows) {
+          row.forEach((value, index) => {
+            if (names[index] !== undefined && !inserted.has(value)) inserted.set(value, names[index]);
+          });
+        }
+      }
+    } catch {
+      // Left untyped; SpacetimeDB reports the syntax error
+    }
+  }
+
+  return placeholders.map((index) => {
+    const label = tokens[index].text;
+    const name = inserted.get(label);
+    return (name === undefined ? undefined : resolveColumn({ name }, sources, label)) ?? resolveColumn(comparedColumn(tokens, index), sources, label);
+  });
+}
+
+/**
+ * Index range of an UPDATE's `SET` assignments, whose `col = $1` assigns rather than compares
+ */
+function assignmentRange(tokens: SqlToken[]): [number, number] | null {
+  if (tokens[0]?.kind !== 'keyword' || tokens[0].value !== 'update') return null;
+  const setAt = tokens.findIndex((token) => token.kind === 'keyword' && token.value === 'set');
+  if (setAt === -1) return null;
+  const whereAt = tokens.findIndex((token, index) => index > setAt && token.kind === 'keyword' && token.value === 'where');
+  return [setAt, whereAt === -1 ? tokens.length : whereAt];
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(String(value))}`;
+}
+
+/**
+ * Literal for a value bound to a column; throws when the value doesn't fit its type
+ * Timestamps may be given as micros since the epoch or as a date/time string.
+ */
+export function typedLiteral(column: ColumnMetadata, value: unknown, label: string): string {
+  let typed = value;
+  if (columnInputKind(column.dataType) === 'timestamp' && typeof value === 'string') {
+    const micros = parseTimestampMicros(value);
+    if (micros === null) throw new Error(`${label} (${column.name}): invalid date/time "${value}"`);
+    typed = micros;
+  }
+
+  const result = columnSchema(column).safeParse(typed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const reason = !issue || issue.code === 'invalid_type' || issue.code === 'invalid_union'
+      ? `expected ${column.dataType}${column.nullable ? ' or null' : ''}, got ${describeValue(value)}`
+      : issue.message;
+    throw new Error(`${label} (${column.name}): ${reason}`);
+  }
+
+  try {
+    return sqlLiteral(column, typed);
+  } catch (error) {
+    throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Literal for a value with no known column, from its JSON type
+ */
+export function plainLiteral(value: unknown, label: string): string {
+  if (value === null) return 'NULL';
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'bigint':
+      return String(value);
+    case 'number':
+      if (!Number.isFinite(value)) throw new Error(`${label}: ${value} is not a finite number`);
+      return String(value);
+    case 'string':
+      return sqlLiteral({ name: label, dataType: 'string', nullable: false }, value);
+    default:
+      throw new Error(`${label}: can't bind ${describeValue(value)}; only scalars have SQL literals`);
+  }
+}
+
+/**
+ * Replace the placeholders in `sql` with literals for `params`
+ * `params` is an array for `$1`, `$2`, … or an object for `:name`. Values for
+ * placeholders tied to a column of one of `sources` are checked against its type;
+ * `t.col` picks the table by name or alias. A null
+ * compared with `col = $1` or `col <> $1` becomes `col IS [NOT] NULL`, since a
+ * comparison with NULL never matches. Throws an `Error` for a missing, unused or
+ * mismatched value.
+ */
+export function bindParams(sql: string, params: SqlParams, sources: ParamSource[] = []): string {
+  const positional = Array.isArray(params);
+  const tokens = tokenizeSql(sql);
+  const placeholders = tokens.flatMap((token, index) => (token.kind === 'placeholder' ? [index] : []));
+  const stray = placeholders.map((index) => tokens[index]).find((token) => token.text.startsWith('$') !== positional);
+  if (stray) {
+    throw new Error(`${stray.text}: ${positional ? 'named placeholders need params given as an object' : 'positional placeholders need params given as an array'}`);
+  }
+
+  const values = params as Record<string | number, unknown>;
+  const used = new Set(placeholders.map((index) => placeholderKey(tokens[index])));
+  for (const key of Object.keys(params)) {
+    const label = positional ? `$${Number(key) + 1}` : `:${key}`;
+    if (!used.has(positional ? Number(key) : key)) throw new Error(`${label} is not used in the statement`);
+  }
+
+  const targets = placeholderColumns(sql, tokens, placeholders, sources);
+  const assignments = assignmentRange(tokens);
+  let bound = sql;
+  for (let i = placeholders.length - 1; i >= 0; i--) {
+    const placeholder = tokens[placeholders[i]];
+    const key = placeholderKey(placeholder);
+    const value = values[key];
+    if (!Object.prototype.hasOwnProperty.call(values, key) || value === undefined) {
+      throw new Error(`No value for ${placeholder.text}`);
+    }
+
+    const index = placeholders[i];
+    const assigned = !!assignments && index > assignments[0] && index < assignments[1];
+    if (value === null && !assigned) {
+      const before = tokens[index - 1];
+      const after = tokens[index + 1];
+      if (before?.kind === 'operator' && EQUALITY.has(before.text)) {
+        const test = before.text === '=' ? 'IS NULL' : 'IS NOT NULL';
+        bound = bound.slice(0, before.start) + test + bound.slice(placeholder.end);
+        continue;
+      }
+      if (after?.kind === 'operator' && EQUALITY.has(after.text)) {
+        throw new Error(`${placeholder.text}: null can't be compared with ${after.text}; write the column first (col ${after.text} ${placeholder.text}) or use IS NULL`);
+      }
+    }
+
+    const column = targets[i];
+    const literal = column ? typedLiteral(column, value, placeholder.text) : plainLiteral(value, placeholder.text);
+    bound = bound.slice(0, placeholder.start) + literal + bound.slice(placeholder.end);
+  }
+  return bound;
+}
+
+/**
+ * Bind `params` into a statement, typing placeholders by the columns of the tables it reads or writes
+ * Returns `sql` unchanged when there are no params.
+ */
+export async function bindSqlParams(sql: string, params: SqlParams | undefined): Promise<string> {
+  if (params === undefined || params === null) return sql;
+  if (typeof params !== 'object') throw new Error('Params must be an array or an object');
+
+  // Columns are only known for a single statement; the written table comes first for INSERT values
+  const statements = parseSql(sql);
+  const statement = statements.length === 1 ? statements[0] : null;
+  const tableNames = statement ? [...new Set([...(statement.target ? [statement.target] : []), ...statement.tables])] : [];
+  const sources = await Promise.all(
+    tableNames.map(async (tableName): Promise<ParamSource | null> => {
+      try {
+        return {
+          names: Object.keys(statement!.aliases).filter((name) => statement!.aliases[name] === tableName),
+          columns: (await schemaDiscovery.getTable(tableName)).columns,
+        };
+      } catch {
+        // Unknown tables are bound untyped; SpacetimeDB reports them
+        return null;
+      }
+    })
+  );
+
+  return bindParams(sql, params, sources.filter((source): source is ParamSource => source !== null));
+}
@@ -0,0 +1,284 @@
+/**
+ * Reducer argument forms
+ * Builds editable form state from a reducer parameter's SATS type and converts it
+ * back into the JS value `/api/reducers/call` encodes as SATS-JSON: objects for
+ * products, `{ tag, value }` for sums, `null` for `none` and `[key, value]` pairs for maps.
+ * Also resolves the `{{…}}` variables of saved argument presets.
+ */
+
+import { formatType, resolveType } from './sats';
+import { columnInputKind, fromInputValue, toInputValue, type EditableColumn } from './column-values';
+import { parseWire, stringifyWire } from './json';
+import type { SatsType, SatsTypespace } from '@/types/sats';
+
+/**
+ * Form state for one argument, shaped like its type
+ * Scalars hold what ColumnInput edits; `json` is raw text for values nested too deep
+ * or recorded in another shape.
+ */
+export type ArgFormValue =
+  | { kind: 'scalar'; value: string | boolean }
+  | { kind: 'json'; text: string }
+  | { kind: 'product'; fields: ArgFormValue[] }
+  | { kind: 'sum'; variant: number; payload: ArgFormValue }
+  // `inner` is null for `none`
+  | { kind: 'option'; inner: ArgFormValue | null }
+  | { kind: 'array'; items: ArgFormValue[] }
+  | { kind: 'map'; entries: { key: ArgFormValue; value: ArgFormValue }[] };
+
+// Recursive types are edited as JSON past this depth
+const MAX_FORM_DEPTH = 8;
+
+/**
+ * Column describing a scalar type to ColumnInput, or null when the type needs a nested form
+ */
+export function scalarArgColumn(type: SatsType, typespace: SatsTypespace, name: string): EditableColumn | null {
+  const dataType = formatType(resolveType(type, typespace), typespace);
+  return columnInputKind(dataType) === 'json' ? null : { name, dataType, nullable: false };
+}
+
+/**
+ * Initial form state for a type: empty scalars, `none`, no items and the first unit
+ * variant of a sum (so recursive enums don't nest forever)
+ */
+export function emptyArgValue(type: SatsType, typespace: SatsTypespace, depth = 0): ArgFormValue {
+  let resolved: SatsType;
+  try {
+    resolved = resolveType(type, typespace);
+  } catch {
+    return { kind: 'json', text: '' };
+  }
+  if (depth > MAX_FORM_DEPTH) return { kind: 'json', text: '' };
+
+  const column = scalarArgColumn(resolved, typespace, '');
+  if (column) {
+    return { kind: 'scalar', value: columnInputKind(column.dataType) === 'bool' ? false : '' };
+  }
+
+  switch (resolved.kind) {
+    case 'product':
+      return { kind: 'product', fields: resolved.elements.map((element) => emptyArgValue(element.type, typespace, depth + 1)) };
+
+    case 'sum': {
+      if (resolved.variants.length === 0) return { kind: 'json', text: '' };
+      const unit = resolved.variants.findIndex((variant) => {
+        const payload = resolveType(variant.type, typespace);
+        return payload.kind === 'product' && payload.elements.length === 0;
+      });
+      const variant = Math.max(unit, 0);
+      return { kind: 'sum', variant, payload: emptyArgValue(resolved.variants[variant].type, typespace, depth + 1) };
+    }
+
+    case 'option':
+      return { kind: 'option', inner: null };
+
+    case 'array':
+      return { kind: 'array', items: [] };
+
+    case 'map':
+      return { kind: 'map', entries: [] };
+
+    default:
+      return { kind: 'json', text: '' };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Form state holding an argument value, e.g. one from the call history
+ * The inverse of `argValue`; parts in any other shape are edited as JSON.
+ */
+export function argFormValue(type: SatsType, typespace: SatsTypespace, value: unknown, depth = 0): ArgFormValue {
+  const json: ArgFormValue = { kind: 'json', text: value === undefined ? '' : stringifyWire(value, 2) };
+  let resolved: SatsType;
+  try {
+    resolved = resolveType(type, typespace);
+  } catch {
+    return json;
+  }
+  if (depth > MAX_FORM_DEPTH) return json;
+
+  const column = scalarArgColumn(resolved, typespace, '');
+  if (column) {
+    const kind = columnInputKind(column.dataType);
+    const fits =
+      kind === 'bool'
+        ? typeof value === 'boolean'
+        : kind === 'timestamp' || kind === 'duration'
+          ? typeof value === 'number' || typeof value === 'bigint'
+          : ['string', 'number', 'bigint'].includes(typeof value);
+    return fits ? { kind: 'scalar', value: toInputValue(column, value) } : json;
+  }
+
+  switch (resolved.kind) {
+    case 'product':
+      if (!value || typeof value !== 'object') return json;
+      return {
+        kind: 'product',
+        fields: resolved.elements.map((element, index) =>
+          argFormValue(
+            element.type,
+            typespace,
+            Array.isArray(value) ? value[index] : (value as Record<string, unknown>)[element.name ?? String(index)],
+            depth + 1
+          )
+        ),
+      };
+
+    case 'sum': {
+      if (!isRecord(value) || !('tag' in value)) return json;
+      const variant = resolved.variants.findIndex((v, index) => (v.name ?? String(index)) === value.tag);
+      if (variant === -1) return json;
+      return { kind: 'sum', variant, payload: argFormValue(resolved.variants[variant].type, typespace, value.value, depth + 1) };
+    }
+
+    case 'option':
+      return {
+        kind: 'option',
+        inner: value === null || value === undefined ? null : argFormValue(resolved.inner, typespace, value, depth + 1),
+      };
+
+    case 'array':
+      if (!Array.isArray(value)) return json;
+      return { kind: 'array', items: value.map((item) => argFormValue(resolved.element, typespace, item, depth + 1)) };
+
+    case 'map': {
+      const entries = Array.isArray(value) ? value : isRecord(value) ? Object.entries(value) : null;
+      if (!entries || !entries.every((entry) => Array.isArray(entry) && entry.length === 2)) return json;
+      return {
+        kind: 'map',
+        entries: entries.map(([key, entryValue]) => ({
+          key: argFormValue(resolved.key, typespace, key, depth + 1),
+          value: argFormValue(resolved.value, typespace, entryValue, depth + 1),
+        })),
+      };
+    }
+
+    default:
+      return json;
+  }
+}
+
+function mismatch(path: string): never {
+  throw new Error(`${path}: form doesn't match the parameter type`);
+}
+
+/**
+ * Convert form state into the argument value for a reducer call
+ * Throws an `Error` naming the offending path (e.g. `items[2].price`) when a value is invalid.
+ */
+export function argValue(type: SatsType, typespace: SatsTypespace, form: ArgFormValue, path: string): unknown {
+  if (form.kind === 'json') {
+    if (form.text.trim() === '') throw new Error(`${path}: value is required`);
+    try {
+      return parseWire(form.text);
+    } catch {
+      throw new Error(`${path}: invalid JSON`);
+    }
+  }
+
+  const resolved = resolveType(type, typespace);
+  switch (form.kind) {
+    case 'scalar': {
+      const column = scalarArgColumn(resolved, typespace, path);
+      if (!column) mismatch(path);
+      return fromInputValue(column, form.value);
+    }
+
+    case 'product': {
+      if (resolved.kind !== 'product') mismatch(path);
+      return Object.fromEntries(
+        resolved.elements.map((element, index) => {
+          const key = element.name ?? String(index);
+          return [key, argValue(element.type, typespace, form.fields[index], path ? `${path}.${key}` : key)];
+        })
+      );
+    }
+
+    case 'sum': {
+      if (resolved.kind !== 'sum' || !resolved.variants[form.variant]) mismatch(path);
+      const variant = resolved.variants[form.variant];
+      const tag = variant.name ?? String(form.variant);
+      return { tag, value: argValue(variant.type, typespace, form.payload, `${path}(${tag})`) };
+    }
+
+    case 'option':
+      if (resolved.kind !== 'option') mismatch(path);
+      return form.inner === null ? null : argValue(resolved.inner, typespace, form.inner, path);
+
+    case 'array':
+      if (resolved.kind !== 'array') mismatch(path);
+      return form.items.map((item, index) => argValue(resolved.element, typespace, item, `${path}[${index}]`));
+
+    case 'map':
+      if (resolved.kind !== 'map') mismatch(path);
+      return form.entries.map((entry, index) => [
+        argValue(resolved.key, typespace, entry.key, `${path}[${index}].key`),
+        argValue(resolved.value, typespace, entry.value, `${path}[${index}].value`),
+      ]);
+  }
+}
+
+// `{{now}}`, `{{me.identity}}` or `{{name}}` in a preset's string arguments
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)?)\s*\}\}/g;
+
+/**
+ * Variables filled in by the server when a preset runs; any others are asked for
+ */
+export const BUILTIN_VARIABLES = ['now', 'me.identity', 'me.username'];
+
+function collectVariables(value: unknown, names: Set<string>): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectVariables(item, names));
+  } else if (isRecord(value)) {
+    Object.values(value).forEach((item) => collectVariables(item, names));
+  }
+}
+
+/**
+ * Distinct variables used in argument values, in order of first use
+ */
+export function presetVariables(args: unknown): string[] {
+  const names = new Set<string>();
+  collectVariables(args, names);
+  return [...names];
+}
+
+/**
+ * Variables in argument values the caller has to supply
+ */
+export function promptVariables(args: unknown): string[] {
+  return presetVariables(args).filter((name) => !BUILTIN_VARIABLES.includes(name));
+}
+
+/**
+ * Replace variables in every string of argument values
+ * A string that is just one variable becomes its value as is (so `{{now}}` can fill a
+ * Timestamp with micros); inside longer text values are interpolated, `now` as ISO 8601.
+ * Throws an `Error` naming the first variable without a value.
+ */
+export function resolveVariables(args: unknown, values: Record<string, unknown>): unknown {
+  const lookup = (name: string): unknown => {
+    if (values[name] === undefined || values[name] === null) throw new Error(`No value for {{${name}}}`);
+    return values[name];
+  };
+
+  if (typeof args === 'string') {
+    const matches = [...args.matchAll(VARIABLE_PATTERN)];
+    if (matches.length === 1 && matches[0][0] === args) return lookup(matches[0][1]);
+    return args.replace(VARIABLE_PATTERN, (_match, name: string) => {
+      const value = lookup(name);
+      return name === 'now' ? new Date(Number(value) / 1000).toISOString() : String(value);
+    });
+  }
+  if (Array.isArray(args)) return args.map((item) => resolveVariables(item, values));
+  if (isRecord(args)) {
+    return Object.fromEntries(Object.entries(args).map(([key, item]) => [key, resolveVariables(item, values)]));
+  }
+  return args;
+}
@@ -0,0 +1,127 @@
+/**
+ * Query Result Cache
+ * Keeps decoded SELECT results in server memory so pages of a large result can be
+ * served without re-running the query. Entries expire after a TTL, and the least
+ * recently used are evicted once the cached rows exceed the row budget.
+ */
+
+import { config } from '@/lib/config';
+import { applyGridView, isGridViewEmpty, type GridView } from './grid-view';
+import type { StatementResult } from '@/types/api';
+
+type Row = Record<string, unknown>;
+
+// Sorted/filtered views remembered per result; paging through one view reuses it
+const MAX_VIEWS_PER_RESULT = 4;
+
+export interface CachedResult {
+  result: StatementResult;
+  cachedAt: Date;
+}
+
+interface CacheEntry extends CachedResult {
+  // Views already computed for this result, keyed by their JSON form
+  views: Map<string, Row[]>;
+}
+
+/**
+ * Collapse whitespace and drop a trailing semicolon so equivalent SQL shares an entry
+ */
+function cacheKey(sql: string): string {
+  return sql.trim().replace(/;\s*$/, '').replace(/\s+/g, ' ');
+}
+
+export class ResultCache {
+  // Map iteration order doubles as recency order (oldest first)
+  private entries = new Map<string, CacheEntry>();
+
+  private ttlMs(): number {
+    return config.resultCache.ttlSeconds * 1000;
+  }
+
+  /**
+   * A fresh cached result for `sql`, or null
+   */
+  get(sql: string): CachedResult | null {
+    const key = cacheKey(sql);
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() - entry.cachedAt.getTime() > this.ttlMs()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Cache a result, keeping at most the row budget
+   * Results larger than the budget are truncated; the returned entry reflects that.
+   */
+  set(sql: string, result: StatementResult): CachedResult {
+    const maxRows = config.resultCache.maxRows;
+    const rows = result.rows.length > maxRows ? result.rows.slice(0, maxRows) : result.rows;
+    const entry: CacheEntry = {
+      result: {
+        ...result,
+        rows,
+        fetchedRows: rows.length,
+        truncated: result.truncated || rows.length < result.rows.length,
+      },
+      cachedAt: new Date(),
+      views: new Map(),
+    };
+
+    if (this.ttlMs() <= 0) return entry;
+
+    const key = cacheKey(sql);
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    return entry;
+  }
+
+  /**
+   * Rows of a cached result after sorting, filtering and search
+   * Throws if the view names unknown columns or has invalid filters.
+   */
+  viewRows(entry: CachedResult, view: GridView): Row[] {
+    if (isGridViewEmpty(view)) return entry.result.rows;
+
+    const views = (entry as CacheEntry).views;
+    const key = JSON.stringify([view.orderBy ?? '', view.search ?? '', view.filters ?? {}]);
+    const existing = views.get(key);
+    if (existing) return existing;
+
+    const rows = applyGridView(entry.result.rows, entry.result.columns, view);
+    views.set(key, rows);
+    if (views.size > MAX_VIEWS_PER_RESULT) {
+      views.delete(views.keys().next().value as string);
+    }
+    return rows;
+  }
+
+  /**
+   * Drop every cached result, e.g. after a write
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private evict(): void {
+    let total = 0;
+    for (const entry of this.entries.values()) total += entry.result.rows.length;
+
+    for (const [key, entry] of this.entries) {
+      if (total <= config.resultCache.maxRows || this.entries.size <= 1) break;
+      total -= entry.result.rows.length;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// Export singleton instance
+export const resultCache = new ResultCache();
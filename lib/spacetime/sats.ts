@@ -0,0 +1,643 @@
+/**
+ * SATS-JSON codec
+ * Parses AlgebraicType JSON into a typed AST, resolves Refs against the
+ * typespace, and converts values between SATS-JSON and plain JS
+ */
+
+import type {
+  SatsColumn,
+  SatsElement,
+  SatsPrimitiveKind,
+  SatsSpecialKind,
+  SatsSumValue,
+  SatsType,
+  SatsTypespace,
+} from '@/types/sats';
+import type { StatementResult } from '@/types/api';
+import { toDisplayJson } from './json';
+
+const PRIMITIVE_KINDS: Record<string, SatsPrimitiveKind> = {
+  Bool: 'bool',
+  I8: 'i8',
+  U8: 'u8',
+  I16: 'i16',
+  U16: 'u16',
+  I32: 'i32',
+  U32: 'u32',
+  I64: 'i64',
+  U64: 'u64',
+  I128: 'i128',
+  U128: 'u128',
+  I256: 'i256',
+  U256: 'u256',
+  F32: 'f32',
+  F64: 'f64',
+  String: 'string',
+};
+
+// Reserved field names SpacetimeDB uses for its built-in product types
+const SPECIAL_FIELDS: Record<string, SatsSpecialKind> = {
+  __identity__: 'identity',
+  __connection_id__: 'connectionId',
+  __address__: 'connectionId',
+  __timestamp_micros_since_unix_epoch__: 'timestamp',
+  __time_duration_micros__: 'timeDuration',
+};
+
+const SPECIAL_FIELD_BY_KIND: Record<SatsSpecialKind, string> = {
+  identity: '__identity__',
+  connectionId: '__connection_id__',
+  timestamp: '__timestamp_micros_since_unix_epoch__',
+  timeDuration: '__time_duration_micros__',
+};
+
+const SPECIAL_DISPLAY_NAMES: Record<SatsSpecialKind, string> = {
+  identity: 'Identity',
+  connectionId: 'ConnectionId',
+  timestamp: 'Timestamp',
+  timeDuration: 'Duration',
+};
+
+const INTEGER_KINDS = new Set<string>([
+  'i8', 'u8', 'i16', 'u16', 'i32', 'u32', 'i64', 'u64', 'i128', 'u128', 'i256', 'u256',
+]);
+
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+const MIN_SAFE = BigInt(Number.MIN_SAFE_INTEGER);
+
+// Guards against self-referential typespaces
+const MAX_REF_DEPTH = 64;
+
+// ---------------------------------------------------------------------------
+// Type parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an optional SATS name (`{ some: "x" }` / `{ none: [] }`)
+ */
+export function parseName(raw: unknown): string | null {
+  if (typeof raw === 'string') return raw;
+  if (raw && typeof raw === 'object' && 'some' in raw) {
+    const some = (raw as { some: unknown }).some;
+    return typeof some === 'string' ? some : null;
+  }
+  return null;
+}
+
+function parseElements(raw: unknown): SatsElement[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((element: any) => ({
+    name: parseName(element?.name),
+    type: parseAlgebraicType(element?.algebraic_type),
+  }));
+}
+
+function isUnitType(type: SatsType): boolean {
+  return type.kind === 'product' && type.elements.length === 0;
+}
+
+/**
+ * Parse raw AlgebraicType JSON from the schema endpoint into the AST
+ */
+export function parseAlgebraicType(raw: unknown): SatsType {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid algebraic type: ${JSON.stringify(raw)}`);
+  }
+
+  const [tag] = Object.keys(raw);
+  const body = (raw as Record<string, any>)[tag];
+
+  if (tag in PRIMITIVE_KINDS) {
+    return { kind: PRIMITIVE_KINDS[tag] };
+  }
+
+  switch (tag) {
+    case 'Ref':
+      return { kind: 'ref', ref: Number(body) };
+
+    case 'Array':
+      return { kind: 'array', element: parseAlgebraicType(body) };
+
+    case 'Map':
+      return {
+        kind: 'map',
+        key: parseAlgebraicType(body?.key_ty),
+        value: parseAlgebraicType(body?.ty),
+      };
+
+    case 'Product': {
+      const elements = parseElements(body?.elements);
+      if (elements.length === 1 && elements[0].name && elements[0].name in SPECIAL_FIELDS) {
+        return { kind: SPECIAL_FIELDS[elements[0].name] };
+      }
+      return { kind: 'product', elements };
+    }
+
+    case 'Sum': {
+      const variants = parseElements(body?.variants);
+      // Option<T> is encoded as the sum `some(T) | none(())`
+      if (
+        variants.length === 2 &&
+        variants[0].name === 'some' &&
+        variants[1].name === 'none' &&
+        isUnitType(variants[1].type)
+      ) {
+        return { kind: 'option', inner: variants[0].type };
+      }
+      return { kind: 'sum', variants };
+    }
+  }
+
+  throw new Error(`Unsupported algebraic type: ${tag}`);
+}
+
+/**
+ * Parse the schema's `typespace.types` list
+ */
+export function parseTypespace(raw: { types?: unknown[] } | null | undefined): SatsTypespace {
+  return (raw?.types || []).map((type) => parseAlgebraicType(type));
+}
+
+/**
+ * Parse a ProductType (table row type or SQL result schema) into named columns
+ */
+export function parseColumns(rawProductType: unknown): SatsColumn[] {
+  const elements = parseElements((rawProductType as any)?.elements);
+  return elements.map((element, index) => ({
+    name: element.name ?? `col_${index}`,
+    type: element.type,
+  }));
+}
+
+/**
+ * Follow Ref nodes until a concrete type is reached
+ */
+export function resolveType(type: SatsType, typespace: SatsTypespace): SatsType {
+  let current = type;
+  for (let depth = 0; current.kind === 'ref'; depth++) {
+    if (depth >= MAX_REF_DEPTH) {
+      throw new Error(`Type reference cycle at ref ${current.ref}`);
+    }
+    const next = typespace[current.ref];
+    if (!next) {
+      throw new Error(`Unknown type reference: ${current.ref}`);
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Whether a type (or any nested type) contains an unresolved Ref
+ */
+export function containsRef(type: SatsType): boolean {
+  switch (type.kind) {
+    case 'ref':
+      return true;
+    case 'product':
+      return type.elements.some((e) => containsRef(e.type));
+    case 'sum':
+      return type.variants.some((v) => containsRef(v.type));
+    case 'option':
+      return containsRef(type.inner);
+    case 'array':
+      return containsRef(type.element);
+    case 'map':
+      return containsRef(type.key) || containsRef(type.value);
+    default:
+      return false;
+  }
+}
+
+export function isIntegerKind(kind: string): kind is SatsPrimitiveKind {
+  return INTEGER_KINDS.has(kind);
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Format a type as a short readable string (e.g. `u64`, `Option<string>`)
+ */
+export function formatType(type: SatsType, typespace: SatsTypespace = [], depth = 0): string {
+  if (depth > MAX_REF_DEPTH) return 'recursive';
+
+  switch (type.kind) {
+    case 'ref': {
+      const target = typespace[type.ref];
+      return target ? formatType(target, typespace, depth + 1) : `ref(${type.ref})`;
+    }
+    case 'identity':
+    case 'connectionId':
+    case 'timestamp':
+    case 'timeDuration':
+      return SPECIAL_DISPLAY_NAMES[type.kind];
+    case 'product':
+      return type.elements.length === 0 ? '()' : 'struct';
+    case 'sum':
+      return 'enum';
+    case 'option':
+      return `Option<${formatType(type.inner, typespace, depth + 1)}>`;
+    case 'array':
+      return `Array<${formatType(type.element, typespace, depth + 1)}>`;
+    case 'map':
+      return `Map<${formatType(type.key, typespace, depth + 1)}, ${formatType(type.value, typespace, depth + 1)}>`;
+    default:
+      return type.kind;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Decoding (SATS-JSON -> JS)
+// ---------------------------------------------------------------------------
+
+/**
+ * Unwrap a built-in product value, which may arrive as `[x]` or `{ __field__: x }`
+ */
+function unwrapSpecial(value: unknown, kind: SatsSpecialKind): unknown {
+  if (Array.isArray(value) && value.length === 1) return value[0];
+  if (value && typeof value === 'object') {
+    const field = SPECIAL_FIELD_BY_KIND[kind];
+    if (field in value) return (value as Record<string, unknown>)[field];
+    if (kind === 'connectionId' && '__address__' in value) {
+      return (value as Record<string, unknown>).__address__;
+    }
+  }
+  return value;
+}
+
+function decodeHex(value: unknown, bytes: number): unknown {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return `0x${BigInt(value).toString(16).padStart(bytes * 2, '0')}`;
+  }
+  return value;
+}
+
+function decodeNumber(value: unknown): unknown {
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Integers stay numbers while they fit in a double and become `bigint` beyond that
+ */
+function decodeInteger(value: unknown): unknown {
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    value = BigInt(value.trim());
+  }
+  if (typeof value === 'bigint') {
+    return value >= MIN_SAFE && value <= MAX_SAFE ? Number(value) : value;
+  }
+  return value;
+}
+
+/**
+ * Split a SATS-JSON sum value (`{ name: payload }` or `[tag, payload]`)
+ * into its variant and payload
+ */
+function splitSum(value: unknown, variants: SatsElement[]): { index: number; payload: unknown } | null {
+  let key: string | number | undefined;
+  let payload: unknown;
+
+  if (Array.isArray(value) && value.length === 2 && typeof value[0] === 'number') {
+    [key, payload] = value;
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    if (keys.length !== 1) return null;
+    key = keys[0];
+    payload = (value as Record<string, unknown>)[key];
+  } else {
+    return null;
+  }
+
+  const byName = variants.findIndex((v) => v.name === key);
+  if (byName !== -1) return { index: byName, payload };
+
+  const byIndex = Number(key);
+  if (Number.isInteger(byIndex) && byIndex >= 0 && byIndex < variants.length) {
+    return { index: byIndex, payload };
+  }
+  return null;
+}
+
+/**
+ * Decode a SATS-JSON value into plain JS
+ *
+ * - Products become objects keyed by field name (unnamed fields by index)
+ * - Sums become `{ tag, value }`
+ * - Options become the inner value or `null`
+ * - Identity/ConnectionId become hex strings, Timestamp/Duration microseconds
+ * - 64-bit and wider integers become `bigint` when they exceed the safe double range
+ * - Maps become arrays of `[key, value]` pairs
+ */
+export function decodeValue(type: SatsType, value: unknown, typespace: SatsTypespace = []): unknown {
+  const resolved = resolveType(type, typespace);
+
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (resolved.kind) {
+    case 'bool':
+    case 'string':
+      return value;
+
+    case 'f32':
+    case 'f64':
+      return decodeNumber(value);
+
+    case 'identity':
+      return decodeHex(unwrapSpecial(value, resolved.kind), 32);
+
+    case 'connectionId':
+      return decodeHex(unwrapSpecial(value, resolved.kind), 16);
+
+    case 'timestamp':
+    case 'timeDuration':
+      return decodeNumber(unwrapSpecial(value, resolved.kind));
+
+    case 'product': {
+      const obj: Record<string, unknown> = {};
+      resolved.elements.forEach((element, index) => {
+        const key = element.name ?? String(index);
+        const raw = Array.isArray(value)
+          ? value[index]
+          : (value as Record<string, unknown>)[key];
+        obj[key] = decodeValue(element.type, raw, typespace);
+      });
+      return obj;
+    }
+
+    case 'sum': {
+      const split = splitSum(value, resolved.variants);
+      if (!split) return value;
+      const variant = resolved.variants[split.index];
+      const result: SatsSumValue = {
+        tag: variant.name ?? String(split.index),
+        value: decodeValue(variant.type, split.payload, typespace),
+      };
+      return result;
+    }
+
+    case 'option': {
+      const split = splitSum(value, [
+        { name: 'some', type: resolved.inner },
+        { name: 'none', type: { kind: 'product', elements: [] } },
+      ]);
+      if (!split) return decodeValue(resolved.inner, value, typespace);
+      return split.index === 0 ? decodeValue(resolved.inner, split.payload, typespace) : null;
+    }
+
+    case 'array':
+      // Byte arrays may be sent as hex strings
+      if (!Array.isArray(value)) return value;
+      return value.map((item) => decodeValue(resolved.element, item, typespace));
+
+    case 'map': {
+      const entries: [unknown, unknown][] = Array.isArray(value)
+        ? value.map((entry: any) => (Array.isArray(entry) ? [entry[0], entry[1]] : [entry?.key, entry?.value]))
+        : Object.entries(value as Record<string, unknown>);
+      return entries.map(([k, v]) => [
+        decodeValue(resolved.key, k, typespace),
+        decodeValue(resolved.value, v, typespace),
+      ]);
+    }
+
+    default:
+      return decodeInteger(value);
+  }
+}
+
+/**
+ * Decode a SQL result row (an array of column values) into an object
+ */
+export function decodeRow(
+  columns: SatsColumn[],
+  row: unknown,
+  typespace: SatsTypespace = []
+): Record<string, unknown> {
+  const obj: Record<string, unknown> = {};
+  if (!Array.isArray(row)) return obj;
+
+  columns.forEach((column, index) => {
+    obj[column.name] = decodeValue(column.type, row[index], typespace);
+  });
+  return obj;
+}
+
+/**
+ * Decode one SATS-JSON statement result ({ schema, rows }) into typed columns and plain rows
+ * `maxRows` of -1 keeps every row.
+ */
+export function decodeStatement(result: any, typespace: SatsTypespace, maxRows: number): StatementResult {
+  const satsColumns = parseColumns(result.schema);
+  const columns = satsColumns.map((col) => {
+    // Option<T> values decode to the inner value or null
+    const resolved = resolveType(col.type, typespace);
+    const isOption = resolved.kind === 'option';
+
+    return {
+      name: col.name,
+      type: formatType(isOption ? resolved.inner : col.type, typespace),
+      nullable: isOption,
+    };
+  });
+
+  // Convert SATS-JSON rows to plain objects
+  const allRows = (result.rows || []).map((row: unknown) => decodeRow(satsColumns, row, typespace));
+
+  // Apply row limit if specified (maxRows = -1 means unlimited)
+  const totalRows = allRows.length;
+  const truncated = maxRows > 0 && totalRows > maxRows;
+  const rows = maxRows > 0 ? allRows.slice(0, maxRows) : allRows;
+
+  return { columns, rows, totalRows, fetchedRows: rows.length, truncated };
+}
+
+// ---------------------------------------------------------------------------
+// Encoding (JS -> SATS-JSON)
+// ---------------------------------------------------------------------------
+
+function fail(path: string, expected: string, value: unknown): never {
+  const shown = typeof value === 'string' ? `"${value}"` : toDisplayJson(value);
+  throw new Error(`${path || 'value'}: expected ${expected}, got ${shown}`);
+}
+
+/**
+ * Inclusive bounds of an integer kind such as 'u8' or 'i128'
+ */
+export function integerRange(kind: string): [bigint, bigint] {
+  const bits = BigInt(kind.slice(1));
+  const one = BigInt(1);
+  if (kind.startsWith('u')) {
+    return [BigInt(0), (one << bits) - one];
+  }
+  return [-(one << (bits - one)), (one << (bits - one)) - one];
+}
+
+/**
+ * Encode an integer, range-checked against its SATS width. Values outside the
+ * safe double range are returned as `bigint` so they can be written losslessly.
+ */
+function encodeInteger(value: unknown, path: string, kind: string): number | bigint {
+  let big: bigint;
+  if (typeof value === 'bigint') {
+    big = value;
+  } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    big = BigInt(value);
+  } else if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    big = BigInt(value.trim());
+  } else {
+    return fail(path, kind, value);
+  }
+
+  if (isIntegerKind(kind)) {
+    const [min, max] = integerRange(kind);
+    if (big < min || big > max) {
+      fail(path, `${kind} in range ${min}..${max}`, value);
+    }
+  }
+  return big >= MIN_SAFE && big <= MAX_SAFE ? Number(big) : big;
+}
+
+function encodeFloat(value: unknown, path: string, kind: string): number {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || isNaN(num)) {
+    fail(path, kind, value);
+  }
+  return num;
+}
+
+function encodeMicros(value: unknown, path: string, kind: SatsSpecialKind): number {
+  if (value instanceof Date) {
+    return value.getTime() * 1000;
+  }
+  if (typeof value === 'string' && kind === 'timestamp' && isNaN(Number(value))) {
+    const ms = Date.parse(value);
+    if (isNaN(ms)) fail(path, 'an ISO timestamp', value);
+    return ms * 1000;
+  }
+  return Number(encodeInteger(unwrapSpecial(value, kind), path, SPECIAL_DISPLAY_NAMES[kind]));
+}
+
+function encodeHex(value: unknown, path: string, kind: SatsSpecialKind): string {
+  const raw = unwrapSpecial(value, kind);
+  if (typeof raw !== 'string' || !/^(0x)?[0-9a-fA-F]+$/.test(raw)) {
+    fail(path, `a hex ${SPECIAL_DISPLAY_NAMES[kind]}`, value);
+  }
+  return raw.startsWith('0x') ? raw : `0x${raw}`;
+}
+
+/**
+ * Pick the variant and payload out of the accepted JS sum shapes:
+ * `{ tag, value }`, `{ variantName: payload }` or a bare variant name
+ */
+function pickVariant(value: unknown, variants: SatsElement[], path: string): { variant: SatsElement; index: number; payload: unknown } {
+  let tag: unknown;
+  let payload: unknown = [];
+
+  if (typeof value === 'string') {
+    tag = value;
+  } else if (value && typeof value === 'object' && 'tag' in value) {
+    tag = (value as SatsSumValue).tag;
+    payload = (value as SatsSumValue).value;
+  } else {
+    const split = splitSum(value, variants);
+    if (split) {
+      return { variant: variants[split.index], index: split.index, payload: split.payload };
+    }
+  }
+
+  const index = variants.findIndex((v) => v.name === tag);
+  if (index === -1) {
+    fail(path, `one of ${variants.map((v) => v.name).join(' | ')}`, value);
+  }
+  return { variant: variants[index], index, payload };
+}
+
+/**
+ * Encode a JS value into SATS-JSON for reducer calls
+ * Throws with the offending path when the value does not match the type
+ */
+export function encodeValue(
+  type: SatsType,
+  value: unknown,
+  typespace: SatsTypespace = [],
+  path = ''
+): unknown {
+  const resolved = resolveType(type, typespace);
+
+  switch (resolved.kind) {
+    case 'bool':
+      if (value === 'true' || value === 'false') return value === 'true';
+      if (typeof value !== 'boolean') fail(path, 'bool', value);
+      return value;
+
+    case 'string':
+      if (value === null || value === undefined || typeof value === 'object') {
+        fail(path, 'string', value);
+      }
+      return String(value);
+
+    case 'f32':
+    case 'f64':
+      return encodeFloat(value, path, resolved.kind);
+
+    case 'identity':
+    case 'connectionId':
+      return { [SPECIAL_FIELD_BY_KIND[resolved.kind]]: encodeHex(value, path, resolved.kind) };
+
+    case 'timestamp':
+    case 'timeDuration':
+      return { [SPECIAL_FIELD_BY_KIND[resolved.kind]]: encodeMicros(value, path, resolved.kind) };
+
+    case 'product': {
+      if (!value || typeof value !== 'object') {
+        if (resolved.elements.length === 0) return [];
+        fail(path, 'an object', value);
+      }
+      return resolved.elements.map((element, index) => {
+        const key = element.name ?? String(index);
+        const field = Array.isArray(value) ? value[index] : (value as Record<string, unknown>)[key];
+        return encodeValue(element.type, field, typespace, path ? `${path}.${key}` : key);
+      });
+    }
+
+    case 'sum': {
+      const { variant, index, payload } = pickVariant(value, resolved.variants, path);
+      const name = variant.name ?? String(index);
+      return { [name]: encodeValue(variant.type, payload, typespace, `${path}(${name})`) };
+    }
+
+    case 'option':
+      if (value === null || value === undefined) return { none: [] };
+      return { some: encodeValue(resolved.inner, value, typespace, path) };
+
+    case 'array':
+      if (!Array.isArray(value)) fail(path, 'an array', value);
+      return value.map((item, index) => encodeValue(resolved.element, item, typespace, `${path}[${index}]`));
+
+    case 'map': {
+      const entries: [unknown, unknown][] = Array.isArray(value)
+        ? value
+        : value && typeof value === 'object'
+          ? Object.entries(value)
+          : fail(path, 'a map', value);
+      return entries.map(([k, v], index) => [
+        encodeValue(resolved.key, k, typespace, `${path}[${index}].key`),
+        encodeValue(resolved.value, v, typespace, `${path}[${index}].value`),
+      ]);
+    }
+
+    case 'ref':
+      // resolveType never returns a ref
+      return value;
+
+    default:
+      return encodeInteger(value, path, resolved.kind);
+  }
+}
@@ -4,13 +4,49 @@
  */
 
 import { config } from '@/lib/config';
-import { SpacetimeHttpClient } from './http-client';
-import type { TableMetadata, ColumnMetadata } from '@/types/spacetime';
+import { SpacetimeHttpClient, type DatabaseSchema } from './http-client';
+import { parseName } from './sats';
+import type {
+  TableMetadata,
+  ColumnMetadata,
+  IndexMetadata,
+  ConstraintMetadata,
+  SequenceMetadata,
+  TableStats,
+} from '@/types/spacetime';
 import type { SchemaCache } from '@/types/schema';
 
+// Rows read per table to estimate its payload size (and count it when COUNT(*) isn't supported)
+const STATS_SAMPLE_ROWS = 1000;
+
+/**
+ * Column positions appear as a bare id, an id list, or `{ columns }` / `{ column }`
+ */
+function columnIds(raw: unknown): number[] {
+  if (typeof raw === 'number') return [raw];
+  if (Array.isArray(raw)) return raw.map(Number);
+  if (raw && typeof raw === 'object') {
+    const obj = raw as Record<string, unknown>;
+    if ('columns' in obj) return columnIds(obj.columns);
+    if ('column' in obj) return columnIds(obj.column);
+  }
+  return [];
+}
+
+/**
+ * Unwrap a SATS-JSON Option (`{ some: x }` / `{ none: [] }`)
+ */
+function optionValue(raw: unknown): unknown {
+  if (raw && typeof raw === 'object' && 'some' in raw) {
+    return (raw as { some: unknown }).some;
+  }
+  return undefined;
+}
+
 export class SchemaDiscovery {
   private client: SpacetimeHttpClient;
   private cache: SchemaCache | null = null;
+  private statsCache = new Map<string, { stats: TableStats; cachedAt: number }>();
 
   constructor(client?: SpacetimeHttpClient) {
     this.client = client || new SpacetimeHttpClient();
@@ -18,6 +54,7 @@ export class SchemaDiscovery {
 
   /**
    * Get all tables with caching
+   * Statistics aren't included; see `withStats`.
    */
   async getAllTables(forceRefresh = false): Promise<TableMetadata[]> {
     // Check cache
@@ -25,16 +62,16 @@ export class SchemaDiscovery {
       return this.cache.tables;
     }
 
-    // Discover tables
-    const tableNames = await this.client.getTables();
+    // Discover tables from a single schema fetch
+    const schema = await this.client.getDatabaseSchema();
     const tables: TableMetadata[] = [];
 
-    for (const tableName of tableNames) {
+    for (const rawTable of schema.tables) {
       try {
-        const table = await this.discoverTable(tableName);
+        const table = await this.discoverTable(rawTable.name, schema);
         tables.push(table);
       } catch (error) {
-        console.error(`Failed to discover table ${tableName}:`, error);
+        console.error(`Failed to discover table ${rawTable.name}:`, error);
       }
     }
 
@@ -64,40 +101,189 @@ export class SchemaDiscovery {
     return this.discoverTable(tableName);
   }
 
+  /**
+   * Get row count and size statistics for a table
+   * Cached separately from the schema since counts change far more often
+   */
+  async getTableStats(tableName: string, forceRefresh = false): Promise<TableStats> {
+    const cached = this.statsCache.get(tableName);
+    if (!forceRefresh && cached && Date.now() - cached.cachedAt < this.statsTtl()) {
+      return cached.stats;
+    }
+
+    const sample = await this.client.getTableStats(tableName, STATS_SAMPLE_ROWS);
+    const previous = cached?.stats;
+
+    const stats: TableStats = {
+      ...sample,
+      updatedAt: new Date().toISOString(),
+      // A lower bound on either side says nothing about the change
+      rowDelta: previous && !previous.lowerBound && !sample.lowerBound ? sample.rowCount - previous.rowCount : undefined,
+      bytesDelta:
+        previous?.approxBytes !== undefined && sample.approxBytes !== undefined
+          ? sample.approxBytes - previous.approxBytes
+          : undefined,
+    };
+
+    this.statsCache.set(tableName, { stats, cachedAt: Date.now() });
+    return stats;
+  }
+
+  /**
+   * Merge current statistics into table metadata
+   * Counting and sampling cost a query each, so only callers that show stats use this.
+   */
+  async withStats(tables: TableMetadata[], forceRefresh = false): Promise<TableMetadata[]> {
+    return Promise.all(
+      tables.map(async (table) => {
+        try {
+          const stats = await this.getTableStats(table.name, forceRefresh);
+          return { ...table, estimatedRows: stats.rowCount, stats };
+        } catch (error) {
+          console.error(`Failed to get stats for table ${table.name}:`, error);
+          return table;
+        }
+      })
+    );
+  }
+
+  private statsTtl(): number {
+    return config.spacetime.statsTtlMinutes * 60 * 1000;
+  }
+
   /**
    * Discover table metadata
    */
-  private async discoverTable(tableName: string): Promise<TableMetadata> {
-    const [columns, rowCount] = await Promise.all([
-      this.discoverColumns(tableName),
-      this.client.getTableRowCount(tableName),
-    ]);
+  private async discoverTable(tableName: string, schema?: DatabaseSchema): Promise<TableMetadata> {
+    const databaseSchema = schema || await this.client.getDatabaseSchema();
+    const rawTable = databaseSchema.tables.find((t) => t.name === tableName);
+
+    if (!rawTable) {
+      throw new Error(`Table ${tableName} not found`);
+    }
+
+    const columns = await this.discoverColumns(tableName, databaseSchema);
+    const structure = this.discoverStructure(rawTable, columns);
 
     return {
       name: tableName,
       schema: 'public',
-      columns,
-      indexes: [],
-      constraints: [],
-      estimatedRows: rowCount,
+      columns: structure.columns,
+      indexes: structure.indexes,
+      constraints: structure.constraints,
+      sequences: structure.sequences,
+      primaryKey: structure.primaryKey,
+      isPublic: rawTable.table_access ? 'Public' in rawTable.table_access : undefined,
     };
   }
 
   /**
    * Discover table columns
    */
-  private async discoverColumns(tableName: string): Promise<ColumnMetadata[]> {
-    const schemaInfo = await this.client.getTableSchema(tableName);
+  private async discoverColumns(tableName: string, schema?: DatabaseSchema): Promise<ColumnMetadata[]> {
+    const schemaInfo = await this.client.getTableSchema(tableName, schema);
 
     return schemaInfo.map((col) => ({
       name: col.name,
       dataType: this.normalizeDataType(col.type),
       nullable: col.nullable,
-      isPrimary: false, // Will be enhanced later
+      isPrimary: false,
       isUnique: false,
+      isAutoIncrement: false,
     }));
   }
 
+  /**
+   * Resolve primary key, indexes, unique constraints and sequences
+   * (all of which reference columns by position) and flag the columns
+   */
+  private discoverStructure(rawTable: DatabaseSchema['tables'][number], columns: ColumnMetadata[]): {
+    columns: ColumnMetadata[];
+    indexes: IndexMetadata[];
+    constraints: ConstraintMetadata[];
+    sequences: SequenceMetadata[];
+    primaryKey: string[];
+  } {
+    const columnName = (id: number) => columns[id]?.name ?? `col_${id}`;
+    const sameColumns = (a: number[], b: number[]) =>
+      a.length === b.length && a.every((id, i) => id === b[i]);
+
+    const primaryKeyIds = columnIds(rawTable.primary_key);
+
+    const uniqueSets = (rawTable.constraints || [])
+      .map((constraint: any) => ({
+        name: parseName(constraint?.name),
+        ids: columnIds(constraint?.data?.Unique),
+      }))
+      .filter((constraint) => constraint.ids.length > 0);
+
+    const constraints: ConstraintMetadata[] = [];
+    if (primaryKeyIds.length > 0) {
+      constraints.push({
+        name: `${rawTable.name}_primary_key`,
+        type: 'PRIMARY KEY',
+        columns: primaryKeyIds.map(columnName),
+      });
+    }
+    for (const unique of uniqueSets) {
+      const names = unique.ids.map(columnName);
+      constraints.push({
+        name: unique.name || `${rawTable.name}_${names.join('_')}_key`,
+        type: 'UNIQUE',
+        columns: names,
+      });
+    }
+
+    const indexes: IndexMetadata[] = (rawTable.indexes || []).map((index: any) => {
+      const [algorithm = 'BTree'] = Object.keys(index?.algorithm || {});
+      const ids = columnIds(index?.algorithm?.[algorithm]);
+      const names = ids.map(columnName);
+      const isPrimary = primaryKeyIds.length > 0 && sameColumns(ids, primaryKeyIds);
+
+      return {
+        name: parseName(index?.name) || parseName(index?.accessor_name) || `${rawTable.name}_${names.join('_')}_idx`,
+        columns: names,
+        isPrimary,
+        isUnique: isPrimary || uniqueSets.some((unique) => sameColumns(unique.ids, ids)),
+        algorithm: algorithm.toLowerCase() as IndexMetadata['algorithm'],
+      };
+    });
+
+    const sequences: SequenceMetadata[] = (rawTable.sequences || []).map((sequence: any) => {
+      const column = columnName(Number(sequence?.column));
+      const start = optionValue(sequence?.start);
+      const minValue = optionValue(sequence?.min_value);
+      const maxValue = optionValue(sequence?.max_value);
+
+      return {
+        name: parseName(sequence?.name) || `${rawTable.name}_${column}_seq`,
+        column,
+        increment: Number(sequence?.increment ?? 1),
+        start: start === undefined ? undefined : String(start),
+        minValue: minValue === undefined ? undefined : String(minValue),
+        maxValue: maxValue === undefined ? undefined : String(maxValue),
+      };
+    });
+
+    const autoIncColumns = new Set(sequences.map((sequence) => sequence.column));
+
+    return {
+      columns: columns.map((col, id) => {
+        const isPrimary = primaryKeyIds.includes(id);
+        return {
+          ...col,
+          isPrimary,
+          isUnique: isPrimary || uniqueSets.some((unique) => sameColumns(unique.ids, [id])),
+          isAutoIncrement: autoIncColumns.has(col.name),
+        };
+      }),
+      indexes,
+      constraints,
+      sequences,
+      primaryKey: primaryKeyIds.map(columnName),
+    };
+  }
+
   /**
    * Normalize data types to common format
    */
@@ -149,9 +335,9 @@ export class SchemaDiscovery {
   /**
    * Get cache status
    */
-  getCacheStatus(): { cached: boolean; age?: number; ttl?: number } {
+  getCacheStatus(): { cached: boolean; age?: number; ttl?: number; statsTtl: number } {
     if (!this.cache) {
-      return { cached: false };
+      return { cached: false, statsTtl: this.statsTtl() };
     }
 
     const age = new Date().getTime() - this.cache.cachedAt.getTime();
@@ -159,6 +345,7 @@ export class SchemaDiscovery {
       cached: this.isCacheValid(),
       age,
       ttl: this.cache.ttl,
+      statsTtl: this.statsTtl(),
     };
   }
 }
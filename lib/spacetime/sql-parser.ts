@@ -0,0 +1,425 @@
+/**
+ * SQL tokenizer and statement classifier
+ * Covers the SpacetimeDB SQL subset (SELECT with joins, INSERT, UPDATE, DELETE,
+ * SET and SHOW) well enough to tell what each statement does and which tables
+ * and columns it touches before anything is sent upstream. Comments are dropped,
+ * so they can't hide a statement's kind.
+ */
+
+export type SqlTokenKind = 'keyword' | 'identifier' | 'string' | 'number' | 'placeholder' | 'operator' | 'punctuation';
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  // Source text
+  text: string;
+  // Lowercased keyword, unquoted identifier or string contents; otherwise the text
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type StatementKind = 'select' | 'insert' | 'update' | 'delete' | 'set' | 'show' | 'other';
+
+export interface SqlStatement {
+  kind: StatementKind;
+  // Statement source without surrounding comments or the closing `;`
+  text: string;
+  tokens: SqlToken[];
+  // Tables the statement reads or writes, in order of appearance
+  tables: string[];
+  // Table each table name or alias refers to, e.g. `{ player: 'player', p: 'player' }`
+  aliases: Record<string, string>;
+  // Table an INSERT, UPDATE or DELETE writes
+  target: string | null;
+  // Columns referenced anywhere in the statement, without table qualifiers
+  columns: string[];
+  readOnly: boolean;
+}
+
+export type DmlStatement =
+  | { kind: 'insert'; table: string; columns: string[] | null; rows: string[][] }
+  | { kind: 'update'; table: string; assignments: { column: string; value: string }[]; where: string | null }
+  | { kind: 'delete'; table: string; where: string | null };
+
+const KEYWORDS = new Set([
+  'all', 'alter', 'and', 'as', 'asc', 'between', 'by', 'create', 'cross', 'delete', 'desc', 'distinct',
+  'drop', 'false', 'from', 'grant', 'group', 'having', 'in', 'inner', 'insert', 'into', 'is', 'join',
+  'left', 'like', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'outer', 'revoke', 'right',
+  'select', 'set', 'show', 'true', 'truncate', 'union', 'update', 'values', 'where', 'with',
+]);
+
+const VERBS = new Set(['select', 'insert', 'update', 'delete', 'set', 'show']);
+// Keywords that change data or schema wherever they appear
+const WRITE_KEYWORDS = new Set(['insert', 'update', 'delete', 'drop', 'create', 'alter', 'truncate', 'grant', 'revoke']);
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '::', '=', '<', '>', '+', '-', '*', '/', '%'];
+
+/**
+ * Line and column of an offset, for error messages
+ */
+function position(sql: string, offset: number): string {
+  const before = sql.slice(0, offset).split('\n');
+  return `line ${before.length}, column ${before[before.length - 1].length + 1}`;
+}
+
+function near(sql: string, token: SqlToken | undefined): string {
+  return token ? `near "${token.text}" (${position(sql, token.start)})` : 'at end of statement';
+}
+
+/**
+ * Index just past a quoted run starting at `start` (doubled quotes are escapes)
+ */
+function closeQuote(sql: string, start: number, what: string): number {
+  const quote = sql[start];
+  for (let pos = start + 1; pos < sql.length; pos++) {
+    if (sql[pos] === quote && sql[pos + 1] === quote) pos++;
+    else if (sql[pos] === quote) return pos + 1;
+  }
+  throw new Error(`Unterminated ${what} starting at ${position(sql, start)}`);
+}
+
+/**
+ * Split SQL into tokens, dropping whitespace and comments
+ * Throws an `Error` with the line and column of an unterminated literal or unexpected character.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  const push = (kind: SqlTokenKind, start: number, end: number, value?: string) => {
+    const text = sql.slice(start, end);
+    tokens.push({ kind, text, value: value ?? text, start, end });
+  };
+
+  let pos = 0;
+  while (pos < sql.length) {
+    const ch = sql[pos];
+    const rest = sql.slice(pos);
+
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (rest.startsWith('--')) {
+      const newline = sql.indexOf('\n', pos);
+      pos = newline === -1 ? sql.length : newline + 1;
+    } else if (rest.startsWith('/*')) {
+      const close = sql.indexOf('*/', pos + 2);
+      if (close === -1) throw new Error(`Unterminated comment starting at ${position(sql, pos)}`);
+      pos = close + 2;
+    } else if (ch === "'") {
+      const end = closeQuote(sql, pos, 'string literal');
+      push('string', pos, end, sql.slice(pos + 1, end - 1).replace(/''/g, "'"));
+      pos = end;
+    } else if (ch === '"') {
+      const end = closeQuote(sql, pos, 'quoted identifier');
+      push('identifier', pos, end, sql.slice(pos + 1, end - 1).replace(/""/g, '"'));
+      pos = end;
+    } else if (/^0x[0-9a-f]/i.test(rest)) {
+      const end = pos + /^0x[0-9a-f]*/i.exec(rest)![0].length;
+      push('number', pos, end);
+      pos = end;
+    } else if (/^(\d|\.\d)/.test(rest)) {
+      const end = pos + /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest)![0].length;
+      push('number', pos, end);
+      pos = end;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest)![0];
+      const lower = word.toLowerCase();
+      push(KEYWORDS.has(lower) ? 'keyword' : 'identifier', pos, pos + word.length, KEYWORDS.has(lower) ? lower : word);
+      pos += word.length;
+    } else if (/^\$\d+/.test(rest) || (/^:[A-Za-z_]/.test(rest) && sql[pos - 1] !== ':')) {
+      const end = pos + /^(\$\d+|:[A-Za-z_][A-Za-z0-9_]*)/.exec(rest)![0].length;
+      push('placeholder', pos, end);
+      pos = end;
+    } else if ('(),;.'.includes(ch)) {
+      push('punctuation', pos, pos + 1);
+      pos++;
+    } else {
+      const operator = OPERATORS.find((op) => rest.startsWith(op));
+      if (!operator) throw new Error(`Unexpected character "${ch}" at ${position(sql, pos)}`);
+      push('operator', pos, pos + operator.length);
+      pos += operator.length;
+    }
+  }
+  return tokens;
+}
+
+function isKeyword(token: SqlToken | undefined, ...keywords: string[]): boolean {
+  return token?.kind === 'keyword' && keywords.includes(token.value);
+}
+
+function isPunctuation(token: SqlToken | undefined, text: string): boolean {
+  return token?.kind === 'punctuation' && token.text === text;
+}
+
+/**
+ * Source text covered by a run of tokens
+ */
+function tokenText(sql: string, tokens: SqlToken[]): string {
+  return tokens.length === 0 ? '' : sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+}
+
+/**
+ * Split tokens on a top-level (outside parentheses) separator
+ */
+function splitTokens(tokens: SqlToken[], isSeparator: (token: SqlToken) => boolean): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (isPunctuation(token, '(')) depth++;
+    if (isPunctuation(token, ')')) depth--;
+    if (depth === 0 && isSeparator(token)) parts.push([]);
+    else parts[parts.length - 1].push(token);
+  }
+  return parts;
+}
+
+/**
+ * Index of the first top-level keyword in `tokens`, or -1
+ */
+function findTopLevel(tokens: SqlToken[], keyword: string, from = 0): number {
+  let depth = 0;
+  for (let i = from; i < tokens.length; i++) {
+    if (isPunctuation(tokens[i], '(')) depth++;
+    else if (isPunctuation(tokens[i], ')')) depth--;
+    else if (depth === 0 && isKeyword(tokens[i], keyword)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Index of the keyword saying what a statement does, or -1
+ * A WITH statement does what its first top-level verb after the CTE list does.
+ */
+function verbIndex(tokens: SqlToken[]): number {
+  if (!isKeyword(tokens[0], 'with')) {
+    return tokens[0]?.kind === 'keyword' && VERBS.has(tokens[0].value) ? 0 : -1;
+  }
+  let depth = 0;
+  return tokens.findIndex((token) => {
+    if (isPunctuation(token, '(')) depth++;
+    else if (isPunctuation(token, ')')) depth--;
+    return depth === 0 && token.kind === 'keyword' && VERBS.has(token.value);
+  });
+}
+
+/**
+ * Table written by the INSERT, UPDATE or DELETE whose verb is at `verb`
+ */
+function writtenTable(tokens: SqlToken[], verb: number): string | null {
+  const table = isKeyword(tokens[verb], 'update') ? tokens[verb + 1] : isKeyword(tokens[verb + 1], 'into', 'from') ? tokens[verb + 2] : undefined;
+  return table?.kind === 'identifier' ? table.value : null;
+}
+
+/**
+ * Tables named after FROM, JOIN, INTO and UPDATE, plus the aliases and CTE names that aren't columns
+ */
+function tableReferences(tokens: SqlToken[]): { tables: string[]; names: Set<string>; aliases: Record<string, string> } {
+  const tables: string[] = [];
+  const names = new Set<string>();
+  const aliases: Record<string, string> = {};
+  const ctes = new Set<string>();
+
+  tokens.forEach((token, i) => {
+    // `WITH name AS (` and `, name AS (` define CTEs
+    if (token.kind === 'identifier' && isKeyword(tokens[i + 1], 'as') && isPunctuation(tokens[i + 2], '(')) {
+      ctes.add(token.value);
+    }
+  });
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const listed = isKeyword(token, 'from');
+    if (!listed && !isKeyword(token, 'join', 'into', 'update')) continue;
+
+    for (let at = i + 1; tokens[at]?.kind === 'identifier'; at++) {
+      const name = tokens[at].value;
+      const isTable = !ctes.has(name);
+      if (isTable && !tables.includes(name)) tables.push(name);
+      if (isTable) aliases[name] = name;
+      names.add(name);
+
+      // An alias follows as `AS alias` or a bare identifier
+      at += isKeyword(tokens[at + 1], 'as') ? 2 : 1;
+      if (tokens[at]?.kind === 'identifier') {
+        names.add(tokens[at].value);
+        if (isTable) aliases[tokens[at].value] = name;
+      } else {
+        at--;
+      }
+
+      if (!listed || !isPunctuation(tokens[at + 1], ',')) break;
+      at++;
+    }
+  }
+
+  ctes.forEach((name) => names.add(name));
+  return { tables, names, aliases };
+}
+
+/**
+ * Column names among `tokens`: identifiers that aren't tables, aliases, functions or qualifiers
+ */
+function referencedColumns(tokens: SqlToken[], names: Set<string>): string[] {
+  const columns: string[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'identifier') return;
+    if (isPunctuation(tokens[i + 1], '.') || isPunctuation(tokens[i + 1], '(') || isKeyword(tokens[i - 1], 'as')) return;
+    if (!isPunctuation(tokens[i - 1], '.') && names.has(token.value)) return;
+    if (!columns.includes(token.value)) columns.push(token.value);
+  });
+  return columns;
+}
+
+/**
+ * Split SQL into statements and classify each one
+ * Empty statements (e.g. a trailing `;`) are left out. Throws an `Error` when the SQL can't be tokenized.
+ */
+export function parseSql(sql: string): SqlStatement[] {
+  return splitTokens(tokenizeSql(sql), (token) => isPunctuation(token, ';'))
+    .filter((tokens) => tokens.length > 0)
+    .map((tokens) => {
+      const verb = verbIndex(tokens);
+      const kind = verb === -1 ? 'other' : (tokens[verb].value as StatementKind);
+      const { tables, names, aliases } = tableReferences(tokens);
+      const writes = kind === 'insert' || kind === 'update' || kind === 'delete';
+      return {
+        kind,
+        text: tokenText(sql, tokens),
+        tokens,
+        tables,
+        aliases,
+        target: writes ? writtenTable(tokens, verb) : null,
+        columns: kind === 'set' || kind === 'show' ? [] : referencedColumns(tokens, names),
+        readOnly: (kind === 'select' || kind === 'show') && !tokens.some((token) => token.kind === 'keyword' && WRITE_KEYWORDS.has(token.value)),
+      };
+    });
+}
+
+/**
+ * Column names referenced by a WHERE condition
+ */
+export function conditionColumns(condition: string): string[] {
+  return referencedColumns(tokenizeSql(condition), new Set());
+}
+
+/**
+ * Parse an INSERT, UPDATE or DELETE statement
+ * Values and conditions are kept as SQL text. Throws an `Error` saying what was
+ * expected where for anything else.
+ */
+export function parseDmlStatement(sql: string): DmlStatement {
+  const statements = parseSql(sql);
+  if (statements.length !== 1) {
+    throw new Error(statements.length === 0 ? 'Expected an INSERT, UPDATE or DELETE statement' : 'Expected a single statement');
+  }
+  const { kind, tokens } = statements[0];
+  let at = 0;
+
+  const expect = (what: string, matches: (token: SqlToken | undefined) => boolean): SqlToken => {
+    const token = tokens[at];
+    if (!matches(token)) throw new Error(`Expected ${what} ${near(sql, token)}`);
+    at++;
+    return token!;
+  };
+  const identifier = (what: string) => expect(what, (token) => token?.kind === 'identifier').value;
+  const keyword = (word: string) => expect(word.toUpperCase(), (token) => isKeyword(token, word));
+  const where = (): string | null => {
+    if (at >= tokens.length) return null;
+    keyword('where');
+    if (at >= tokens.length) throw new Error('Expected a condition after WHERE');
+    return tokenText(sql, tokens.slice(at));
+  };
+
+  switch (kind) {
+    case 'insert': {
+      keyword('insert');
+      keyword('into');
+      const table = identifier('a table name');
+      let columns: string[] | null = null;
+      if (isPunctuation(tokens[at], '(')) {
+        const close = tokens.findIndex((token, i) => i > at && isPunctuation(token, ')'));
+        if (close === -1) throw new Error(`Expected ) ${near(sql, undefined)}`);
+        columns = splitTokens(tokens.slice(at + 1, close), (token) => isPunctuation(token, ',')).map((part) => {
+          if (part.length !== 1 || part[0].kind !== 'identifier') throw new Error(`Expected a column name ${near(sql, part[0])}`);
+          return part[0].value;
+        });
+        at = close + 1;
+      }
+      keyword('values');
+      const rows = splitTokens(tokens.slice(at), (token) => isPunctuation(token, ',')).map((tuple) => {
+        if (!isPunctuation(tuple[0], '(') || !isPunctuation(tuple[tuple.length - 1], ')')) {
+          throw new Error(`Expected a parenthesized VALUES row ${near(sql, tuple[0])}`);
+        }
+        return splitTokens(tuple.slice(1, -1), (token) => isPunctuation(token, ',')).map((value) => {
+          if (value.length === 0) throw new Error(`Expected a value ${near(sql, tuple[0])}`);
+          return tokenText(sql, value);
+        });
+      });
+      return { kind, table, columns, rows };
+    }
+
+    case 'update': {
+      keyword('update');
+      const table = identifier('a table name');
+      keyword('set');
+      const whereAt = findTopLevel(tokens, 'where', at);
+      const end = whereAt === -1 ? tokens.length : whereAt;
+      const assignments = splitTokens(tokens.slice(at, end), (token) => isPunctuation(token, ',')).map((part) => {
+        if (part[0]?.kind !== 'identifier' || part[1]?.text !== '=' || part.length < 3) {
+          throw new Error(`Expected an assignment (column = value) ${near(sql, part[0])}`);
+        }
+        return { column: part[0].value, value: tokenText(sql, part.slice(2)) };
+      });
+      at = end;
+      return { kind, table, assignments, where: where() };
+    }
+
+    case 'delete': {
+      keyword('delete');
+      keyword('from');
+      const table = identifier('a table name');
+      return { kind, table, where: where() };
+    }
+
+    default:
+      throw new Error(`Expected an INSERT, UPDATE or DELETE statement, got ${statementLabel(kind)}`);
+  }
+}
+
+/**
+ * A statement kind for messages: "a SELECT", "an UPDATE", …
+ */
+export function statementLabel(kind: StatementKind): string {
+  if (kind === 'other') return 'an unsupported statement';
+  return `${kind === 'insert' || kind === 'update' ? 'an' : 'a'} ${kind.toUpperCase()}`;
+}
+
+/**
+ * Tables the statements write, or read when they write none
+ */
+export function touchedTables(statements: SqlStatement[]): string[] {
+  const written = statements.flatMap((statement) => (statement.target ? [statement.target] : []));
+  return [...new Set(written.length > 0 ? written : statements.flatMap((statement) => statement.tables))];
+}
+
+/**
+ * Whether `sql` holds only reads (SELECT or SHOW statements that write nothing)
+ * SQL that can't be tokenized counts as a write.
+ */
+export function isReadOnlySql(sql: string): boolean {
+  try {
+    const statements = parseSql(sql);
+    return statements.length > 0 && statements.every((statement) => statement.readOnly);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Table a single SELECT statement reads from first, or null
+ */
+export function selectTable(sql: string): string | null {
+  try {
+    const statements = parseSql(sql);
+    return statements.length === 1 && statements[0].kind === 'select' ? statements[0].tables[0] ?? null : null;
+  } catch {
+    return null;
+  }
+}
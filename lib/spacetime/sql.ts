@@ -0,0 +1,275 @@
+/**
+ * SQL statement building for SpacetimeDB
+ * Renders decoded row values as SQL literals based on column display types.
+ */
+
+import { columnInputKind, formatTimestampMicros, type EditableColumn } from './column-values';
+
+// A plain or double-quoted identifier
+const IDENTIFIER = `("(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_]*)`;
+
+function unquoteIdentifier(name: string): string {
+  return name.startsWith('"') ? name.slice(1, -1).replace(/""/g, '"') : name;
+}
+
+/**
+ * Quote an identifier when it isn't a plain lowercase-safe name
+ */
+export function quoteIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Whether values of this column can be written as SQL literals
+ * Structs, enums, arrays and maps have no literal syntax and need a reducer.
+ */
+export function isSqlWritable(column: EditableColumn): boolean {
+  return columnInputKind(column.dataType) !== 'json';
+}
+
+/**
+ * Render a value as a SQL literal for the given column
+ */
+export function sqlLiteral(column: EditableColumn, value: unknown): string {
+  if (value === null || value === undefined) {
+    if (!column.nullable) throw new Error(`${column.name}: NULL is not allowed`);
+    return 'NULL';
+  }
+
+  switch (columnInputKind(column.dataType)) {
+    case 'bool':
+      return value ? 'true' : 'false';
+    case 'integer':
+    case 'float':
+    case 'duration':
+      return String(value);
+    case 'identity':
+      return String(value).startsWith('0x') ? String(value) : `0x${value}`;
+    case 'timestamp':
+      return `'${formatTimestampMicros(Number(value))}'`;
+    case 'string':
+      return `'${String(value).replace(/'/g, "''")}'`;
+    default:
+      throw new Error(`${column.name}: ${column.dataType} values can't be written in SQL; use a reducer`);
+  }
+}
+
+/**
+ * Columns identifying a single row: the primary key when there is one, otherwise every SQL-writable column
+ */
+function rowKeyColumns(columns: EditableColumn[], primaryKey: string[]): EditableColumn[] {
+  const keyColumns = primaryKey.length > 0
+    ? columns.filter((col) => primaryKey.includes(col.name))
+    : columns.filter(isSqlWritable);
+
+  if (keyColumns.length === 0 || keyColumns.some((col) => !isSqlWritable(col))) {
+    throw new Error('Cannot identify the row in SQL: no usable key columns');
+  }
+  return keyColumns;
+}
+
+/**
+ * WHERE clause identifying a single row
+ * Uses the primary key when there is one, otherwise every SQL-writable column.
+ */
+export function rowWhereClause(
+  columns: EditableColumn[],
+  primaryKey: string[],
+  row: Record<string, unknown>
+): string {
+  return rowKeyColumns(columns, primaryKey)
+    .map((col) => {
+      const value = row[col.name];
+      return value === null || value === undefined
+        ? `${quoteIdentifier(col.name)} IS NULL`
+        : `${quoteIdentifier(col.name)} = ${sqlLiteral(col, value)}`;
+    })
+    .join(' AND ');
+}
+
+/**
+ * WHERE clause identifying a single row with `$1`, `$2`, … placeholders, and the values to bind to them
+ * `offset` is the number of placeholders earlier in the statement.
+ */
+export function rowWhereParams(
+  columns: EditableColumn[],
+  primaryKey: string[],
+  row: Record<string, unknown>,
+  offset = 0
+): { where: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const conditions = rowKeyColumns(columns, primaryKey).map((col) => {
+    const value = row[col.name];
+    if (value === null || value === undefined) return `${quoteIdentifier(col.name)} IS NULL`;
+    params.push(value);
+    return `${quoteIdentifier(col.name)} = $${offset + params.length}`;
+  });
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * UPDATE statement setting `changes` on the row identified by `original`, with
+ * placeholders for every value; the server binds them as typed literals
+ */
+export function updateRowParams(
+  tableName: string,
+  columns: EditableColumn[],
+  primaryKey: string[],
+  original: Record<string, unknown>,
+  changes: Record<string, unknown>
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const assignments = Object.entries(changes).map(([name, value]) => {
+    const column = columns.find((col) => col.name === name);
+    if (!column) throw new Error(`Unknown column: ${name}`);
+    if (!isSqlWritable(column)) throw new Error(`${name}: ${column.dataType} values can't be written in SQL; use a reducer`);
+    params.push(value ?? null);
+    return `${quoteIdentifier(name)} = $${params.length}`;
+  });
+
+  if (assignments.length === 0) {
+    throw new Error('No changes to save');
+  }
+
+  const { where, params: whereParams } = rowWhereParams(columns, primaryKey, original, params.length);
+  return {
+    sql: `UPDATE ${quoteIdentifier(tableName)} SET ${assignments.join(', ')} WHERE ${where}`,
+    params: [...params, ...whereParams],
+  };
+}
+
+/**
+ * INSERT statement for one row with a placeholder for every value
+ * Omitted auto-increment columns are written as 0, which makes the sequence assign them.
+ */
+export function insertRowParams(
+  tableName: string,
+  columns: (EditableColumn & { isAutoIncrement?: boolean })[],
+  values: Record<string, unknown>
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const placeholders = columns.map((column) => {
+    const value = values[column.name];
+    if (value === undefined && column.isAutoIncrement) return '0';
+    if (value === undefined) throw new Error(`${column.name}: value is required`);
+    if (!isSqlWritable(column)) throw new Error(`${column.name}: ${column.dataType} values can't be written in SQL; use a reducer`);
+    params.push(value);
+    return `$${params.length}`;
+  });
+
+  return {
+    sql: `INSERT INTO ${quoteIdentifier(tableName)} (${columns.map((col) => quoteIdentifier(col.name)).join(', ')}) VALUES (${placeholders.join(', ')})`,
+    params,
+  };
+}
+
+/**
+ * INSERT statement for one row
+ * Omitted auto-increment columns are written as 0, which makes the sequence assign them.
+ */
+export function buildInsertStatement(
+  tableName: string,
+  columns: (EditableColumn & { isAutoIncrement?: boolean })[],
+  values: Record<string, unknown>
+): string {
+  const literals = columns.map((column) => {
+    const value = values[column.name];
+    if (value === undefined && column.isAutoIncrement) return '0';
+    if (value === undefined) throw new Error(`${column.name}: value is required`);
+    return sqlLiteral(column, value);
+  });
+
+  return `INSERT INTO ${quoteIdentifier(tableName)} (${columns.map((col) => quoteIdentifier(col.name)).join(', ')}) VALUES (${literals.join(', ')})`;
+}
+
+export interface OrderTerm {
+  column: string;
+  descending: boolean;
+}
+
+/**
+ * Parse an ORDER BY list (`score DESC, name`) into sort terms
+ * SpacetimeDB SQL has no ORDER BY, so results are sorted by the portal instead.
+ */
+export function parseOrderBy(orderBy: string): OrderTerm[] {
+  return orderBy
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => {
+      const match = new RegExp(`^${IDENTIFIER}(?:\\s+(asc|desc))?$`, 'i').exec(term);
+      if (!match) throw new Error(`Invalid sort term: ${term}`);
+      return {
+        column: unquoteIdentifier(match[1]),
+        descending: match[2]?.toLowerCase() === 'desc',
+      };
+    });
+}
+
+/**
+ * Render sort terms back into an ORDER BY list
+ */
+export function formatOrderBy(terms: OrderTerm[]): string {
+  return terms.map((term) => `${quoteIdentifier(term.column)}${term.descending ? ' DESC' : ''}`).join(', ');
+}
+
+// `{{name}}` placeholders in saved queries
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Names of the `{{name}}` placeholders in `sql`, in order of first appearance
+ */
+export function queryPlaceholders(sql: string): string[] {
+  return [...new Set(Array.from(sql.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))];
+}
+
+// Quoted text, where '' is an escaped quote
+const STRING_LITERAL = /'(?:[^']|'')*'/g;
+
+/**
+ * Value typed in for an unquoted placeholder: numbers and booleans as such, anything else as text
+ */
+function placeholderValue(text: string): unknown {
+  const trimmed = text.trim();
+  if (/^-?\d+$/.test(trimmed)) {
+    const value = BigInt(trimmed);
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+  if (/^-?\d*\.\d+(e[+-]?\d+)?$/i.test(trimmed)) return Number(trimmed);
+  if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+  return text;
+}
+
+/**
+ * Rewrite `{{name}}` placeholders as `:name` parameters, returning the values to bind
+ * The server binds them as literals typed by the columns they meet, so values can't
+ * change the statement. A quoted placeholder (`'{{name}}'`) is bound as text; one
+ * inside longer quoted text can't be bound and is rejected.
+ */
+export function placeholderParams(sql: string, values: Record<string, string>): { sql: string; params: Record<string, unknown> } {
+  const params: Record<string, unknown> = {};
+  const bind = (name: string, quoted: boolean) => {
+    const value = values[name];
+    if (value === undefined) throw new Error(`No value for {{${name}}}`);
+    params[name] = quoted ? value : placeholderValue(value);
+    return `:${name}`;
+  };
+
+  let bound = '';
+  let at = 0;
+  for (const literal of sql.matchAll(STRING_LITERAL)) {
+    bound += sql.slice(at, literal.index).replace(PLACEHOLDER_PATTERN, (_match, name: string) => bind(name, false));
+    const [placeholder, ...others] = Array.from(literal[0].matchAll(PLACEHOLDER_PATTERN));
+    if (!placeholder) {
+      bound += literal[0];
+    } else if (others.length === 0 && placeholder[0] === literal[0].slice(1, -1)) {
+      bound += bind(placeholder[1], true);
+    } else {
+      throw new Error(`{{${placeholder[1]}}} must be the whole quoted value, as in '{{${placeholder[1]}}}'`);
+    }
+    at = literal.index! + literal[0].length;
+  }
+  bound += sql.slice(at).replace(PLACEHOLDER_PATTERN, (_match, name: string) => bind(name, false));
+
+  return { sql: bound, params };
+}
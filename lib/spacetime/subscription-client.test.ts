@@ -0,0 +1,228 @@
+/**
+ * SpacetimeSubscriptionClient against a local fake SpacetimeDB WebSocket server
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import {
+  JSON_PROTOCOL,
+  SpacetimeSubscriptionClient,
+  type SubscriptionHandlers,
+  type TableRowChanges,
+  type WebSocketConstructor,
+} from './subscription-client';
+
+/**
+ * Speaks just enough of the v1 JSON protocol: records client messages and
+ * lets the test push server messages or drop the connection
+ */
+class FakeSpacetimeServer {
+  private server!: WebSocketServer;
+  private socket: WebSocket | null = null;
+  private waiters: (() => void)[] = [];
+  messages: any[] = [];
+  connections: { url: string; protocol: string }[] = [];
+
+  async start(): Promise<string> {
+    this.server = new WebSocketServer({
+      host: '127.0.0.1',
+      port: 0,
+      handleProtocols: (protocols) => (protocols.has(JSON_PROTOCOL) ? JSON_PROTOCOL : false),
+    });
+    this.server.on('connection', (socket, request) => {
+      this.socket = socket;
+      this.connections.push({ url: request.url ?? '', protocol: socket.protocol });
+      socket.on('message', (data) => {
+        this.messages.push(JSON.parse(data.toString()));
+        this.notify();
+      });
+      this.notify();
+    });
+    await new Promise<void>((resolve) => this.server.once('listening', resolve));
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.server.clients) client.terminate();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  send(message: unknown): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  // Close the current connection as the server would on a restart
+  drop(): void {
+    this.socket?.close(1012, 'Service restart');
+    this.socket = null;
+  }
+
+  /**
+   * Resolve once `predicate` holds, re-checked after every connection and message
+   */
+  async waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for the fake server');
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+        setTimeout(resolve, 50);
+      });
+    }
+  }
+
+  private notify(): void {
+    for (const resolve of this.waiters.splice(0)) resolve();
+  }
+}
+
+function tableUpdate(tableName: string, inserts: unknown[][], deletes: unknown[][] = []) {
+  return {
+    table_id: 4096,
+    table_name: tableName,
+    num_rows: inserts.length,
+    updates: [{ inserts: inserts.map((row) => JSON.stringify(row)), deletes: deletes.map((row) => JSON.stringify(row)) }],
+  };
+}
+
+function recordingHandlers() {
+  const applied: unknown[][][] = [];
+  const updates: TableRowChanges[] = [];
+  const errors: string[] = [];
+  const handlers: SubscriptionHandlers = {
+    onApplied: (rows) => applied.push(rows),
+    onUpdate: (changes) => updates.push(changes),
+    onError: (error) => errors.push(error),
+  };
+  return { applied, updates, errors, handlers };
+}
+
+describe('SpacetimeSubscriptionClient', () => {
+  let server: FakeSpacetimeServer;
+  let client: SpacetimeSubscriptionClient;
+  let uri: string;
+
+  beforeEach(async () => {
+    server = new FakeSpacetimeServer();
+    uri = await server.start();
+    client = new SpacetimeSubscriptionClient({
+      uri,
+      module: 'game',
+      token: 'secret',
+      WebSocketImpl: WebSocket as unknown as WebSocketConstructor,
+    });
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  const subscribes = () => server.messages.filter((message) => message.SubscribeSingle);
+
+  it('connects on the first subscription and sends SubscribeSingle', async () => {
+    const { handlers } = recordingHandlers();
+    client.subscribe('SELECT * FROM player', handlers);
+
+    await server.waitFor(() => subscribes().length === 1);
+    expect(server.connections).toEqual([
+      { url: '/v1/database/game/subscribe?token=secret', protocol: JSON_PROTOCOL },
+    ]);
+    expect(subscribes()[0].SubscribeSingle).toEqual({
+      query: 'SELECT * FROM player',
+      request_id: 1,
+      query_id: { id: 1 },
+    });
+    expect(client.getStatus()).toMatchObject({ connected: true, connecting: false, retryCount: 0 });
+  });
+
+  it('delivers the initial rows from SubscribeApplied', async () => {
+    const { applied, handlers } = recordingHandlers();
+    client.subscribe('SELECT * FROM player', handlers);
+    await server.waitFor(() => subscribes().length === 1);
+
+    server.send({
+      SubscribeApplied: {
+        request_id: 1,
+        total_host_execution_duration_micros: 10,
+        query_id: { id: 1 },
+        rows: { table_id: 4096, table_name: 'player', table_rows: tableUpdate('player', [[1, 'ada'], [2, 'bob']]) },
+      },
+    });
+
+    await server.waitFor(() => applied.length === 1);
+    expect(applied[0]).toEqual([[1, 'ada'], [2, 'bob']]);
+  });
+
+  it('routes inserts and deletes to subscriptions on the changed table', async () => {
+    const player = recordingHandlers();
+    const item = recordingHandlers();
+    client.subscribe('SELECT * FROM player', player.handlers);
+    client.subscribe('SELECT * FROM item', item.handlers);
+    await server.waitFor(() => subscribes().length === 2);
+
+    server.send({
+      TransactionUpdate: {
+        status: { Committed: { tables: [tableUpdate('player', [[3, 'cy']], [[1, 'ada']])] } },
+        timestamp: { __timestamp_micros_since_unix_epoch__: 0 },
+      },
+    });
+    server.send({ TransactionUpdateLight: { request_id: 9, update: { tables: [tableUpdate('player', [[4, 'di']])] } } });
+
+    await server.waitFor(() => player.updates.length === 2);
+    expect(player.updates).toEqual([
+      { tableName: 'player', inserts: [[3, 'cy']], deletes: [[1, 'ada']] },
+      { tableName: 'player', inserts: [[4, 'di']], deletes: [] },
+    ]);
+    expect(item.updates).toEqual([]);
+  });
+
+  it('reconnects and resubscribes after the server drops the connection', async () => {
+    const { applied, handlers } = recordingHandlers();
+    const statuses: boolean[] = [];
+    client.onStatusChange((status) => statuses.push(status.connected));
+    client.subscribe('SELECT * FROM player', handlers);
+    await server.waitFor(() => subscribes().length === 1);
+
+    server.drop();
+    await server.waitFor(() => client.getStatus().retryCount === 1);
+    expect(client.getStatus()).toMatchObject({ connected: false, connecting: true, error: 'Service restart' });
+
+    // The first retry waits one second
+    await server.waitFor(() => subscribes().length === 2);
+    expect(server.connections).toHaveLength(2);
+    expect(subscribes()[1].SubscribeSingle.query_id).toEqual({ id: 1 });
+
+    server.send({
+      SubscribeApplied: {
+        request_id: 1,
+        total_host_execution_duration_micros: 10,
+        query_id: { id: 1 },
+        rows: { table_id: 4096, table_name: 'player', table_rows: tableUpdate('player', [[1, 'ada']]) },
+      },
+    });
+    await server.waitFor(() => applied.length === 1);
+    expect(client.getStatus()).toMatchObject({ connected: true, retryCount: 0 });
+    expect(statuses).toContain(false);
+    expect(statuses.at(-1)).toBe(true);
+  });
+
+  it('sends Unsubscribe and stops delivering updates', async () => {
+    const { updates, handlers } = recordingHandlers();
+    // Updates arrive in order, so one reaching the probe means the earlier one was handled
+    const probe = recordingHandlers();
+    const unsubscribe = client.subscribe('SELECT * FROM player', handlers);
+    client.subscribe('SELECT * FROM item', probe.handlers);
+    await server.waitFor(() => subscribes().length === 2);
+
+    unsubscribe();
+    await server.waitFor(() => server.messages.some((message) => message.Unsubscribe));
+    expect(server.messages.find((message) => message.Unsubscribe).Unsubscribe.query_id).toEqual({ id: 1 });
+
+    server.send({ TransactionUpdateLight: { request_id: 9, update: { tables: [tableUpdate('player', [[5, 'ed']])] } } });
+    server.send({ TransactionUpdateLight: { request_id: 10, update: { tables: [tableUpdate('item', [[1, 'sword']])] } } });
+    await server.waitFor(() => probe.updates.length === 1);
+    expect(updates).toEqual([]);
+  });
+});
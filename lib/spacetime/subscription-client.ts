@@ -0,0 +1,324 @@
+/**
+ * SpacetimeDB WebSocket Subscription Client
+ * Speaks the v1 client protocol with JSON text frames (`v1.json.spacetimedb`).
+ *
+ * Browser-safe: takes its settings as options instead of reading `config`,
+ * and accepts a WebSocket constructor so it can run against a fake server.
+ */
+
+import { parseJsonLossless } from './json';
+import type { ConnectionStatus } from '@/types/spacetime';
+
+export const JSON_PROTOCOL = 'v1.json.spacetimedb';
+
+/**
+ * The subset of the WebSocket API the client relies on
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  // Text frames carry strings; binary frames are ignored
+  onmessage: ((event: { data: string }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocketLike;
+
+export interface SubscriptionClientOptions {
+  // WebSocket base URI, e.g. wss://maincloud.spacetimedb.com
+  uri: string;
+  module: string;
+  // Short-lived WebSocket token; anonymous connections only see public tables
+  token?: string;
+  maxRetries?: number;
+  // Exponential backoff base in seconds
+  retryBackoff?: number;
+  WebSocketImpl?: WebSocketConstructor;
+}
+
+/**
+ * Inserted and deleted rows for one table, as raw SATS-JSON product arrays
+ */
+export interface TableRowChanges {
+  tableName: string;
+  inserts: unknown[][];
+  deletes: unknown[][];
+}
+
+export interface SubscriptionHandlers {
+  // Initial rows matching the query; also delivered again after a reconnect
+  onApplied: (rows: unknown[][]) => void;
+  onUpdate: (changes: TableRowChanges) => void;
+  onError?: (error: string) => void;
+}
+
+interface ActiveSubscription {
+  query: string;
+  queryId: number;
+  requestId: number;
+  handlers: SubscriptionHandlers;
+}
+
+const OPEN = 1;
+
+export class SpacetimeSubscriptionClient {
+  private options: Required<Omit<SubscriptionClientOptions, 'token' | 'WebSocketImpl'>> &
+    Pick<SubscriptionClientOptions, 'token'>;
+  private WebSocketImpl: WebSocketConstructor;
+  private socket: WebSocketLike | null = null;
+  private subscriptions = new Map<number, ActiveSubscription>();
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  private status: ConnectionStatus = { connected: false, connecting: false, retryCount: 0 };
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+  private closed = false;
+
+  constructor(options: SubscriptionClientOptions) {
+    this.options = {
+      uri: options.uri.replace(/\/+$/, ''),
+      module: options.module,
+      token: options.token,
+      maxRetries: options.maxRetries ?? 3,
+      retryBackoff: options.retryBackoff ?? 2,
+    };
+
+    const Impl = options.WebSocketImpl ?? (globalThis as any).WebSocket;
+    if (!Impl) {
+      throw new Error('WebSocket is not available in this environment');
+    }
+    this.WebSocketImpl = Impl;
+  }
+
+  /**
+   * Subscribe to a query; returns a function that unsubscribes
+   * Connects lazily on the first subscription.
+   */
+  subscribe(query: string, handlers: SubscriptionHandlers): () => void {
+    const id = this.nextId++;
+    const subscription: ActiveSubscription = { query, queryId: id, requestId: id, handlers };
+    this.subscriptions.set(id, subscription);
+
+    if (this.socket?.readyState === OPEN) {
+      this.sendSubscribe(subscription);
+    } else {
+      this.connect();
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+      if (this.socket?.readyState === OPEN) {
+        this.send({ Unsubscribe: { request_id: this.nextId++, query_id: { id } } });
+      }
+    };
+  }
+
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.subscriptions.clear();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.socket?.close(1000, 'Client closed');
+    this.socket = null;
+    this.setStatus({ connected: false, connecting: false });
+  }
+
+  private connect(): void {
+    if (this.closed || this.socket) return;
+
+    const { uri, module, token } = this.options;
+    const url = `${uri}/v1/database/${encodeURIComponent(module)}/subscribe` +
+      (token ? `?token=${encodeURIComponent(token)}` : '');
+
+    this.setStatus({ connecting: true, error: undefined });
+
+    let socket: WebSocketLike;
+    try {
+      socket = new this.WebSocketImpl(url, [JSON_PROTOCOL]);
+    } catch (error) {
+      this.handleDisconnect(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.setStatus({
+        connected: true,
+        connecting: false,
+        error: undefined,
+        lastConnected: new Date(),
+        retryCount: 0,
+      });
+      for (const subscription of this.subscriptions.values()) {
+        this.sendSubscribe(subscription);
+      }
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') {
+        console.warn('[Subscription] Ignoring binary frame; expected JSON protocol');
+        return;
+      }
+      try {
+        this.handleMessage(parseJsonLossless(event.data));
+      } catch (error) {
+        console.error('[Subscription] Failed to handle message:', error);
+      }
+    };
+
+    socket.onerror = () => {
+      this.setStatus({ error: 'WebSocket error' });
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      const reason = event.reason || `Connection closed (${event.code})`;
+      this.handleDisconnect(reason);
+    };
+  }
+
+  private handleDisconnect(reason: string): void {
+    if (this.closed) return;
+
+    const retryCount = this.status.retryCount + 1;
+    if (retryCount > this.options.maxRetries || this.subscriptions.size === 0) {
+      this.setStatus({ connected: false, connecting: false, error: reason });
+      for (const subscription of this.subscriptions.values()) {
+        subscription.handlers.onError?.(reason);
+      }
+      return;
+    }
+
+    const delay = Math.pow(this.options.retryBackoff, retryCount - 1) * 1000;
+    this.setStatus({ connected: false, connecting: true, error: reason, retryCount });
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleMessage(message: any): void {
+    if (!message || typeof message !== 'object') return;
+
+    if (message.SubscribeApplied) {
+      const { query_id, rows } = message.SubscribeApplied;
+      const subscription = this.subscriptions.get(query_id?.id);
+      if (!subscription) return;
+      const changes = readTableUpdate(rows?.table_rows ?? rows);
+      subscription.handlers.onApplied(changes.inserts);
+      return;
+    }
+
+    if (message.SubscriptionError) {
+      const { query_id, request_id, error } = message.SubscriptionError;
+      const id = optionValue(query_id) ?? optionValue(request_id);
+      const targets = id !== undefined
+        ? [this.subscriptions.get(Number(id))].filter(Boolean)
+        : Array.from(this.subscriptions.values());
+      for (const subscription of targets) {
+        subscription!.handlers.onError?.(String(error));
+      }
+      return;
+    }
+
+    if (message.TransactionUpdate) {
+      const status = message.TransactionUpdate.status;
+      if (status?.Committed) this.dispatchUpdate(status.Committed);
+      return;
+    }
+
+    if (message.TransactionUpdateLight) {
+      this.dispatchUpdate(message.TransactionUpdateLight.update);
+      return;
+    }
+
+    // IdentityToken, UnsubscribeApplied and one-off query responses need no handling
+  }
+
+  private dispatchUpdate(databaseUpdate: any): void {
+    for (const tableUpdate of databaseUpdate?.tables ?? []) {
+      const changes = readTableUpdate(tableUpdate);
+      if (changes.inserts.length === 0 && changes.deletes.length === 0) continue;
+
+      for (const subscription of this.subscriptions.values()) {
+        if (queryTable(subscription.query) === changes.tableName.toLowerCase()) {
+          subscription.handlers.onUpdate(changes);
+        }
+      }
+    }
+  }
+
+  private sendSubscribe(subscription: ActiveSubscription): void {
+    this.send({
+      SubscribeSingle: {
+        query: subscription.query,
+        request_id: subscription.requestId,
+        query_id: { id: subscription.queryId },
+      },
+    });
+  }
+
+  private send(message: unknown): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private setStatus(patch: Partial<ConnectionStatus>): void {
+    this.status = { ...this.status, ...patch };
+    for (const listener of this.statusListeners) {
+      listener(this.status);
+    }
+  }
+}
+
+/**
+ * Flatten a TableUpdate into raw row arrays
+ * JSON-protocol rows arrive as JSON-encoded strings.
+ */
+function readTableUpdate(raw: any): TableRowChanges {
+  const changes: TableRowChanges = {
+    tableName: String(raw?.table_name ?? ''),
+    inserts: [],
+    deletes: [],
+  };
+
+  for (const update of raw?.updates ?? []) {
+    const queryUpdate = update?.Uncompressed ?? update;
+    changes.inserts.push(...readRows(queryUpdate?.inserts));
+    changes.deletes.push(...readRows(queryUpdate?.deletes));
+  }
+
+  return changes;
+}
+
+function readRows(raw: unknown): unknown[][] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((row) => (typeof row === 'string' ? parseJsonLossless(row) : row) as unknown[]);
+}
+
+function optionValue(raw: any): unknown {
+  if (raw && typeof raw === 'object' && 'some' in raw) return raw.some;
+  if (raw && typeof raw === 'object' && 'none' in raw) return undefined;
+  return raw ?? undefined;
+}
+
+/**
+ * Table name of a `SELECT ... FROM <table>` subscription query
+ */
+function queryTable(query: string): string | undefined {
+  return /\bfrom\s+"?([A-Za-z_][\w]*)"?/i.exec(query)?.[1]?.toLowerCase();
+}
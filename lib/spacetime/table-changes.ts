@@ -0,0 +1,107 @@
+/**
+ * Table change tracking
+ * Snapshots whole tables before and after an action such as a reducer call and
+ * reports the rows it inserted, updated or deleted. Snapshots aren't isolated
+ * from other writers, so concurrent changes show up too.
+ */
+
+import { selectRows } from './bulk';
+import { stringifyWire } from './json';
+import { schemaDiscovery } from './schema-discovery';
+import type { ReducerTableChanges } from '@/types/api';
+import type { TableMetadata } from '@/types/spacetime';
+
+type Row = Record<string, unknown>;
+
+// Tables with more rows aren't diffed
+export const MAX_SNAPSHOT_ROWS = 10000;
+
+// Changed rows of each kind kept per table
+const MAX_CHANGED_ROWS = 100;
+
+export interface TableSnapshot {
+  name: string;
+  table: TableMetadata | null;
+  rows: Row[];
+  error?: string;
+}
+
+/**
+ * Read every row of each table; a table that can't be read is returned with an `error`
+ */
+export async function snapshotTables(names: string[]): Promise<TableSnapshot[]> {
+  return Promise.all(
+    names.map(async (name): Promise<TableSnapshot> => {
+      try {
+        const table = await schemaDiscovery.getTable(name);
+        const rows = await selectRows(table, null);
+        if (rows.length > MAX_SNAPSHOT_ROWS) {
+          return { name, table, rows: [], error: `More than ${MAX_SNAPSHOT_ROWS} rows; not snapshotted` };
+        }
+        return { name, table, rows };
+      } catch (error) {
+        return { name, table: null, rows: [], error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+}
+
+function rowIdentity(row: Row, keys: string[] | null): string {
+  return stringifyWire(keys ? keys.map((key) => row[key]) : row);
+}
+
+/**
+ * Rows that differ between two snapshots of one table
+ * Keyed tables match rows by primary key, so a changed row is an update; otherwise
+ * rows are compared whole and a changed row is a delete plus an insert.
+ */
+export function diffSnapshots(before: TableSnapshot, after: TableSnapshot): ReducerTableChanges {
+  const error = before.error ?? after.error;
+  const table = after.table ?? before.table;
+  if (error || !table) {
+    return {
+      table: before.name,
+      primaryKey: [],
+      counts: { inserted: 0, updated: 0, deleted: 0 },
+      inserted: [],
+      updated: [],
+      deleted: [],
+      error: error ?? `Unknown table: ${before.name}`,
+    };
+  }
+
+  const keys = table.primaryKey.length > 0 ? table.primaryKey : null;
+  const inserted: Row[] = [];
+  const updated: ReducerTableChanges['updated'] = [];
+
+  // Rows not seen again after the call are the deleted ones
+  const remaining = new Map<string, Row[]>();
+  for (const row of before.rows) {
+    const identity = rowIdentity(row, keys);
+    remaining.set(identity, [...(remaining.get(identity) ?? []), row]);
+  }
+
+  for (const row of after.rows) {
+    const identity = rowIdentity(row, keys);
+    const matches = remaining.get(identity);
+    const previous = matches?.shift();
+    if (matches && matches.length === 0) remaining.delete(identity);
+
+    if (!previous) {
+      inserted.push(row);
+    } else if (keys && stringifyWire(previous) !== stringifyWire(row)) {
+      updated.push({ before: previous, after: row });
+    }
+  }
+  const deleted = [...remaining.values()].flat();
+
+  return {
+    table: table.name,
+    primaryKey: table.primaryKey,
+    columnTypes: Object.fromEntries(table.columns.map((column) => [column.name, column.dataType])),
+    counts: { inserted: inserted.length, updated: updated.length, deleted: deleted.length },
+    inserted: inserted.slice(0, MAX_CHANGED_ROWS),
+    updated: updated.slice(0, MAX_CHANGED_ROWS),
+    deleted: deleted.slice(0, MAX_CHANGED_ROWS),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Zod schemas derived from table column metadata
+ * Validates row values (as produced by `fromInputValue`) before they are written.
+ */
+
+import { z } from 'zod';
+import { integerRange, isIntegerKind } from './sats';
+import { columnInputKind } from './column-values';
+import type { ColumnMetadata } from '@/types/spacetime';
+
+type SchemaColumn = Pick<ColumnMetadata, 'name' | 'dataType' | 'nullable' | 'isAutoIncrement'>;
+
+/**
+ * Runtime schema for one column's value
+ */
+export function columnSchema(column: SchemaColumn): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+
+  switch (columnInputKind(column.dataType)) {
+    case 'bool':
+      schema = z.boolean();
+      break;
+    case 'integer': {
+      const [min, max] = integerRange(column.dataType);
+      schema = z
+        .union([z.number().int(), z.bigint()])
+        .refine((value) => BigInt(value) >= min && BigInt(value) <= max, {
+          message: `Must be between ${min} and ${max}`,
+        });
+      break;
+    }
+    case 'float':
+      schema = z.number().finite();
+      break;
+    case 'string':
+      schema = z.string();
+      break;
+    case 'identity':
+      schema = z.string().regex(/^0x[0-9a-f]+$/i, 'Must be a hex string');
+      break;
+    case 'timestamp':
+    case 'duration':
+      schema = z.number().int();
+      break;
+    default:
+      schema = z.unknown().refine((value) => value !== undefined, { message: 'Required' });
+  }
+
+  return column.nullable ? schema.nullable() : schema;
+}
+
+/**
+ * Runtime schema for a whole row
+ * Auto-increment columns are optional; the sequence assigns them when omitted.
+ */
+export function rowSchema(columns: SchemaColumn[]) {
+  return z.object(
+    Object.fromEntries(
+      columns.map((column) => {
+        const schema = columnSchema(column);
+        return [column.name, column.isAutoIncrement ? schema.optional() : schema];
+      })
+    )
+  );
+}
+
+/**
+ * Zod source code equivalent to `rowSchema`, for display and code generation
+ */
+export function rowSchemaSource(columns: SchemaColumn[]): string {
+  const fields = columns.map((column) => {
+    let source = columnSchemaSource(column);
+    if (column.nullable) source += '.nullable()';
+    if (column.isAutoIncrement) source += '.optional()';
+    const key = /^[A-Za-z_$][\w$]*$/.test(column.name) ? column.name : JSON.stringify(column.name);
+    return `  ${key}: ${source},`;
+  });
+  return `z.object({\n${fields.join('\n')}\n})`;
+}
+
+function columnSchemaSource(column: SchemaColumn): string {
+  switch (columnInputKind(column.dataType)) {
+    case 'bool':
+      return 'z.boolean()';
+    case 'integer': {
+      if (!isIntegerKind(column.dataType)) return 'z.number().int()';
+      const [min, max] = integerRange(column.dataType);
+      return Number.isSafeInteger(Number(max)) && Number.isSafeInteger(Number(min))
+        ? `z.number().int().min(${min}).max(${max})`
+        : `z.union([z.number().int(), z.bigint()]) /* ${min} to ${max} */`;
+    }
+    case 'float':
+      return 'z.number()';
+    case 'string':
+      return 'z.string()';
+    case 'identity':
+      return 'z.string().regex(/^0x[0-9a-f]+$/i)';
+    case 'timestamp':
+      return 'z.number().int() /* micros since Unix epoch */';
+    case 'duration':
+      return 'z.number().int() /* micros */';
+    default:
+      return `z.unknown() /* ${column.dataType} */`;
+  }
+}
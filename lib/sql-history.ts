@@ -0,0 +1,87 @@
+/**
+ * SQL console history
+ * Statements each user ran from the SQL console, kept per user in the portal
+ * data store (server-side only). Pinned entries are never trimmed.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJsonFile } from '@/lib/data-store';
+import type { SqlHistoryEntry } from '@/types/api';
+
+const HISTORY_FILE = 'sql-history.json';
+
+// Unpinned entries kept per user
+const MAX_UNPINNED = 200;
+
+type HistoryMap = Record<string, SqlHistoryEntry[]>;
+
+/**
+ * A user's history, pinned entries first, then newest first
+ */
+export async function listHistory(userId: string): Promise<SqlHistoryEntry[]> {
+  const history = await readJsonFile<HistoryMap>(HISTORY_FILE, {});
+  return [...(history[userId] ?? [])].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.executedAt.localeCompare(a.executedAt)
+  );
+}
+
+export async function addHistory(
+  userId: string,
+  entry: Omit<SqlHistoryEntry, 'id' | 'executedAt' | 'pinned'>
+): Promise<SqlHistoryEntry> {
+  const created: SqlHistoryEntry = {
+    id: randomUUID(),
+    executedAt: new Date().toISOString(),
+    pinned: false,
+    ...entry,
+  };
+
+  return updateJsonFile<HistoryMap, SqlHistoryEntry>(HISTORY_FILE, {}, (history) => {
+    // Re-running the latest statement updates it rather than adding a duplicate
+    const entries = (history[userId] ?? []).filter(
+      (existing, index) => !(index === 0 && !existing.pinned && existing.sql === created.sql)
+    );
+    entries.unshift(created);
+
+    let unpinned = 0;
+    history[userId] = entries.filter((existing) => existing.pinned || ++unpinned <= MAX_UNPINNED);
+    return { data: history, result: created };
+  });
+}
+
+/**
+ * Pin or unpin an entry, returning null if the user has no such entry
+ */
+export async function setHistoryPinned(
+  userId: string,
+  id: string,
+  pinned: boolean
+): Promise<SqlHistoryEntry | null> {
+  return updateJsonFile<HistoryMap, SqlHistoryEntry | null>(HISTORY_FILE, {}, (history) => {
+    const entry = history[userId]?.find((existing) => existing.id === id);
+    if (entry) entry.pinned = pinned;
+    return { data: history, result: entry ?? null };
+  });
+}
+
+/**
+ * Remove one entry, returning whether it existed
+ */
+export async function deleteHistory(userId: string, id: string): Promise<boolean> {
+  return updateJsonFile<HistoryMap, boolean>(HISTORY_FILE, {}, (history) => {
+    const entries = history[userId] ?? [];
+    history[userId] = entries.filter((existing) => existing.id !== id);
+    return { data: history, result: history[userId].length < entries.length };
+  });
+}
+
+/**
+ * Remove every unpinned entry, returning how many were removed
+ */
+export async function clearHistory(userId: string): Promise<number> {
+  return updateJsonFile<HistoryMap, number>(HISTORY_FILE, {}, (history) => {
+    const entries = history[userId] ?? [];
+    history[userId] = entries.filter((existing) => existing.pinned);
+    return { data: history, result: entries.length - history[userId].length };
+  });
+}
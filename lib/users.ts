@@ -0,0 +1,230 @@
+/**
+ * Portal user accounts
+ * Users, credentials and roles are stored in better-auth's local SQLite
+ * database; the portal's own signed sessions reference users by id.
+ * Writes go through the database adapter directly since accounts are managed
+ * by admins rather than through better-auth's sign-up endpoints.
+ */
+
+import { getMigrations } from 'better-auth/db';
+import { auth } from '@/lib/auth';
+import { isRole } from '@/lib/permissions';
+import type { PortalUser, Role } from '@/types/auth';
+
+const CREDENTIAL_PROVIDER = 'credential';
+
+// Placeholder domain for accounts created without an email address
+const LOCAL_EMAIL_DOMAIN = 'portal.local';
+
+interface StoredAccount {
+  userId: string;
+  providerId: string;
+  password?: string | null;
+}
+
+interface StoredUser {
+  id: string;
+  name: string;
+  email: string;
+  username?: string | null;
+  role?: string | null;
+  createdAt: Date | string;
+}
+
+let ready: Promise<void> | null = null;
+
+function toPortalUser(user: StoredUser): PortalUser {
+  return {
+    id: user.id,
+    username: user.username || user.email,
+    name: user.name,
+    email: user.email,
+    role: isRole(user.role) ? user.role : 'viewer',
+    createdAt: new Date(user.createdAt).toISOString(),
+  };
+}
+
+async function adapter() {
+  return (await auth.$context).adapter;
+}
+
+/**
+ * Create or migrate the auth tables and seed the first owner
+ * The first owner comes from AUTH_USERNAME/AUTH_PASSWORD, so existing
+ * single-user deployments keep working after upgrading.
+ */
+function ensureReady(): Promise<void> {
+  ready ??= (async () => {
+    const { runMigrations } = await getMigrations(auth.options);
+    await runMigrations();
+
+    if ((await (await adapter()).count({ model: 'user' })) > 0) return;
+
+    const username = process.env.AUTH_USERNAME;
+    const password = process.env.AUTH_PASSWORD;
+    if (!username || !password) return;
+
+    await insertUser({ username, password, role: 'owner' });
+    console.log(`[Users] Created owner account "${username}" from AUTH_USERNAME`);
+  })().catch((error) => {
+    ready = null;
+    throw error;
+  });
+  return ready;
+}
+
+export async function hasUsers(): Promise<boolean> {
+  await ensureReady();
+  return (await (await adapter()).count({ model: 'user' })) > 0;
+}
+
+async function findStoredUser(field: 'id' | 'username' | 'email', value: string): Promise<StoredUser | null> {
+  return (await adapter()).findOne<StoredUser>({ model: 'user', where: [{ field, value }] });
+}
+
+function credentialWhere(userId: string) {
+  return [
+    { field: 'userId', value: userId },
+    { field: 'providerId', value: CREDENTIAL_PROVIDER },
+  ];
+}
+
+export async function getUser(id: string): Promise<PortalUser | null> {
+  await ensureReady();
+  const user = await findStoredUser('id', id);
+  return user ? toPortalUser(user) : null;
+}
+
+export async function listUsers(): Promise<PortalUser[]> {
+  await ensureReady();
+  const users = await (await adapter()).findMany<StoredUser>({
+    model: 'user',
+    sortBy: { field: 'createdAt', direction: 'asc' },
+  });
+  return users.map(toPortalUser);
+}
+
+/**
+ * Check a username/password pair, returning the user when it matches
+ */
+export async function verifyCredentials(username: string, password: string): Promise<PortalUser | null> {
+  await ensureReady();
+  const ctx = await auth.$context;
+
+  const user = await findStoredUser('username', username);
+  const account = user
+    ? await ctx.adapter.findOne<StoredAccount>({ model: 'account', where: credentialWhere(user.id) })
+    : null;
+
+  if (!user || !account?.password) {
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    await ctx.password.hash(password);
+    return null;
+  }
+
+  return (await ctx.password.verify({ hash: account.password, password })) ? toPortalUser(user) : null;
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const ctx = await auth.$context;
+  const { minPasswordLength, maxPasswordLength } = ctx.password.config;
+  if (password.length < minPasswordLength || password.length > maxPasswordLength) {
+    throw new Error(`Password must be between ${minPasswordLength} and ${maxPasswordLength} characters`);
+  }
+  return ctx.password.hash(password);
+}
+
+interface NewUser {
+  username: string;
+  password: string;
+  role: Role;
+  name?: string;
+  email?: string;
+}
+
+export async function createUser(input: NewUser): Promise<PortalUser> {
+  await ensureReady();
+  return insertUser(input);
+}
+
+async function insertUser(input: NewUser): Promise<PortalUser> {
+  const username = input.username.trim();
+  if (!/^[A-Za-z0-9._-]{2,64}$/.test(username)) {
+    throw new Error('Username must be 2-64 letters, digits, dots, dashes or underscores');
+  }
+  const passwordHash = await hashPassword(input.password);
+
+  if (await findStoredUser('username', username)) {
+    throw new Error(`User "${username}" already exists`);
+  }
+
+  const email = (input.email?.trim() || `${username}@${LOCAL_EMAIL_DOMAIN}`).toLowerCase();
+  if (await findStoredUser('email', email)) {
+    throw new Error(`Email ${email} is already in use`);
+  }
+
+  const db = await adapter();
+  const now = new Date();
+  const user = await db.create<Record<string, unknown>, StoredUser>({
+    model: 'user',
+    data: {
+      name: input.name?.trim() || username,
+      email,
+      emailVerified: false,
+      username,
+      role: input.role,
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+  await db.create({
+    model: 'account',
+    data: {
+      userId: user.id,
+      providerId: CREDENTIAL_PROVIDER,
+      accountId: user.id,
+      password: passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+
+  return toPortalUser(user);
+}
+
+export async function updateUser(
+  id: string,
+  changes: { role?: Role; name?: string; password?: string }
+): Promise<PortalUser> {
+  await ensureReady();
+  const db = await adapter();
+  const now = new Date();
+
+  if (changes.password !== undefined) {
+    const password = await hashPassword(changes.password);
+    await db.update({ model: 'account', where: credentialWhere(id), update: { password, updatedAt: now } });
+  }
+
+  const update: Record<string, unknown> = {};
+  if (changes.role !== undefined) update.role = changes.role;
+  if (changes.name !== undefined) update.name = changes.name.trim();
+
+  const user = Object.keys(update).length > 0
+    ? await db.update<StoredUser>({
+        model: 'user',
+        where: [{ field: 'id', value: id }],
+        update: { ...update, updatedAt: now },
+      })
+    : await findStoredUser('id', id);
+  if (!user) throw new Error('User not found');
+
+  return toPortalUser(user);
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  await ensureReady();
+  const db = await adapter();
+  await db.deleteMany({ model: 'session', where: [{ field: 'userId', value: id }] });
+  await db.deleteMany({ model: 'account', where: [{ field: 'userId', value: id }] });
+  await db.delete({ model: 'user', where: [{ field: 'id', value: id }] });
+}
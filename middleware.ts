@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, getSession } from '@/lib/session';
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Allow access to login, unauthorized, API routes, and static assets
@@ -19,41 +20,41 @@ export function middleware(request: NextRequest) {
   }
 
   // Check for session cookie
-  const sessionCookie = request.cookies.get('admin-session');
+  const sessionCookie = request.cookies.get(SESSION_COOKIE);
+  const isApiRoute = pathname.startsWith('/api/');
 
   if (!sessionCookie) {
+    if (isApiRoute) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
     // Redirect to login page
     const loginUrl = new URL('/login', request.url);
     return NextResponse.redirect(loginUrl);
   }
 
-  // Validate session
+  // Validate the signature and look the session up in the server-side store
+  // (revoked, idle and expired sessions are rejected)
   try {
-    const sessionData = JSON.parse(
-      Buffer.from(sessionCookie.value, 'base64').toString()
-    );
+    const session = await getSession(sessionCookie.value);
 
-    // Check if session is expired (7 days)
-    const maxAge = 60 * 60 * 24 * 7 * 1000; // 7 days in ms
-    if (Date.now() - sessionData.timestamp > maxAge) {
-      const unauthorizedUrl = new URL('/unauthorized', request.url);
-      const response = NextResponse.redirect(unauthorizedUrl);
-      response.cookies.delete('admin-session');
-      return response;
+    if (session) {
+      return NextResponse.next();
     }
-
-    // Session is valid, allow access
-    return NextResponse.next();
   } catch (error) {
-    // Invalid session, redirect to unauthorized
-    const unauthorizedUrl = new URL('/unauthorized', request.url);
-    const response = NextResponse.redirect(unauthorizedUrl);
-    response.cookies.delete('admin-session');
-    return response;
+    console.error('[Middleware] Session validation failed:', error);
   }
+
+  // Invalid session, redirect to unauthorized
+  const response = isApiRoute
+    ? NextResponse.json({ error: 'Session expired or revoked' }, { status: 401 })
+    : NextResponse.redirect(new URL('/unauthorized', request.url));
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
 }
 
 export const config = {
+  // The session store is file-based, so middleware runs on Node.js rather than the edge
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
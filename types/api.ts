@@ -2,24 +2,172 @@
  * API request/response type definitions
  */
 
+import type { QueryResult } from './spacetime';
+import type { AuditOutcome } from './audit';
+
+// Values for `$1`, `$2`, … (an array) or `:name` (an object) placeholders; see lib/spacetime/params.ts
+export type SqlParams = unknown[] | Record<string, unknown>;
+
 export interface QueryRequest {
   sql: string;
-  params?: unknown[];
+  params?: SqlParams;
+  // Paging, ordering and filters are served from the server's result cache
   page?: number;
   pageSize?: number;
+  // Sort list such as `score DESC, name`
   orderBy?: string;
-  where?: string;
+  // Applied by the portal to the cached result; see lib/spacetime/grid-view.ts
+  filters?: Record<string, string>;
+  search?: string;
+  maxRows?: number;
+  // Re-run the query instead of reading a cached result
+  refresh?: boolean;
+  // `ndjson` streams a header line followed by one line per row
+  format?: 'json' | 'ndjson';
+  // Record the statement in the caller's SQL console history
+  history?: boolean;
 }
 
-export interface MutateRequest {
+export interface StatementResult {
+  columns: QueryResult['columns'];
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  fetchedRows: number;
+  truncated: boolean;
+}
+
+/**
+ * The first statement's result at the top level, plus every statement's result
+ */
+export interface QueryResponse extends StatementResult {
+  results: StatementResult[];
+}
+
+/**
+ * One page of a cached result; `totalRows` and `fetchedRows` describe the whole result
+ */
+export interface PagedQueryResponse extends StatementResult {
+  // Rows left after filters and search; pages are counted from these
+  matchedRows: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Whether the result was already cached, and when it was fetched from SpacetimeDB
+  cached: boolean;
+  cachedAt: string;
+}
+
+/**
+ * First line of an NDJSON query response; each following line is one row
+ */
+export type QueryStreamHeader = Omit<PagedQueryResponse, 'rows'>;
+
+export interface SqlHistoryEntry {
+  id: string;
   sql: string;
+  executedAt: string;
+  durationMs: number;
+  // Rows returned by all statements; null when the query failed
+  rowCount: number | null;
+  error: string | null;
+  pinned: boolean;
+}
+
+export interface ReducerCallRequest {
+  reducer: string;
   params?: unknown[];
+  // Tables to snapshot before and after the call, to report the rows it changed
+  snapshotTables?: string[];
+  // When set, `{{…}}` variables in string params are resolved, with these values for the asked-for ones
+  variables?: Record<string, string>;
+}
+
+/**
+ * Rows a reducer call changed in one table
+ * Rows are matched by `primaryKey`; tables without one only report inserts and deletes.
+ * Only the first rows of each kind are kept; the counts cover all of them.
+ */
+export interface ReducerTableChanges {
+  table: string;
+  primaryKey: string[];
+  // Column name to display type, for formatting values; absent on older entries
+  columnTypes?: Record<string, string>;
+  counts: { inserted: number; updated: number; deleted: number };
+  inserted: Record<string, unknown>[];
+  updated: { before: Record<string, unknown>; after: Record<string, unknown> }[];
+  deleted: Record<string, unknown>[];
+  // Set when the table couldn't be snapshotted
+  error?: string;
+}
+
+export interface ReducerCallEntry {
+  id: string;
+  reducer: string;
+  args: unknown[];
+  userId: string;
+  username: string;
+  status: AuditOutcome;
+  calledAt: string;
+  durationMs: number;
+  // Upstream HTTP status; null when the call never reached SpacetimeDB
+  httpStatus: number | null;
+  error: string | null;
+  // Reported by SpacetimeDB in the call's response headers, when present
+  energyUsed: string | null;
+  executionMicros: number | null;
+  changes: ReducerTableChanges[] | null;
+}
+
+export type QueryVisibility = 'private' | 'team';
+
+/**
+ * A named query kept on the portal server
+ * `{{name}}` placeholders in `sql` are filled in when the query is run.
+ */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description: string;
+  sql: string;
+  tags: string[];
+  visibility: QueryVisibility;
+  ownerId: string;
+  ownerUsername: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'description' | 'sql' | 'tags' | 'visibility'>;
+
+/**
+ * Named arguments for one reducer, kept on the portal server
+ * Strings in `args` may hold `{{now}}`, `{{me.identity}}`, `{{me.username}}` or
+ * `{{name}}` (asked for) variables, resolved when the preset is run.
+ */
+export interface ReducerPreset {
+  id: string;
+  reducer: string;
+  name: string;
+  description: string;
+  args: unknown[];
+  visibility: QueryVisibility;
+  ownerId: string;
+  ownerUsername: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReducerPresetInput = Pick<ReducerPreset, 'reducer' | 'name' | 'description' | 'args' | 'visibility'>;
+
+export interface MutateRequest {
+  sql: string;
+  params?: SqlParams;
 }
 
 export interface BulkRequest {
   operations: {
     sql: string;
-    params?: unknown[];
+    params?: SqlParams;
   }[];
   transactional: boolean;
   dryRun?: boolean;
@@ -0,0 +1,43 @@
+/**
+ * Audit log type definitions
+ */
+
+export type AuditOutcome = 'success' | 'denied' | 'error';
+
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  userId: string | null;
+  username: string | null;
+  role: string | null;
+  action: string;          // e.g. "sql.mutate", "reducer.call", "backup.restore"
+  target: string | null;   // reducer, table or user the action applied to
+  outcome: AuditOutcome;
+  details: Record<string, unknown> | null;  // SQL, parameters, results or error
+  durationMs: number | null;
+  ip: string | null;
+}
+
+export interface AuditFilter {
+  username?: string;
+  target?: string;         // substring match on table or reducer name
+  action?: string;
+  outcome?: AuditOutcome;
+  from?: string;           // ISO timestamp, inclusive
+  to?: string;             // ISO timestamp, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogResponse {
+  entries: AuditEntry[];
+  total: number;
+  facets: {
+    usernames: string[];
+    actions: string[];
+  };
+}
+
+export interface AuditSettings {
+  retentionDays: number;   // 0 keeps entries forever
+}
@@ -0,0 +1,23 @@
+/**
+ * Portal user and role type definitions
+ */
+
+export type Role = 'viewer' | 'operator' | 'admin' | 'owner';
+
+export type Permission =
+  | 'data:read'        // SELECT queries, schema, logs
+  | 'reducers:call'    // call reducers other than admin ones
+  | 'data:write'       // INSERT/UPDATE/DELETE, bulk operations
+  | 'backups:restore'  // restore and delete backups
+  | 'users:manage'     // create, edit and remove portal users
+  | 'audit:read'       // view and export the audit log
+  | 'audit:configure'; // change audit retention
+
+export interface PortalUser {
+  id: string;
+  username: string;
+  name: string;
+  email: string;
+  role: Role;
+  createdAt: string;
+}
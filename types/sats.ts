@@ -0,0 +1,69 @@
+/**
+ * SATS (SpacetimeDB Algebraic Type System) type definitions
+ * Typed AST for the AlgebraicType JSON published in the module schema
+ */
+
+export type SatsPrimitiveKind =
+  | 'bool'
+  | 'i8'
+  | 'u8'
+  | 'i16'
+  | 'u16'
+  | 'i32'
+  | 'u32'
+  | 'i64'
+  | 'u64'
+  | 'i128'
+  | 'u128'
+  | 'i256'
+  | 'u256'
+  | 'f32'
+  | 'f64'
+  | 'string';
+
+/**
+ * Built-in product types SpacetimeDB encodes as single-field structs
+ * with a reserved field name (e.g. `__identity__`)
+ */
+export type SatsSpecialKind = 'identity' | 'connectionId' | 'timestamp' | 'timeDuration';
+
+export interface SatsElement {
+  name: string | null;
+  type: SatsType;
+}
+
+export type SatsType =
+  | { kind: SatsPrimitiveKind }
+  | { kind: SatsSpecialKind }
+  | { kind: 'product'; elements: SatsElement[] }
+  | { kind: 'sum'; variants: SatsElement[] }
+  | { kind: 'option'; inner: SatsType }
+  | { kind: 'array'; element: SatsType }
+  | { kind: 'map'; key: SatsType; value: SatsType }
+  | { kind: 'ref'; ref: number };
+
+/**
+ * Resolved types referenced by `{ kind: 'ref' }` nodes, indexed by ref
+ */
+export type SatsTypespace = SatsType[];
+
+/**
+ * Decoded sum value, matching the SpacetimeDB TypeScript SDK shape
+ */
+export interface SatsSumValue {
+  tag: string;
+  value: unknown;
+}
+
+export interface SatsColumn {
+  name: string;
+  type: SatsType;
+}
+
+/**
+ * Everything needed to decode a table's raw rows outside the server
+ */
+export interface SatsRowType {
+  columns: SatsColumn[];
+  typespace: SatsTypespace;
+}
@@ -3,6 +3,7 @@
  */
 
 import type { TableMetadata } from './spacetime';
+import type { SatsRowType } from './sats';
 
 export interface SchemaCache {
   tables: TableMetadata[];
@@ -14,6 +15,8 @@ export interface SchemaCache {
 export interface TableSchemaResponse {
   table: TableMetadata;
   zodSchema?: string;
+  // Only included with ?rowType=true (used to decode subscription rows)
+  rowType?: SatsRowType;
 }
 
 export interface SchemaTablesResponse {
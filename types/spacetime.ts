@@ -2,6 +2,8 @@
  * Core SpacetimeDB type definitions
  */
 
+import type { SqlParams } from './api';
+
 export interface ColumnMetadata {
   name: string;
   dataType: string;
@@ -9,6 +11,7 @@ export interface ColumnMetadata {
   defaultValue?: unknown;
   isPrimary: boolean;
   isUnique: boolean;
+  isAutoIncrement?: boolean;
   comment?: string;
 }
 
@@ -17,6 +20,7 @@ export interface IndexMetadata {
   columns: string[];
   isUnique: boolean;
   isPrimary: boolean;
+  algorithm?: 'btree' | 'hash' | 'direct';
 }
 
 export interface ConstraintMetadata {
@@ -27,6 +31,29 @@ export interface ConstraintMetadata {
   referencedColumns?: string[];
 }
 
+export interface SequenceMetadata {
+  name: string;
+  column: string;
+  increment: number;
+  // i128 bounds are sent as decimal strings
+  start?: string;
+  minValue?: string;
+  maxValue?: string;
+}
+
+export interface TableStats {
+  rowCount: number;
+  // Set when COUNT(*) isn't supported and the table has more rows than were sampled
+  lowerBound?: boolean;
+  // Size of the table's SATS-JSON payload, extrapolated from a sample of rows
+  approxBytes?: number;
+  method: 'count' | 'scan';
+  updatedAt: string;
+  // Change since the previous sample
+  rowDelta?: number;
+  bytesDelta?: number;
+}
+
 export interface TableMetadata {
   name: string;
   schema: string;
@@ -34,11 +61,15 @@ export interface TableMetadata {
   columns: ColumnMetadata[];
   indexes: IndexMetadata[];
   constraints: ConstraintMetadata[];
+  sequences: SequenceMetadata[];
+  primaryKey: string[];
+  isPublic?: boolean;
   estimatedRows?: number;
+  stats?: TableStats;
 }
 
 export interface QueryResult {
-  columns: { name: string; type: string }[];
+  columns: { name: string; type: string; nullable?: boolean }[];
   rows: Record<string, unknown>[];
   pageInfo?: {
     hasNext: boolean;
@@ -55,7 +86,7 @@ export interface MutationResult {
 
 export interface BulkOperation {
   sql: string;
-  params?: unknown[];
+  params?: SqlParams;
 }
 
 export interface BulkOperationResult {
@@ -63,15 +94,40 @@ export interface BulkOperationResult {
     success: boolean;
     affectedRows: number;
     error?: string;
+    // Undone by a compensating statement after a later operation failed
+    rolledBack?: boolean;
   }[];
   errors?: string[];
   dryRunReport?: {
     totalOperations: number;
     estimatedAffectedRows: number;
     warnings: string[];
+    // Whether every operation parsed and matched the schema
+    valid: boolean;
+    operations: BulkOperationCheck[];
+  };
+  // Transactional runs only, when an operation failed after earlier ones succeeded
+  rollback?: {
+    statements: number;
+    succeeded: number;
+    errors: string[];
   };
 }
 
+/**
+ * Dry-run findings for one bulk operation
+ */
+export interface BulkOperationCheck {
+  kind: 'insert' | 'update' | 'delete' | null;
+  table: string | null;
+  // Rows an INSERT adds, or rows an UPDATE/DELETE's condition currently matches
+  estimatedRows: number | null;
+  // Set when the server couldn't COUNT(*) and the capped read was full: at least `estimatedRows`
+  estimatedRowsLowerBound?: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
 export interface ConnectionStatus {
   connected: boolean;
   connecting: boolean;